@@ -9,6 +9,9 @@ import { AppProvider, useAppContext } from './context/AppContext';
 import { Header } from './components/Header';
 import { HomePage } from './components/HomePage';
 import { SettingsPage } from './components/SettingsPage';
+import { ReviewPage } from './components/ReviewPage';
+import { AskPage } from './components/AskPage';
+import { JobsPanel } from './components/JobsPanel';
 import { Toast } from './components/Toast';
 
 // Toast message interface
@@ -50,9 +53,14 @@ const AppContent: React.FC = () => {
       {/* Page content */}
       <main>
         {currentPage === 'home' && <HomePage />}
+        {currentPage === 'ask' && <AskPage />}
+        {currentPage === 'review' && <ReviewPage />}
         {currentPage === 'settings' && <SettingsPage />}
       </main>
 
+      {/* Background processing, shown on every page */}
+      <JobsPanel />
+
       {/* Toast notifications */}
       {toasts.map((toast) => (
         <Toast
@@ -0,0 +1,342 @@
+/**
+ * Ask Page Component
+ *
+ * Ask questions across the whole library, optionally limited to a
+ * category, tags or a date range. Answers cite the recordings they come
+ * from; citations play the recording from the cited moment.
+ */
+
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { FilterOptions, LibraryAnswer, LibrarySource } from '../types';
+import { useAppContext } from '../context/AppContext';
+import { getAllCategories, getAllTags, getRecording } from '../services/storage';
+import { getNotesProvider } from '../services/notesGeneration';
+import { askLibrary } from '../services/libraryQA';
+import { formatTimestamp } from '../services/formatters';
+import { toDateInputValue, fromDateInputValue } from '../services/urlState';
+import { CitedMarkdown, CitationLabel } from './CitedMarkdown';
+import { MarkdownRenderer } from './MarkdownRenderer';
+
+const INPUT_CLASS =
+  'bg-gray-700 text-white px-3 py-2 rounded border border-gray-600 text-sm focus:outline-none focus:border-blue-500';
+
+/**
+ * Short label for a source: recording name and time
+ */
+const describeSource = (source: LibrarySource): string =>
+  source.start !== undefined ? `${source.title} · ${formatTimestamp(source.start)}` : source.title;
+
+interface AnswerTextProps {
+  content: string;
+  sources: LibrarySource[];
+  onPlay: (source: LibrarySource) => void;
+}
+
+/**
+ * Answer Markdown with [S1]-style citations turned into play buttons
+ */
+const AnswerText: React.FC<AnswerTextProps> = ({ content, sources, onPlay }) => {
+  const describeCitation = useCallback((number: number): CitationLabel | undefined => {
+    const source = sources[number - 1];
+    return source ? { label: describeSource(source), title: `Play ${describeSource(source)}` } : undefined;
+  }, [sources]);
+
+  return (
+    <CitedMarkdown
+      content={content}
+      prefix="S"
+      describeCitation={describeCitation}
+      onCite={(number) => onPlay(sources[number - 1])}
+    />
+  );
+};
+
+export const AskPage: React.FC = () => {
+  const { anthropicKey, notesSettings } = useAppContext();
+
+  const allTags = useLiveQuery(() => getAllTags(), []) || [];
+  const allCategories = useLiveQuery(() => getAllCategories(), []) || [];
+
+  const [scope, setScope] = useState<FilterOptions>({});
+  const [input, setInput] = useState('');
+  // Answers given this session, newest first
+  const [answers, setAnswers] = useState<LibraryAnswer[]>([]);
+  const [pending, setPending] = useState<{ question: string; answer: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [nowPlaying, setNowPlaying] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const audioUrlRef = useRef<string | null>(null);
+
+  // Stop answering and release the audio when the page closes
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+      if (audioUrlRef.current) {
+        URL.revokeObjectURL(audioUrlRef.current);
+      }
+    };
+  }, []);
+
+  /**
+   * Change one scope field, removing it when cleared
+   */
+  const updateScope = <K extends keyof FilterOptions>(key: K, value: FilterOptions[K]) => {
+    const next = { ...scope };
+    if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    setScope(next);
+  };
+
+  /**
+   * Add or remove a tag from the scope
+   */
+  const toggleTag = (tag: string) => {
+    const current = scope.tags || [];
+    updateScope('tags', current.includes(tag) ? current.filter((t) => t !== tag) : [...current, tag]);
+  };
+
+  /**
+   * Search the library and stream the answer
+   */
+  const handleAsk = async () => {
+    const question = input.trim();
+    if (!question || pending) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      setError(null);
+
+      // Throws if the selected provider isn't fully configured
+      const provider = getNotesProvider(notesSettings, anthropicKey);
+
+      let received = '';
+      setPending({ question, answer: '' });
+      const result = await askLibrary(question, scope, provider, {
+        signal: controller.signal,
+        onText: (delta) => {
+          received += delta;
+          setPending({ question, answer: received });
+        },
+      });
+
+      setAnswers((previous) => [result, ...previous]);
+      setInput('');
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      const errorMessage = err instanceof Error ? err.message : 'Failed to answer the question';
+      setError(errorMessage);
+      console.error('Library Q&A error:', err);
+    } finally {
+      abortControllerRef.current = null;
+      setPending(null);
+    }
+  };
+
+  /**
+   * Play a cited recording from the start of the cited chunk
+   */
+  const handlePlay = async (source: LibrarySource) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    try {
+      const recording = await getRecording(source.recordingId);
+      if (!recording) {
+        setError('This recording has been deleted.');
+        return;
+      }
+
+      if (audioUrlRef.current) {
+        URL.revokeObjectURL(audioUrlRef.current);
+      }
+      audioUrlRef.current = URL.createObjectURL(recording.audioBlob);
+      audio.src = audioUrlRef.current;
+      audio.currentTime = source.start ?? 0;
+      setNowPlaying(describeSource(source));
+      await audio.play();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to play recording';
+      setError(errorMessage);
+      console.error('Playback error:', err);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h2 className="text-3xl font-bold text-white mb-2">Ask Your Library</h2>
+      <p className="text-gray-400 text-sm mb-6">
+        Transcripts are searched on this device. Only the excerpts listed as sources under each
+        answer are sent to the notes provider.
+      </p>
+
+      {/* Scope */}
+      <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 space-y-3 mb-4">
+        <div className="flex flex-wrap gap-2 items-center">
+          <select
+            value={scope.category || ''}
+            onChange={(e) => updateScope('category', e.target.value)}
+            aria-label="Category"
+            className={INPUT_CLASS}
+          >
+            <option value="">All categories</option>
+            {allCategories.map((category) => (
+              <option key={category} value={category}>
+                {category}
+              </option>
+            ))}
+          </select>
+
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            From
+            <input
+              type="date"
+              value={scope.dateFrom ? toDateInputValue(scope.dateFrom) : ''}
+              onChange={(e) => updateScope('dateFrom', fromDateInputValue(e.target.value))}
+              className={INPUT_CLASS}
+            />
+          </label>
+
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            To
+            <input
+              type="date"
+              value={scope.dateTo ? toDateInputValue(scope.dateTo) : ''}
+              onChange={(e) => updateScope('dateTo', fromDateInputValue(e.target.value, true))}
+              className={INPUT_CLASS}
+            />
+          </label>
+
+          {Object.keys(scope).length > 0 && (
+            <button
+              onClick={() => setScope({})}
+              className="text-sm text-blue-400 hover:text-blue-300 px-2"
+            >
+              Whole library
+            </button>
+          )}
+        </div>
+
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap gap-2 items-center">
+            <span className="text-sm text-gray-400">Tags:</span>
+            {allTags.map((tag) => {
+              const isSelected = scope.tags?.includes(tag);
+              return (
+                <button
+                  key={tag}
+                  onClick={() => toggleTag(tag)}
+                  className={`px-3 py-1 rounded-full text-xs transition-colors ${
+                    isSelected
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  #{tag}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Question input */}
+      <div className="flex gap-2 mb-4">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAsk()}
+          placeholder="Ask a question across your recordings"
+          disabled={!!pending}
+          className={`flex-1 ${INPUT_CLASS}`}
+        />
+        {pending ? (
+          <button
+            onClick={() => abortControllerRef.current?.abort()}
+            className="bg-gray-600 hover:bg-gray-700 text-white px-4 py-2 rounded text-sm font-medium transition-colors"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={handleAsk}
+            disabled={!input.trim()}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-500 text-white px-4 py-2 rounded text-sm font-medium transition-colors"
+          >
+            Ask
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-900 border border-red-700 text-red-200 px-4 py-3 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Shared player for cited moments */}
+      <div className={nowPlaying ? 'bg-gray-800 rounded-lg p-3 mb-4' : 'hidden'}>
+        <p className="text-sm text-gray-400 mb-2">Playing: {nowPlaying}</p>
+        <audio ref={audioRef} controls className="w-full" />
+      </div>
+
+      {/* Answers */}
+      <div className="space-y-4">
+        {pending && (
+          <div className="bg-gray-800 rounded-lg p-4 text-sm">
+            <p className="text-white font-medium mb-2">{pending.question}</p>
+            {pending.answer ? (
+              <MarkdownRenderer content={pending.answer} />
+            ) : (
+              <p className="text-gray-400">Searching...</p>
+            )}
+          </div>
+        )}
+
+        {answers.length === 0 && !pending && (
+          <p className="text-gray-500 text-sm">
+            Ask about anything covered in your transcribed recordings, e.g. "How do the lectures define
+            entropy?". Answers cite the recordings and moments they come from.
+          </p>
+        )}
+
+        {answers.map((entry, index) => (
+          <div key={index} className="bg-gray-800 rounded-lg p-4 text-sm">
+            <p className="text-white font-medium mb-2">{entry.question}</p>
+            <div className="text-gray-200">
+              <AnswerText content={entry.answer} sources={entry.sources} onPlay={handlePlay} />
+            </div>
+
+            <details className="mt-3 text-gray-400">
+              <summary className="cursor-pointer hover:text-gray-300">
+                {entry.sources.length} source{entry.sources.length === 1 ? '' : 's'} from{' '}
+                {entry.recordingCount} recording{entry.recordingCount === 1 ? '' : 's'} searched
+              </summary>
+              <ol className="mt-2 space-y-2">
+                {entry.sources.map((source, sourceIndex) => (
+                  <li key={sourceIndex}>
+                    <button
+                      onClick={() => handlePlay(source)}
+                      className="text-blue-400 hover:text-blue-300"
+                    >
+                      [S{sourceIndex + 1}] {describeSource(source)}
+                    </button>
+                    <span className="text-gray-500"> ({source.date.toLocaleDateString()})</span>
+                    <p className="text-gray-500 line-clamp-2">{source.text}</p>
+                  </li>
+                ))}
+              </ol>
+            </details>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
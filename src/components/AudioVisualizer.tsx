@@ -2,29 +2,51 @@
  * Audio Visualizer Component
  *
  * Displays real-time frequency bars during recording
- * Shows 32 bars with gradient colors that respond to audio input
+ * Shows 32 bars with gradient colors that respond to audio input,
+ * and a level meter for each source (microphone, tab audio)
  */
 
 import React, { useEffect, useRef, useState } from 'react';
 import { AudioVisualizer as AudioVisualizerService } from '../services/audioVisualizer';
+import { SourceStream } from '../services/audioRecorder';
 
 interface AudioVisualizerProps {
   isRecording: boolean;
   isPaused: boolean;
   audioStream: MediaStream | null;
+  sources: SourceStream[];  // Inputs mixed into audioStream, metered separately
 }
 
 export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({
   isRecording,
   isPaused,
   audioStream,
+  sources,
 }) => {
   // State to hold bar heights (32 bars, values 0-100)
   const [barHeights, setBarHeights] = useState<number[]>(new Array(32).fill(0));
 
+  // Level of each source (0-100)
+  const [levels, setLevels] = useState<number[]>([]);
+
   // Ref to persist visualizer instance across renders
   const visualizerRef = useRef<AudioVisualizerService | null>(null);
 
+  // One analyser per source for its level meter
+  const meterRefs = useRef<AudioVisualizerService[]>([]);
+
+  /**
+   * Stop the frequency bars and level meters
+   */
+  const cleanupVisualizers = () => {
+    if (visualizerRef.current) {
+      visualizerRef.current.cleanup();
+      visualizerRef.current = null;
+    }
+    meterRefs.current.forEach((meter) => meter.cleanup());
+    meterRefs.current = [];
+  };
+
   useEffect(() => {
     // Only initialize visualizer when actually recording (not paused)
     if (isRecording && !isPaused && audioStream) {
@@ -36,6 +58,13 @@ export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({
         // Initialize with audio stream
         visualizer.initialize(audioStream);
 
+        // Analyse each source on its own too
+        meterRefs.current = sources.map(({ stream }) => {
+          const meter = new AudioVisualizerService();
+          meter.initialize(stream);
+          return meter;
+        });
+
         // Start visualization loop
         visualizer.startVisualization((frequencyData) => {
           // frequencyData is Uint8Array with 128 frequency bins (0-255 values)
@@ -55,6 +84,9 @@ export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({
 
           // Update bar heights
           setBarHeights(bars);
+
+          // Speech is rarely above a quarter of full scale, so scale up
+          setLevels(meterRefs.current.map((meter) => Math.min(100, meter.getLevel() * 400)));
         });
       } catch (error) {
         console.error('Error starting visualizer:', error);
@@ -62,22 +94,15 @@ export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({
     } else {
       // Not recording or paused - flatten bars
       setBarHeights(new Array(32).fill(4)); // Minimum height
+      setLevels([]);
 
-      // Cleanup visualizer if exists
-      if (visualizerRef.current) {
-        visualizerRef.current.cleanup();
-        visualizerRef.current = null;
-      }
+      // Cleanup visualizers if they exist
+      cleanupVisualizers();
     }
 
     // Cleanup on unmount or when dependencies change
-    return () => {
-      if (visualizerRef.current) {
-        visualizerRef.current.cleanup();
-        visualizerRef.current = null;
-      }
-    };
-  }, [isRecording, isPaused, audioStream]);
+    return cleanupVisualizers;
+  }, [isRecording, isPaused, audioStream, sources]);
 
   // Don't show visualizer if not recording
   if (!isRecording) {
@@ -85,17 +110,34 @@ export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({
   }
 
   return (
-    <div className="flex items-end justify-center gap-1 h-32 bg-gray-900 rounded-lg p-4">
-      {barHeights.map((height, index) => (
-        <div
-          key={index}
-          className="flex-1 bg-gradient-to-t from-blue-500 to-purple-500 rounded-t transition-all duration-75"
-          style={{
-            height: `${height}%`,
-            minWidth: '4px',
-          }}
-        />
-      ))}
+    <div>
+      <div className="flex items-end justify-center gap-1 h-32 bg-gray-900 rounded-lg p-4">
+        {barHeights.map((height, index) => (
+          <div
+            key={index}
+            className="flex-1 bg-gradient-to-t from-blue-500 to-purple-500 rounded-t transition-all duration-75"
+            style={{
+              height: `${height}%`,
+              minWidth: '4px',
+            }}
+          />
+        ))}
+      </div>
+
+      {/* Level meter per source (flat while paused) */}
+      <div className="mt-3 space-y-2">
+        {sources.map((source, index) => (
+          <div key={source.label} className="flex items-center gap-3 text-sm">
+            <span className="w-24 text-gray-400">{source.label}</span>
+            <div className="flex-1 h-2 bg-gray-900 rounded overflow-hidden">
+              <div
+                className="h-full bg-green-500 transition-all duration-75"
+                style={{ width: `${levels[index] || 0}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
     </div>
   );
 };
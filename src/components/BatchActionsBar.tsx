@@ -0,0 +1,253 @@
+/**
+ * Batch Actions Bar Component
+ *
+ * Shown while recordings are selected in the list. Applies one action to
+ * all of them: transcribe, generate or regenerate notes (optionally with
+ * another template), delete, mark studied, add or remove tags or set the
+ * category.
+ * Processing is queued in the background; the result is reported back
+ * for the batch summary.
+ */
+
+import React, { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { BatchAction, BatchResult, Recording } from '../types';
+import { useAppContext } from '../context/AppContext';
+import { getAllTags, getAllCategories } from '../services/storage';
+import { getAllTemplates } from '../services/noteTemplates';
+import { getTranscriptionProvider } from '../services/transcription';
+import { getNotesProvider } from '../services/notesGeneration';
+import { applyBatchAction } from '../services/batchActions';
+
+interface BatchActionsBarProps {
+  recordings: Recording[];  // Selected recordings
+  onComplete: (result: BatchResult) => void;
+  onClearSelection: () => void;
+}
+
+// Shared input styling
+const INPUT_CLASS =
+  'bg-gray-700 text-white px-3 py-2 rounded border border-gray-600 text-sm focus:outline-none focus:border-blue-500';
+
+// Shared button styling
+const BUTTON_CLASS =
+  'bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-500 text-white px-3 py-2 rounded text-sm font-medium transition-colors';
+
+export const BatchActionsBar: React.FC<BatchActionsBarProps> = ({ recordings, onComplete, onClearSelection }) => {
+  const { openaiKey, anthropicKey, transcriptionSettings, notesSettings } = useAppContext();
+
+  const allTags = useLiveQuery(() => getAllTags(), []) || [];
+  const allCategories = useLiveQuery(() => getAllCategories(), []) || [];
+  const allTemplates = useLiveQuery(() => getAllTemplates(), []) || [];
+
+  const [templateId, setTemplateId] = useState('');
+  const [tagInput, setTagInput] = useState('');
+  const [categoryInput, setCategoryInput] = useState('');
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isWorking = progress !== null;
+
+  /**
+   * Apply an action to every selected recording
+   */
+  const runAction = async (action: BatchAction) => {
+    try {
+      setError(null);
+      setShowDeleteConfirm(false);
+
+      // Check the providers up front rather than failing every job
+      // (both throw if not fully configured)
+      if (action.type === 'transcribe' || action.type === 'generate_notes' || action.type === 'regenerate_notes') {
+        if (recordings.some((recording) => !recording.transcript)) {
+          getTranscriptionProvider(transcriptionSettings, openaiKey);
+        }
+        if (action.type !== 'transcribe') {
+          getNotesProvider(notesSettings, anthropicKey);
+        }
+      }
+
+      setProgress({ done: 0, total: recordings.length });
+      const result = await applyBatchAction(recordings, action, (done, total) => setProgress({ done, total }));
+      onComplete(result);
+
+      if (action.type === 'delete') {
+        onClearSelection();
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to apply the action';
+      setError(errorMessage);
+      console.error('Batch action error:', err);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  /**
+   * Add or remove the typed tags (comma-separated), reusing existing spellings
+   */
+  const handleTags = (type: 'add_tags' | 'remove_tags') => {
+    const tags = tagInput
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean)
+      .map((value) => allTags.find((tag) => tag.toLowerCase() === value.toLowerCase()) || value);
+    if (tags.length === 0) return;
+
+    setTagInput('');
+    runAction({ type, tags: Array.from(new Set(tags)) });
+  };
+
+  /**
+   * Set the typed category (empty clears it), reusing an existing spelling
+   */
+  const handleSetCategory = () => {
+    const value = categoryInput.trim();
+    const category = allCategories.find((c) => c.toLowerCase() === value.toLowerCase()) || value;
+    runAction({ type: 'set_category', category: category || undefined });
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 border border-blue-700 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-white font-medium">
+          {recordings.length} recording{recordings.length === 1 ? '' : 's'} selected
+          {progress && (
+            <span className="text-gray-400 font-normal ml-2">
+              Working... {progress.done} of {progress.total}
+            </span>
+          )}
+        </p>
+        <button onClick={onClearSelection} className="text-sm text-blue-400 hover:text-blue-300">
+          Clear selection
+        </button>
+      </div>
+
+      {/* Processing and status */}
+      <div className="flex flex-wrap gap-2">
+        <button onClick={() => runAction({ type: 'transcribe' })} disabled={isWorking} className={BUTTON_CLASS}>
+          Transcribe
+        </button>
+        <button onClick={() => runAction({ type: 'generate_notes' })} disabled={isWorking} className={BUTTON_CLASS}>
+          Generate Notes
+        </button>
+        <button
+          onClick={() => runAction({ type: 'set_studied', isStudied: true })}
+          disabled={isWorking}
+          className={BUTTON_CLASS}
+        >
+          Mark Studied
+        </button>
+        <button
+          onClick={() => runAction({ type: 'set_studied', isStudied: false })}
+          disabled={isWorking}
+          className={BUTTON_CLASS}
+        >
+          Mark Not Studied
+        </button>
+
+        {!showDeleteConfirm ? (
+          <button
+            onClick={() => setShowDeleteConfirm(true)}
+            disabled={isWorking}
+            className="bg-red-900 hover:bg-red-800 disabled:bg-gray-800 disabled:text-gray-500 text-red-200 px-3 py-2 rounded text-sm font-medium transition-colors"
+          >
+            Delete
+          </button>
+        ) : (
+          <span className="flex items-center gap-2">
+            <button
+              onClick={() => runAction({ type: 'delete' })}
+              className="bg-red-600 hover:bg-red-700 text-white px-3 py-2 rounded text-sm font-medium"
+            >
+              Delete {recordings.length}
+            </button>
+            <button
+              onClick={() => setShowDeleteConfirm(false)}
+              className="bg-gray-600 hover:bg-gray-700 text-white px-3 py-2 rounded text-sm"
+            >
+              Cancel
+            </button>
+          </span>
+        )}
+      </div>
+
+      {/* Regenerate, tags and category */}
+      <div className="flex flex-wrap gap-2 items-center">
+        <select
+          value={templateId}
+          onChange={(e) => setTemplateId(e.target.value)}
+          disabled={isWorking}
+          aria-label="Template for regenerated notes"
+          className={INPUT_CLASS}
+        >
+          <option value="">Each recording's template</option>
+          {allTemplates.map((template) => (
+            <option key={template.id} value={template.id}>
+              {template.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => runAction({ type: 'regenerate_notes', templateId: templateId || undefined })}
+          disabled={isWorking}
+          className={BUTTON_CLASS}
+        >
+          Regenerate Notes
+        </button>
+
+        <input
+          type="text"
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleTags('add_tags')}
+          placeholder="tag, another tag"
+          list="batch-tag-options"
+          disabled={isWorking}
+          className={`w-40 ${INPUT_CLASS}`}
+        />
+        <datalist id="batch-tag-options">
+          {allTags.map((tag) => (
+            <option key={tag} value={tag} />
+          ))}
+        </datalist>
+        <button onClick={() => handleTags('add_tags')} disabled={isWorking || !tagInput.trim()} className={BUTTON_CLASS}>
+          Add Tags
+        </button>
+        <button
+          onClick={() => handleTags('remove_tags')}
+          disabled={isWorking || !tagInput.trim()}
+          className={BUTTON_CLASS}
+        >
+          Remove Tags
+        </button>
+
+        <input
+          type="text"
+          value={categoryInput}
+          onChange={(e) => setCategoryInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSetCategory()}
+          placeholder="Category"
+          list="batch-category-options"
+          disabled={isWorking}
+          className={`w-40 ${INPUT_CLASS}`}
+        />
+        <datalist id="batch-category-options">
+          {allCategories.map((category) => (
+            <option key={category} value={category} />
+          ))}
+        </datalist>
+        <button onClick={handleSetCategory} disabled={isWorking} className={BUTTON_CLASS}>
+          {categoryInput.trim() ? 'Set Category' : 'Clear Category'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-900 border border-red-700 text-red-200 px-4 py-2 rounded text-sm">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+/**
+ * Batch Summary Component
+ *
+ * One summary for the last batch action: how many recordings are done,
+ * still waiting or processing, skipped or failed, with the reason for
+ * every failure. Queued recordings are followed until their jobs finish.
+ */
+
+import React from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { BatchResult } from '../types';
+import { getJobs, getRecording } from '../services/storage';
+
+interface BatchSummaryProps {
+  result: BatchResult;
+  onDismiss: () => void;
+}
+
+// Where a recording of the batch has got to
+type ItemState = 'done' | 'waiting' | 'running' | 'skipped' | 'failed';
+
+export const BatchSummary: React.FC<BatchSummaryProps> = ({ result, onDismiss }) => {
+  /**
+   * Follow queued recordings through the job queue
+   * A finished job is removed, so a queued recording without a job is
+   * done unless the recording ended in an error
+   */
+  const states = useLiveQuery(async () => {
+    const jobs = await getJobs();
+    return Promise.all(
+      result.items.map(async (item): Promise<{ state: ItemState; message?: string }> => {
+        if (item.outcome !== 'queued') {
+          return { state: item.outcome, message: item.message };
+        }
+
+        const job = jobs.find((j) => j.recordingId === item.recordingId);
+        if (job) {
+          return job.status === 'failed'
+            ? { state: 'failed', message: job.error }
+            : { state: job.status === 'running' ? 'running' : 'waiting', message: job.error };
+        }
+
+        const recording = await getRecording(item.recordingId);
+        return recording?.status === 'error'
+          ? { state: 'failed', message: recording.errorMessage }
+          : { state: 'done' };
+      })
+    );
+  }, [result]);
+
+  const count = (state: ItemState) => states?.filter((s) => s.state === state).length || 0;
+  const done = count('done');
+  const failed = count('failed');
+  const skipped = count('skipped');
+  const inProgress = count('waiting') + count('running');
+  const total = result.items.length;
+  const finished = total - inProgress;
+
+  const failures = result.items
+    .map((item, index) => ({ item, state: states?.[index] }))
+    .filter(({ state }) => state?.state === 'failed' || state?.state === 'skipped');
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-white font-medium">
+          {result.label}: {total} recording{total === 1 ? '' : 's'}
+        </p>
+        <button onClick={onDismiss} className="text-gray-400 hover:text-gray-300">
+          Dismiss
+        </button>
+      </div>
+
+      {/* Progress */}
+      <div className="mt-2 h-2 bg-gray-700 rounded overflow-hidden">
+        <div
+          className={`h-full transition-all ${failed > 0 ? 'bg-yellow-500' : 'bg-green-500'}`}
+          style={{ width: `${total > 0 ? (finished / total) * 100 : 0}%` }}
+        />
+      </div>
+      <p className="mt-2 text-gray-400">
+        {done} done
+        {inProgress > 0 && <> · {count('running')} processing · {count('waiting')} waiting</>}
+        {skipped > 0 && <> · {skipped} skipped</>}
+        {failed > 0 && <span className="text-red-400"> · {failed} failed</span>}
+      </p>
+
+      {/* Failures and skipped recordings, with reasons */}
+      {failures.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {failures.map(({ item, state }) => (
+            <li key={item.recordingId} className={state?.state === 'failed' ? 'text-red-300' : 'text-gray-400'}>
+              <span className="font-medium">{item.name}</span>
+              {state?.message && <>: {state.message}</>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
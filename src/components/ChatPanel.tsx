@@ -0,0 +1,260 @@
+/**
+ * Chat Panel Component
+ *
+ * Ask questions about a recording and get answers grounded in its
+ * transcript. Answers are shown as Markdown, and citations ([n]) are buttons
+ * that play the audio from the cited passage. Conversations are saved per
+ * recording and can be reopened or deleted.
+ */
+
+import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { ChatMessage, Recording } from '../types';
+import { useAppContext } from '../context/AppContext';
+import {
+  getConversations,
+  createConversation,
+  addConversationMessage,
+  deleteConversation,
+} from '../services/storage';
+import { getNotesProvider } from '../services/notesGeneration';
+import { askRecording, getPassages, TranscriptPassage } from '../services/recordingChat';
+import { formatTimestamp } from '../services/formatters';
+import { CitedMarkdown, CitationLabel } from './CitedMarkdown';
+
+interface ChatPanelProps {
+  recording: Recording;
+  onJumpTo: (time: number) => void;  // Seek the audio player to a time (seconds)
+}
+
+interface AnswerTextProps {
+  content: string;
+  passages: TranscriptPassage[];
+  onJumpTo: (time: number) => void;
+}
+
+/**
+ * Answer Markdown with citations turned into seek buttons
+ */
+const AnswerText: React.FC<AnswerTextProps> = ({ content, passages, onJumpTo }) => {
+  const describeCitation = useCallback((number: number): CitationLabel | undefined => {
+    const start = passages[number]?.start;
+    return start !== undefined
+      ? { label: formatTimestamp(start), title: `Play from ${formatTimestamp(start)}` }
+      : undefined;
+  }, [passages]);
+
+  return (
+    <CitedMarkdown
+      content={content}
+      describeCitation={describeCitation}
+      onCite={(number) => {
+        const start = passages[number]?.start;
+        if (start !== undefined) onJumpTo(start);
+      }}
+    />
+  );
+};
+
+export const ChatPanel: React.FC<ChatPanelProps> = ({ recording, onJumpTo }) => {
+  const { anthropicKey, notesSettings } = useAppContext();
+
+  const conversations = useLiveQuery(
+    () => (recording.id ? getConversations(recording.id) : []),
+    [recording.id]
+  );
+
+  // Selected conversation (null starts a new one)
+  const [activeId, setActiveId] = useState<number | null>(null);
+  const [input, setInput] = useState('');
+  const [streamedAnswer, setStreamedAnswer] = useState<string | null>(null);
+  const [isAsking, setIsAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  // Citations refer to these passages
+  const passages = useMemo(() => getPassages(recording), [recording]);
+
+  const active = conversations?.find((conversation) => conversation.id === activeId);
+  const messages = active?.messages || [];
+
+  // Stop answering if the panel goes away
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages.length, streamedAnswer]);
+
+  /**
+   * Send the question and stream the answer
+   */
+  const handleAsk = async () => {
+    const question = input.trim();
+    if (!question || !recording.id || isAsking) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      setIsAsking(true);
+      setError(null);
+
+      // Throws if the selected provider isn't fully configured
+      const provider = getNotesProvider(notesSettings, anthropicKey);
+
+      // Save the question first so it survives a failed answer
+      const userMessage: ChatMessage = { role: 'user', content: question, createdAt: new Date() };
+      let conversationId = activeId;
+      if (conversationId === null || !active) {
+        conversationId = await createConversation(recording.id, userMessage);
+        setActiveId(conversationId);
+      } else {
+        await addConversationMessage(conversationId, userMessage);
+      }
+      setInput('');
+
+      let received = '';
+      setStreamedAnswer('');
+      const answer = await askRecording(recording, messages, question, provider, {
+        signal: controller.signal,
+        onText: (delta) => {
+          received += delta;
+          setStreamedAnswer(received);
+        },
+      });
+
+      await addConversationMessage(conversationId, {
+        role: 'assistant',
+        content: answer,
+        createdAt: new Date(),
+      });
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      const errorMessage = err instanceof Error ? err.message : 'Failed to answer the question';
+      setError(errorMessage);
+      console.error('Chat error:', err);
+    } finally {
+      abortControllerRef.current = null;
+      setStreamedAnswer(null);
+      setIsAsking(false);
+    }
+  };
+
+  /**
+   * Delete the open conversation
+   */
+  const handleDelete = async () => {
+    if (activeId === null) return;
+
+    try {
+      await deleteConversation(activeId);
+      setActiveId(null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete conversation';
+      setError(errorMessage);
+      console.error('Delete conversation error:', err);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Conversation picker */}
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={activeId ?? ''}
+          onChange={(e) => setActiveId(e.target.value ? Number(e.target.value) : null)}
+          disabled={isAsking}
+          aria-label="Conversation"
+          className="flex-1 min-w-0 bg-gray-700 text-white px-3 py-2 rounded border border-gray-600 text-sm focus:outline-none focus:border-blue-500"
+        >
+          <option value="">New conversation</option>
+          {conversations?.map((conversation) => (
+            <option key={conversation.id} value={conversation.id}>
+              {conversation.title} ({conversation.updatedAt.toLocaleDateString()})
+            </option>
+          ))}
+        </select>
+        {activeId !== null && (
+          <button
+            onClick={handleDelete}
+            disabled={isAsking}
+            className="text-red-400 hover:text-red-300 text-sm px-2"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+
+      {/* Messages */}
+      <div className="max-h-96 overflow-y-auto space-y-3 text-sm">
+        {messages.length === 0 && streamedAnswer === null && (
+          <p className="text-gray-500">
+            Ask anything about this recording. Answers use only its transcript and link to the moments they come from.
+          </p>
+        )}
+        {messages.map((message, index) =>
+          message.role === 'user' ? (
+            <div key={index} className="flex justify-end">
+              <p className="bg-blue-700 text-white rounded-lg px-3 py-2 max-w-[85%] whitespace-pre-wrap">
+                {message.content}
+              </p>
+            </div>
+          ) : (
+            <div key={index} className="bg-gray-800 text-gray-200 rounded-lg px-3 py-2 max-w-[85%]">
+              <AnswerText content={message.content} passages={passages} onJumpTo={onJumpTo} />
+            </div>
+          )
+        )}
+        {streamedAnswer !== null && (
+          <div className="bg-gray-800 text-gray-200 rounded-lg px-3 py-2 max-w-[85%]">
+            {streamedAnswer ? (
+              <AnswerText content={streamedAnswer} passages={passages} onJumpTo={onJumpTo} />
+            ) : (
+              <p className="text-gray-400">Thinking...</p>
+            )}
+          </div>
+        )}
+        <div ref={messagesEndRef} />
+      </div>
+
+      {error && (
+        <div className="bg-red-900 border border-red-700 text-red-200 px-4 py-2 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Question input */}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAsk()}
+          placeholder="Ask a question about this recording"
+          disabled={isAsking}
+          className="flex-1 bg-gray-700 text-white px-3 py-2 rounded border border-gray-600 text-sm focus:outline-none focus:border-blue-500"
+        />
+        {isAsking ? (
+          <button
+            onClick={() => abortControllerRef.current?.abort()}
+            className="bg-gray-600 hover:bg-gray-700 text-white px-4 py-2 rounded text-sm font-medium transition-colors"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={handleAsk}
+            disabled={!input.trim()}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-500 text-white px-4 py-2 rounded text-sm font-medium transition-colors"
+          >
+            Ask
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
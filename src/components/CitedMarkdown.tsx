@@ -0,0 +1,81 @@
+/**
+ * Cited Markdown Component
+ *
+ * Displays a Markdown answer with its citations ([3], [S1], ...) turned
+ * into play buttons. Citations become marked spans before rendering, so
+ * they survive sanitizing, and clicks on them are handled here.
+ */
+
+import React, { useMemo } from 'react';
+import { renderMarkdown } from '../services/markdown';
+import { splitCitations } from '../services/recordingChat';
+
+// What a citation button shows
+export interface CitationLabel {
+  label: string;   // Button text
+  title: string;   // Tooltip
+}
+
+interface CitedMarkdownProps {
+  content: string;
+  prefix?: string;  // Label before each cited number (e.g., 'S')
+  describeCitation: (number: number) => CitationLabel | undefined;  // undefined if nothing was cited under that number
+  onCite: (number: number) => void;
+}
+
+const CITATION_CLASS =
+  'mx-0.5 px-1.5 rounded bg-blue-900 text-blue-200 hover:bg-blue-800 text-xs align-middle whitespace-nowrap cursor-pointer';
+
+/**
+ * Escape text for inclusion in the Markdown's inline HTML
+ */
+const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+export const CitedMarkdown: React.FC<CitedMarkdownProps> = ({ content, prefix = '', describeCitation, onCite }) => {
+  // Re-render HTML only when the answer or its sources change
+  const html = useMemo(() => {
+    const markdown = splitCitations(content, prefix)
+      .map((part) =>
+        part.type === 'text'
+          ? part.text
+          : part.passages
+              .map((number) => {
+                const citation = describeCitation(number);
+                return citation
+                  ? `<span class="${CITATION_CLASS}" role="button" tabindex="0" data-citation="${number}" ` +
+                      `title="${escapeHtml(citation.title)}">▶ ${escapeHtml(citation.label)}</span>`
+                  : `<span class="mx-0.5 text-gray-500 text-xs">[${prefix}${number}]</span>`;
+              })
+              .join('')
+      )
+      .join('');
+    return renderMarkdown(markdown);
+  }, [content, prefix, describeCitation]);
+
+  /**
+   * Play the citation that was clicked or activated with the keyboard, if any
+   */
+  const handleCitation = (e: React.SyntheticEvent) => {
+    const citation = (e.target as HTMLElement).closest<HTMLElement>('[data-citation]');
+    if (!citation) return;
+    e.preventDefault();
+    onCite(Number(citation.dataset.citation));
+  };
+
+  return (
+    <div
+      className="markdown-body"
+      onClick={handleCitation}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' || e.key === ' ') handleCitation(e);
+      }}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+};
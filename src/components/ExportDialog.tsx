@@ -0,0 +1,187 @@
+/**
+ * Export Dialog Component
+ *
+ * Modal for exporting a recording:
+ * - Choose a format (Markdown, PDF, DOCX, SRT, WebVTT)
+ * - Choose which sections to include in document formats
+ */
+
+import React, { useState } from 'react';
+import { Recording, ExportFormat, ExportOptions } from '../types';
+import { exportRecording } from '../services/exporter';
+
+interface ExportDialogProps {
+  recording: Recording;
+  onClose: () => void;
+}
+
+// Format choices shown in the dialog
+const FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'markdown', label: 'Markdown', description: '.md file for note apps and editors' },
+  { value: 'pdf', label: 'PDF', description: 'Opens the print dialog - choose "Save as PDF"' },
+  { value: 'docx', label: 'Word', description: '.docx document' },
+  { value: 'srt', label: 'SRT subtitles', description: 'Timestamped transcript for video players' },
+  { value: 'vtt', label: 'WebVTT subtitles', description: 'Timestamped transcript for the web' },
+];
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ recording, onClose }) => {
+  const hasSegments = !!recording.transcriptSegments && recording.transcriptSegments.length > 0;
+
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+  const [options, setOptions] = useState<ExportOptions>({
+    includeMetadata: true,
+    includeNotes: !!recording.notes,
+    includeTranscript: !recording.notes && !!recording.transcript,
+    includeTimestamps: false,
+  });
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isSubtitleFormat = format === 'srt' || format === 'vtt';
+
+  /**
+   * Toggle a single section option
+   */
+  const toggleOption = (key: keyof ExportOptions) => {
+    setOptions((prev) => ({ ...prev, [key]: !prev[key] }));
+    setError(null);
+  };
+
+  /**
+   * Run the export and close the dialog when done
+   */
+  const handleExport = async () => {
+    try {
+      setIsExporting(true);
+      setError(null);
+      await exportRecording(recording, format, options);
+      onClose();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to export recording';
+      setError(errorMessage);
+      console.error('Export error:', err);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center p-4 z-50">
+      <div className="bg-gray-800 rounded-lg border border-gray-700 w-full max-w-lg p-6">
+        <h3 className="text-xl font-semibold text-white mb-4">Export Recording</h3>
+
+        {/* Format picker */}
+        <div className="space-y-2 mb-6">
+          {FORMATS.map((option) => {
+            const disabled = (option.value === 'srt' || option.value === 'vtt') && !hasSegments;
+            return (
+              <label
+                key={option.value}
+                className={`flex items-start gap-3 px-3 py-2 rounded border ${
+                  format === option.value ? 'border-blue-500 bg-gray-900' : 'border-gray-700'
+                } ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+              >
+                <input
+                  type="radio"
+                  name="export-format"
+                  value={option.value}
+                  checked={format === option.value}
+                  disabled={disabled}
+                  onChange={() => {
+                    setFormat(option.value);
+                    setError(null);
+                  }}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-white text-sm font-medium">{option.label}</span>
+                  <span className="block text-gray-400 text-xs">
+                    {disabled ? 'Requires a timestamped transcript' : option.description}
+                  </span>
+                </span>
+              </label>
+            );
+          })}
+        </div>
+
+        {/* Section picker (document formats only) */}
+        {!isSubtitleFormat && (
+          <div className="mb-6">
+            <h4 className="text-sm font-medium text-gray-300 mb-2">Include</h4>
+            <div className="space-y-2 text-sm text-gray-300">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={options.includeMetadata}
+                  onChange={() => toggleOption('includeMetadata')}
+                />
+                Details (date, duration, category, tags)
+              </label>
+              <label className={`flex items-center gap-2 ${!recording.notes ? 'opacity-50' : ''}`}>
+                <input
+                  type="checkbox"
+                  checked={options.includeNotes}
+                  disabled={!recording.notes}
+                  onChange={() => toggleOption('includeNotes')}
+                />
+                Study notes
+              </label>
+              <label className={`flex items-center gap-2 ${!recording.transcript ? 'opacity-50' : ''}`}>
+                <input
+                  type="checkbox"
+                  checked={options.includeTranscript}
+                  disabled={!recording.transcript}
+                  onChange={() => toggleOption('includeTranscript')}
+                />
+                Transcript
+              </label>
+              <label className={`flex items-center gap-2 ml-6 ${
+                !options.includeTranscript || !hasSegments ? 'opacity-50' : ''
+              }`}>
+                <input
+                  type="checkbox"
+                  checked={options.includeTimestamps}
+                  disabled={!options.includeTranscript || !hasSegments}
+                  onChange={() => toggleOption('includeTimestamps')}
+                />
+                With timestamps
+              </label>
+            </div>
+          </div>
+        )}
+
+        {/* Last export */}
+        {recording.exportedAt && (
+          <p className="text-gray-500 text-xs mb-4">
+            Last exported {new Date(recording.exportedAt).toLocaleString()}
+          </p>
+        )}
+
+        {/* Error message */}
+        {error && (
+          <div className="mb-4 bg-red-900 border border-red-700 text-red-200 px-4 py-2 rounded text-sm">
+            {error}
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            disabled={isExporting}
+            className="bg-gray-600 hover:bg-gray-700 text-white px-4 py-2 rounded text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-500 text-white px-4 py-2 rounded text-sm font-medium"
+          >
+            {isExporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,227 @@
+/**
+ * Filter Bar Component
+ *
+ * Search, filter and sort controls for the recordings list:
+ * - Text search
+ * - Tags (any of), category, status, studied flag, priority
+ * - Date range
+ * - Sort field and direction
+ */
+
+import React from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { FilterOptions, SortOptions, SortField, RecordingStatus } from '../types';
+import { getAllTags, getAllCategories } from '../services/storage';
+import { toDateInputValue, fromDateInputValue, hasActiveFilters } from '../services/urlState';
+
+interface FilterBarProps {
+  filters: FilterOptions;
+  sort: SortOptions;
+  onFiltersChange: (filters: FilterOptions) => void;
+  onSortChange: (sort: SortOptions) => void;
+}
+
+const STATUS_OPTIONS: { value: RecordingStatus; label: string }[] = [
+  { value: 'recorded', label: 'Ready' },
+  { value: 'transcribing', label: 'Transcribing' },
+  { value: 'transcribed', label: 'Transcribed' },
+  { value: 'generating_notes', label: 'Generating Notes' },
+  { value: 'complete', label: 'Complete' },
+  { value: 'error', label: 'Error' },
+];
+
+const SORT_OPTIONS: { value: SortField; label: string }[] = [
+  { value: 'relevance', label: 'Relevance' },
+  { value: 'date', label: 'Date' },
+  { value: 'duration', label: 'Duration' },
+  { value: 'name', label: 'Name' },
+  { value: 'priority', label: 'Priority' },
+];
+
+// Shared input styling
+const SELECT_CLASS =
+  'bg-gray-700 text-white px-3 py-2 rounded border border-gray-600 text-sm focus:outline-none focus:border-blue-500';
+
+export const FilterBar: React.FC<FilterBarProps> = ({
+  filters,
+  sort,
+  onFiltersChange,
+  onSortChange,
+}) => {
+  // Tag and category choices update as recordings change
+  const allTags = useLiveQuery(() => getAllTags(), []) || [];
+  const allCategories = useLiveQuery(() => getAllCategories(), []) || [];
+
+  /**
+   * Update a single filter field (empty values remove the filter)
+   */
+  const updateFilter = <K extends keyof FilterOptions>(key: K, value: FilterOptions[K] | undefined) => {
+    const next = { ...filters };
+    if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    onFiltersChange(next);
+  };
+
+  /**
+   * Add or remove a tag from the tag filter
+   */
+  const toggleTag = (tag: string) => {
+    const current = filters.tags || [];
+    updateFilter(
+      'tags',
+      current.includes(tag) ? current.filter((t) => t !== tag) : [...current, tag]
+    );
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 space-y-3">
+      {/* Search and sort */}
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="search"
+          value={filters.searchQuery || ''}
+          onChange={(e) => updateFilter('searchQuery', e.target.value)}
+          placeholder="Search names, transcripts and notes..."
+          className="flex-1 min-w-[16rem] bg-gray-700 text-white px-4 py-2 rounded border border-gray-600 text-sm focus:outline-none focus:border-blue-500"
+        />
+
+        <select
+          value={sort.field}
+          onChange={(e) => onSortChange({ ...sort, field: e.target.value as SortField })}
+          className={SELECT_CLASS}
+          title="Sort by"
+        >
+          {SORT_OPTIONS
+            // Relevance only applies while searching
+            .filter((option) => option.value !== 'relevance' || filters.searchQuery?.trim())
+            .map((option) => (
+              <option key={option.value} value={option.value}>
+                Sort: {option.label}
+              </option>
+            ))}
+        </select>
+
+        {sort.field !== 'relevance' && (
+          <button
+            onClick={() =>
+              onSortChange({ ...sort, direction: sort.direction === 'asc' ? 'desc' : 'asc' })
+            }
+            className="bg-gray-700 hover:bg-gray-600 text-white px-3 py-2 rounded border border-gray-600 text-sm"
+            title={sort.direction === 'asc' ? 'Ascending' : 'Descending'}
+          >
+            {sort.direction === 'asc' ? '↑ Asc' : '↓ Desc'}
+          </button>
+        )}
+      </div>
+
+      {/* Field filters */}
+      <div className="flex flex-wrap gap-2 items-center">
+        <select
+          value={filters.category || ''}
+          onChange={(e) => updateFilter('category', e.target.value)}
+          className={SELECT_CLASS}
+        >
+          <option value="">All categories</option>
+          {allCategories.map((category) => (
+            <option key={category} value={category}>
+              {category}
+            </option>
+          ))}
+        </select>
+
+        <select
+          value={filters.status || ''}
+          onChange={(e) => updateFilter('status', (e.target.value || undefined) as RecordingStatus | undefined)}
+          className={SELECT_CLASS}
+        >
+          <option value="">Any status</option>
+          {STATUS_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+
+        <select
+          value={filters.isStudied === undefined ? '' : String(filters.isStudied)}
+          onChange={(e) =>
+            updateFilter('isStudied', e.target.value === '' ? undefined : e.target.value === 'true')
+          }
+          className={SELECT_CLASS}
+        >
+          <option value="">Studied or not</option>
+          <option value="true">Studied</option>
+          <option value="false">Not studied</option>
+        </select>
+
+        <select
+          value={filters.priority || ''}
+          onChange={(e) =>
+            updateFilter('priority', (e.target.value || undefined) as FilterOptions['priority'])
+          }
+          className={SELECT_CLASS}
+        >
+          <option value="">Any priority</option>
+          <option value="high">High</option>
+          <option value="medium">Medium</option>
+          <option value="low">Low</option>
+        </select>
+
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          From
+          <input
+            type="date"
+            value={filters.dateFrom ? toDateInputValue(filters.dateFrom) : ''}
+            onChange={(e) => updateFilter('dateFrom', fromDateInputValue(e.target.value))}
+            className={SELECT_CLASS}
+          />
+        </label>
+
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          To
+          <input
+            type="date"
+            value={filters.dateTo ? toDateInputValue(filters.dateTo) : ''}
+            onChange={(e) => updateFilter('dateTo', fromDateInputValue(e.target.value, true))}
+            className={SELECT_CLASS}
+          />
+        </label>
+
+        {hasActiveFilters(filters) && (
+          <button
+            onClick={() => onFiltersChange({})}
+            className="text-sm text-blue-400 hover:text-blue-300 px-2"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {/* Tag filter (matches any selected tag) */}
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-2 items-center">
+          <span className="text-sm text-gray-400">Tags:</span>
+          {allTags.map((tag) => {
+            const isSelected = filters.tags?.includes(tag);
+            return (
+              <button
+                key={tag}
+                onClick={() => toggleTag(tag)}
+                className={`px-3 py-1 rounded-full text-xs transition-colors ${
+                  isSelected
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                #{tag}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
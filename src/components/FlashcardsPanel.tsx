@@ -0,0 +1,188 @@
+/**
+ * Flashcards Panel Component
+ *
+ * Lists a recording's flashcards with their next review date, generates
+ * new cards with the configured notes provider, and exports the cards
+ * as Anki-compatible CSV.
+ */
+
+import React, { useState, useRef, useEffect } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Recording } from '../types';
+import { useAppContext } from '../context/AppContext';
+import { getFlashcards, addFlashcards, deleteFlashcard } from '../services/storage';
+import { getNotesProvider } from '../services/notesGeneration';
+import { generateFlashcards, buildAnkiCsv } from '../services/flashcards';
+import { createFlashcard, endOfDay } from '../services/spacedRepetition';
+import { downloadBlob } from '../services/exporter';
+
+interface FlashcardsPanelProps {
+  recording: Recording;
+}
+
+/**
+ * Format a due date relative to today
+ */
+const formatDue = (due: Date): string => {
+  if (due.getTime() <= endOfDay().getTime()) {
+    return 'Due today';
+  }
+  return `Due ${due.toLocaleDateString()}`;
+};
+
+export const FlashcardsPanel: React.FC<FlashcardsPanelProps> = ({ recording }) => {
+  const { anthropicKey, notesSettings, navigateTo } = useAppContext();
+
+  const cards = useLiveQuery(
+    () => (recording.id ? getFlashcards(recording.id) : []),
+    [recording.id]
+  );
+
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Stop generating if the panel goes away
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const dueCount = cards?.filter((card) => card.due.getTime() <= endOfDay().getTime()).length || 0;
+
+  /**
+   * Generate cards (more cards if some already exist)
+   */
+  const handleGenerate = async () => {
+    if (!recording.id) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      setIsGenerating(true);
+      setError(null);
+      setMessage(null);
+
+      // Throws if the selected provider isn't fully configured
+      const provider = getNotesProvider(notesSettings, anthropicKey);
+      const generated = await generateFlashcards(recording, provider, cards || [], controller.signal);
+
+      const id = recording.id;
+      await addFlashcards(generated.map((card) => createFlashcard(id, card.question, card.answer)));
+      setMessage(`Added ${generated.length} flashcard${generated.length === 1 ? '' : 's'}.`);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      const errorMessage = err instanceof Error ? err.message : 'Failed to generate flashcards';
+      setError(errorMessage);
+      console.error('Flashcard generation error:', err);
+    } finally {
+      abortControllerRef.current = null;
+      setIsGenerating(false);
+    }
+  };
+
+  /**
+   * Delete a card
+   */
+  const handleDelete = async (id: number) => {
+    try {
+      setError(null);
+      await deleteFlashcard(id);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete flashcard';
+      setError(errorMessage);
+      console.error('Flashcard delete error:', err);
+    }
+  };
+
+  /**
+   * Download this recording's cards as Anki CSV
+   */
+  const handleExport = () => {
+    if (!cards || cards.length === 0 || !recording.id) return;
+
+    const csv = buildAnkiCsv(cards, new Map([[recording.id, recording]]));
+    const name = (recording.customName || recording.filename).replace(/[^\w\s-]/g, '').trim() || 'flashcards';
+    downloadBlob(new Blob([csv], { type: 'text/csv' }), `${name} flashcards.csv`);
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Actions */}
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={handleGenerate}
+          disabled={isGenerating}
+          className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-700 disabled:text-gray-500 text-white px-4 py-2 rounded text-sm font-medium transition-colors"
+        >
+          {isGenerating
+            ? 'Generating...'
+            : cards && cards.length > 0
+            ? 'Generate More'
+            : 'Generate Flashcards'}
+        </button>
+        {cards && cards.length > 0 && (
+          <>
+            <button
+              onClick={() => navigateTo('review')}
+              disabled={dueCount === 0}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-500 text-white px-4 py-2 rounded text-sm font-medium transition-colors"
+            >
+              Review ({dueCount} due)
+            </button>
+            <button
+              onClick={handleExport}
+              className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded text-sm font-medium transition-colors"
+            >
+              Export to Anki (CSV)
+            </button>
+          </>
+        )}
+      </div>
+
+      {message && !error && <p className="text-green-400 text-sm">✓ {message}</p>}
+      {error && (
+        <div className="bg-red-900 border border-red-700 text-red-200 px-4 py-2 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Card list */}
+      {cards === undefined ? (
+        <p className="text-gray-400 text-sm">Loading...</p>
+      ) : cards.length === 0 ? (
+        <p className="text-gray-500 text-sm">
+          No flashcards yet. Generate them from this recording's notes and transcript.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {cards.map((card) => (
+            <li key={card.id} className="bg-gray-800 rounded px-3 py-2 text-sm">
+              <div className="flex items-start justify-between gap-2">
+                <button
+                  onClick={() => setExpandedId(expandedId === card.id ? null : card.id ?? null)}
+                  className="text-left text-gray-200 flex-1"
+                >
+                  {card.question}
+                </button>
+                <span className="text-gray-500 text-xs whitespace-nowrap">{formatDue(card.due)}</span>
+                <button
+                  onClick={() => card.id && handleDelete(card.id)}
+                  className="text-red-400 hover:text-red-300 text-xs"
+                  title="Delete card"
+                >
+                  Delete
+                </button>
+              </div>
+              {expandedId === card.id && (
+                <p className="mt-2 text-gray-400 whitespace-pre-wrap">{card.answer}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
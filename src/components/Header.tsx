@@ -1,16 +1,21 @@
 /**
  * Header Component
  *
- * Navigation bar with app title and page links (Home/Settings)
+ * Navigation bar with app title and page links (Home/Ask/Review/Settings)
  */
 
 import React from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
 import { useAppContext } from '../context/AppContext';
+import { getDueFlashcards } from '../services/storage';
 
 export const Header: React.FC = () => {
   // Get navigation state and functions from context
   const { currentPage, navigateTo } = useAppContext();
 
+  // Flashcards waiting in today's review session
+  const dueCount = useLiveQuery(async () => (await getDueFlashcards()).length, []) || 0;
+
   return (
     <header className="bg-gray-900 border-b border-gray-700">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -34,6 +39,35 @@ export const Header: React.FC = () => {
               Home
             </button>
 
+            {/* Ask Link */}
+            <button
+              onClick={() => navigateTo('ask')}
+              className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                currentPage === 'ask'
+                  ? 'bg-blue-600 text-white'
+                  : 'text-gray-300 hover:bg-gray-800 hover:text-white'
+              }`}
+            >
+              Ask
+            </button>
+
+            {/* Review Link */}
+            <button
+              onClick={() => navigateTo('review')}
+              className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                currentPage === 'review'
+                  ? 'bg-blue-600 text-white'
+                  : 'text-gray-300 hover:bg-gray-800 hover:text-white'
+              }`}
+            >
+              Review
+              {dueCount > 0 && (
+                <span className="ml-2 bg-purple-600 text-white text-xs px-2 py-0.5 rounded-full">
+                  {dueCount}
+                </span>
+              )}
+            </button>
+
             {/* Settings Link */}
             <button
               onClick={() => navigateTo('settings')}
@@ -1,11 +1,13 @@
 /**
  * Home Page Component
  *
- * Main page that displays recording controls and list of recordings
+ * Main page that displays recording controls, file import and list of
+ * recordings
  */
 
 import React from 'react';
 import { RecordingControls } from './RecordingControls';
+import { MediaImport } from './MediaImport';
 import { RecordingsList } from './RecordingsList';
 
 export const HomePage: React.FC = () => {
@@ -18,6 +20,11 @@ export const HomePage: React.FC = () => {
         <RecordingControls />
       </div>
 
+      {/* Import existing audio and video files */}
+      <div className="mb-8">
+        <MediaImport />
+      </div>
+
       {/* Recordings list */}
       <div>
         <RecordingsList />
@@ -0,0 +1,134 @@
+/**
+ * Jobs Panel Component
+ *
+ * Floating panel listing background processing jobs on every page:
+ * what each job is doing, when a rate-limited job will retry, and why a
+ * job failed. Jobs can be cancelled, retried or dismissed from here.
+ */
+
+import React, { useState, useSyncExternalStore } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { ProcessingJob } from '../types';
+import { getJobs, getRecording } from '../services/storage';
+import {
+  cancelJob,
+  retryJob,
+  describeJobStep,
+  subscribeToJobProgress,
+  getJobProgress,
+} from '../services/jobQueue';
+
+/**
+ * One-line status of a job that isn't running
+ */
+const describeWaitingJob = (job: ProcessingJob): string => {
+  if (job.status === 'failed') {
+    return `Failed: ${job.error || 'Unknown error'}`;
+  }
+  if (job.runAfter.getTime() > Date.now()) {
+    return `Retrying at ${job.runAfter.toLocaleTimeString()}${job.error ? ` (${job.error})` : ''}`;
+  }
+  return 'Queued';
+};
+
+export const JobsPanel: React.FC = () => {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Jobs with the names of their recordings
+  const jobs = useLiveQuery(async () => {
+    const allJobs = await getJobs();
+    return Promise.all(
+      allJobs.map(async (job) => {
+        const recording = await getRecording(job.recordingId);
+        return { job, name: recording ? recording.customName || recording.filename : 'Deleted recording' };
+      })
+    );
+  }, []);
+
+  const progress = useSyncExternalStore(subscribeToJobProgress, getJobProgress);
+
+  if (!jobs || jobs.length === 0) {
+    return null;
+  }
+
+  const runningCount = jobs.filter(({ job }) => job.status === 'running').length;
+  const failedCount = jobs.filter(({ job }) => job.status === 'failed').length;
+
+  /**
+   * Run a job action, showing any error in the panel
+   */
+  const handleAction = async (action: (job: ProcessingJob) => Promise<void>, job: ProcessingJob) => {
+    try {
+      setError(null);
+      await action(job);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update job';
+      setError(errorMessage);
+      console.error('Job action error:', err);
+    }
+  };
+
+  return (
+    <div className="fixed bottom-4 left-4 w-96 max-w-[calc(100vw-2rem)] bg-gray-800 border border-gray-700 rounded-lg shadow-lg z-40">
+      {/* Summary (click to expand or collapse) */}
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between px-4 py-3 text-left"
+      >
+        <span className="text-white font-medium">
+          Processing {jobs.length} recording{jobs.length === 1 ? '' : 's'}
+        </span>
+        <span className="text-gray-400 text-sm">
+          {runningCount} running
+          {failedCount > 0 && <span className="text-red-400"> · {failedCount} failed</span>}
+          <span className="ml-2">{isExpanded ? '▾' : '▸'}</span>
+        </span>
+      </button>
+
+      {isExpanded && (
+        <ul className="max-h-80 overflow-y-auto border-t border-gray-700 divide-y divide-gray-700">
+          {jobs.map(({ job, name }) => (
+            <li key={job.id} className="px-4 py-3 text-sm">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-white truncate" title={name}>{name}</p>
+                  <p className="text-gray-500 text-xs">
+                    {job.steps.map(describeJobStep).join(' → ')}
+                  </p>
+                </div>
+
+                <div className="flex gap-2 flex-shrink-0">
+                  {(job.status === 'failed' || (job.status === 'queued' && job.error)) && (
+                    <button
+                      onClick={() => handleAction(retryJob, job)}
+                      className="text-blue-400 hover:text-blue-300"
+                    >
+                      {job.status === 'failed' ? 'Retry' : 'Retry now'}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleAction(cancelJob, job)}
+                    className="text-gray-400 hover:text-gray-300"
+                  >
+                    {job.status === 'failed' ? 'Dismiss' : 'Cancel'}
+                  </button>
+                </div>
+              </div>
+
+              <p className={`mt-1 text-xs ${job.status === 'failed' ? 'text-red-400' : 'text-gray-400'}`}>
+                {job.status === 'running'
+                  ? progress.get(job.recordingId)?.message || 'Starting...'
+                  : describeWaitingJob(job)}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <p className="px-4 pb-3 text-red-400 text-sm">{error}</p>
+      )}
+    </div>
+  );
+};
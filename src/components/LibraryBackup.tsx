@@ -0,0 +1,184 @@
+/**
+ * Library Backup Component
+ *
+ * Settings section for backing up the whole library to a single archive
+ * and restoring it (merge into or replace the current library).
+ */
+
+import React, { useState } from 'react';
+import { RestoreMode } from '../types';
+import { createBackup, restoreBackup } from '../services/backup';
+import { downloadBlob } from '../services/exporter';
+
+export const LibraryBackup: React.FC = () => {
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [restoreFile, setRestoreFile] = useState<File | null>(null);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [showReplaceConfirm, setShowReplaceConfirm] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Create a backup archive and download it
+   */
+  const handleBackup = async () => {
+    try {
+      setIsBackingUp(true);
+      setError(null);
+      setMessage(null);
+
+      const archive = await createBackup();
+      const date = new Date().toISOString().slice(0, 10);
+      downloadBlob(archive, `dozey-library-${date}.zip`);
+
+      setMessage('Backup created. Keep the downloaded file somewhere safe.');
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create backup';
+      setError(errorMessage);
+      console.error('Backup error:', err);
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  /**
+   * Restore the selected archive
+   * Replace mode asks for confirmation first since it deletes the library
+   */
+  const handleRestore = async () => {
+    if (!restoreFile) return;
+
+    if (restoreMode === 'replace' && !showReplaceConfirm) {
+      setShowReplaceConfirm(true);
+      return;
+    }
+
+    try {
+      setIsRestoring(true);
+      setShowReplaceConfirm(false);
+      setError(null);
+      setMessage(null);
+
+      const result = await restoreBackup(restoreFile, restoreMode);
+
+      setMessage(
+        `Restored ${result.imported} recording${result.imported === 1 ? '' : 's'}` +
+        (result.skippedDuplicates > 0
+          ? `, skipped ${result.skippedDuplicates} already in your library.`
+          : '.')
+      );
+      setRestoreFile(null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to restore backup';
+      setError(errorMessage);
+      console.error('Restore error:', err);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 space-y-6 mt-8">
+      <div>
+        <h3 className="text-xl font-semibold text-white mb-4">Library Backup</h3>
+        <p className="text-gray-400 text-sm">
+          Recordings are stored only in this browser. Back up your library, including audio
+          and notes history, to a single file you can restore here or on another computer.
+        </p>
+      </div>
+
+      {/* Status messages */}
+      {message && (
+        <div className="bg-green-900 border border-green-700 text-green-200 px-4 py-3 rounded text-sm">
+          {message}
+        </div>
+      )}
+      {error && (
+        <div className="bg-red-900 border border-red-700 text-red-200 px-4 py-3 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Backup */}
+      <div>
+        <button
+          onClick={handleBackup}
+          disabled={isBackingUp || isRestoring}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-500 text-white px-6 py-2 rounded font-medium transition-colors"
+        >
+          {isBackingUp ? 'Creating backup...' : 'Backup library'}
+        </button>
+      </div>
+
+      {/* Restore */}
+      <div className="border-t border-gray-700 pt-6">
+        <label htmlFor="restore-file" className="block text-sm font-medium text-gray-300 mb-2">
+          Restore from backup
+        </label>
+        <input
+          id="restore-file"
+          type="file"
+          accept=".zip,application/zip"
+          onChange={(e) => {
+            setRestoreFile(e.target.files?.[0] || null);
+            setShowReplaceConfirm(false);
+            setError(null);
+            setMessage(null);
+          }}
+          className="block w-full text-sm text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded file:border-0 file:bg-gray-700 file:text-white hover:file:bg-gray-600"
+        />
+
+        <div className="flex flex-col gap-2 mt-4 text-sm text-gray-300">
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="restore-mode"
+              checked={restoreMode === 'merge'}
+              onChange={() => {
+                setRestoreMode('merge');
+                setShowReplaceConfirm(false);
+              }}
+            />
+            Merge - add recordings from the backup, skipping ones already in your library
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="restore-mode"
+              checked={restoreMode === 'replace'}
+              onChange={() => setRestoreMode('replace')}
+            />
+            Replace - delete the current library and restore the backup
+          </label>
+        </div>
+
+        {showReplaceConfirm && (
+          <div className="mt-4 bg-red-900 border border-red-700 text-red-200 px-4 py-3 rounded text-sm">
+            This permanently deletes every recording currently in this browser. Continue?
+          </div>
+        )}
+
+        <div className="flex gap-2 mt-4">
+          <button
+            onClick={handleRestore}
+            disabled={!restoreFile || isRestoring || isBackingUp}
+            className={`px-6 py-2 rounded font-medium transition-colors disabled:bg-gray-700 disabled:text-gray-500 text-white ${
+              showReplaceConfirm ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            {isRestoring ? 'Restoring...' : showReplaceConfirm ? 'Confirm replace' : 'Restore'}
+          </button>
+          {showReplaceConfirm && (
+            <button
+              onClick={() => setShowReplaceConfirm(false)}
+              className="bg-gray-600 hover:bg-gray-700 text-white px-6 py-2 rounded font-medium"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
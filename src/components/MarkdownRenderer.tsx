@@ -0,0 +1,27 @@
+/**
+ * Markdown Renderer Component
+ *
+ * Displays Markdown (e.g., generated study notes) as formatted HTML.
+ * Output is sanitized by the markdown service before rendering.
+ */
+
+import React, { useMemo } from 'react';
+import { renderMarkdown } from '../services/markdown';
+import 'katex/dist/katex.min.css';
+
+interface MarkdownRendererProps {
+  content: string;
+  className?: string;
+}
+
+export const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content, className = '' }) => {
+  // Re-render HTML only when the Markdown source changes
+  const html = useMemo(() => renderMarkdown(content), [content]);
+
+  return (
+    <div
+      className={`markdown-body ${className}`}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+};
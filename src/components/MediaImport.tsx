@@ -0,0 +1,140 @@
+/**
+ * Media Import Component
+ *
+ * Drop zone and file picker for importing existing audio and video files.
+ * Each file becomes a recording and, like a live recording, is queued
+ * for transcription when a transcription provider is set up.
+ */
+
+import React, { useRef, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { importMediaFile, IMPORT_ACCEPT, MAX_CONVERT_MB } from '../services/mediaImport';
+import { getTranscriptionProvider } from '../services/transcription';
+import { enqueueJob } from '../services/jobQueue';
+
+// Progress of one imported file
+interface ImportItem {
+  key: string;
+  name: string;
+  state: 'waiting' | 'importing' | 'done' | 'failed';
+  message?: string;
+}
+
+export const MediaImport: React.FC = () => {
+  const { openaiKey, transcriptionSettings } = useAppContext();
+
+  const [items, setItems] = useState<ImportItem[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateItem = (key: string, updates: Partial<ImportItem>) => {
+    setItems((prev) => prev.map((item) => (item.key === key ? { ...item, ...updates } : item)));
+  };
+
+  /**
+   * Import files one at a time (decoding video takes a lot of memory)
+   */
+  const handleFiles = async (files: File[]) => {
+    if (files.length === 0 || isImporting) return;
+
+    const batch = files.map((file, index): { file: File; item: ImportItem } => ({
+      file,
+      item: { key: `${Date.now()}-${index}`, name: file.name, state: 'waiting' },
+    }));
+    setItems(batch.map(({ item }) => item));
+    setIsImporting(true);
+
+    for (const { file, item } of batch) {
+      try {
+        updateItem(item.key, { state: 'importing' });
+        const recordingId = await importMediaFile(file);
+
+        // Transcribe right away if possible (throws if not configured)
+        let message = 'Queued for transcription';
+        try {
+          getTranscriptionProvider(transcriptionSettings, openaiKey);
+          await enqueueJob(recordingId, ['transcribe']);
+        } catch (err) {
+          message = 'Imported. Set up transcription in Settings, then click Transcribe.';
+          console.error('Import transcription error:', err);
+        }
+        updateItem(item.key, { state: 'done', message });
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to import file';
+        updateItem(item.key, { state: 'failed', message: errorMessage });
+        console.error('Import error:', err);
+      }
+    }
+
+    setIsImporting(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFiles(Array.from(e.dataTransfer.files));
+  };
+
+  return (
+    <div>
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
+          isDragging ? 'border-blue-500 bg-gray-700' : 'border-gray-600'
+        }`}
+      >
+        <p className="text-gray-300">
+          Drop audio or video files here to import them
+          <span className="block text-sm text-gray-500 mt-1">MP3, M4A, WAV, FLAC, WebM, Ogg, AAC, MP4 and MOV</span>
+          <span className="block text-sm text-gray-500">
+            Video and AAC files are converted to WAV in the browser (up to {MAX_CONVERT_MB} MB per file; about
+            115 MB of audio per hour). For larger lecture captures, import the audio track as MP3 or M4A.
+          </span>
+        </p>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isImporting}
+          className="mt-4 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-500 text-white px-4 py-2 rounded text-sm font-medium transition-colors"
+        >
+          {isImporting ? 'Importing...' : 'Choose Files'}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={IMPORT_ACCEPT}
+          multiple
+          onChange={(e) => {
+            handleFiles(Array.from(e.target.files || []));
+            e.target.value = '';
+          }}
+          className="hidden"
+        />
+      </div>
+
+      {/* Per-file progress */}
+      {items.length > 0 && (
+        <ul className="mt-4 space-y-1 text-sm">
+          {items.map((item) => (
+            <li key={item.key} className="flex justify-between gap-4">
+              <span className="text-white truncate">{item.name}</span>
+              <span
+                className={
+                  item.state === 'failed' ? 'text-red-400' : item.state === 'done' ? 'text-green-400' : 'text-gray-400'
+                }
+              >
+                {item.state === 'waiting' ? 'Waiting...' : item.state === 'importing' ? 'Importing...' : item.message}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,267 @@
+/**
+ * Notes Panel Component
+ *
+ * Shows a recording's study notes with three modes:
+ * - View: rendered Markdown
+ * - Edit: Markdown editor with live preview
+ * - History: saved revisions with diff against current notes and restore
+ */
+
+import React, { useState, useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Recording, NoteRevision, NoteRevisionSource } from '../types';
+import { saveNotes, getNoteRevisions } from '../services/storage';
+import { diffLines } from '../services/textDiff';
+import { MarkdownRenderer } from './MarkdownRenderer';
+
+interface NotesPanelProps {
+  recording: Recording;
+}
+
+type NotesMode = 'view' | 'edit' | 'history';
+
+// Labels and badge colors for each revision source
+const SOURCE_LABELS: Record<NoteRevisionSource, string> = {
+  ai: 'AI-generated',
+  user: 'Edited',
+  restore: 'Restored',
+};
+
+const SOURCE_COLORS: Record<NoteRevisionSource, string> = {
+  ai: 'bg-purple-900 text-purple-200',
+  user: 'bg-blue-900 text-blue-200',
+  restore: 'bg-gray-700 text-gray-200',
+};
+
+export const NotesPanel: React.FC<NotesPanelProps> = ({ recording }) => {
+  const notes = recording.notes || '';
+
+  const [mode, setMode] = useState<NotesMode>('view');
+  const [draft, setDraft] = useState(notes);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedRevisionId, setSelectedRevisionId] = useState<number | null>(null);
+
+  /**
+   * Revisions are loaded only while the history view is open
+   * useLiveQuery keeps the list current after saves and restores
+   */
+  const revisions = useLiveQuery(
+    () => (mode === 'history' && recording.id ? getNoteRevisions(recording.id) : []),
+    [mode, recording.id]
+  );
+
+  const selectedRevision = revisions?.find((revision) => revision.id === selectedRevisionId);
+
+  // Diff from the selected revision to the current notes
+  const diff = useMemo(
+    () => (selectedRevision ? diffLines(selectedRevision.notes, notes) : []),
+    [selectedRevision, notes]
+  );
+
+  /**
+   * Enter edit mode with the current notes as the draft
+   */
+  const handleEdit = () => {
+    setDraft(notes);
+    setError(null);
+    setMode('edit');
+  };
+
+  /**
+   * Save the draft as a new user revision
+   */
+  const handleSave = async () => {
+    if (!recording.id) return;
+
+    // Nothing changed - just leave edit mode
+    if (draft === notes) {
+      setMode('view');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      await saveNotes(recording.id, draft, 'user');
+      setMode('view');
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save notes';
+      setError(errorMessage);
+      console.error('Save notes error:', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * Restore an earlier revision (stored as a new revision so it can be undone)
+   */
+  const handleRestore = async (revision: NoteRevision) => {
+    if (!recording.id) return;
+
+    try {
+      setError(null);
+      await saveNotes(recording.id, revision.notes, 'restore');
+      setSelectedRevisionId(null);
+      setMode('view');
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to restore notes';
+      setError(errorMessage);
+      console.error('Restore notes error:', err);
+    }
+  };
+
+  return (
+    <div>
+      {/* Mode toolbar */}
+      <div className="flex justify-end gap-2 mb-3">
+        {mode === 'view' ? (
+          <>
+            <button
+              onClick={handleEdit}
+              className="bg-gray-700 hover:bg-gray-600 text-white px-3 py-1 rounded text-sm"
+            >
+              Edit
+            </button>
+            <button
+              onClick={() => setMode('history')}
+              className="bg-gray-700 hover:bg-gray-600 text-white px-3 py-1 rounded text-sm"
+            >
+              History
+            </button>
+          </>
+        ) : mode === 'edit' ? (
+          <>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-500 text-white px-3 py-1 rounded text-sm"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              onClick={() => setMode('view')}
+              disabled={isSaving}
+              className="bg-gray-600 hover:bg-gray-700 text-white px-3 py-1 rounded text-sm"
+            >
+              Cancel
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={() => {
+              setSelectedRevisionId(null);
+              setMode('view');
+            }}
+            className="bg-gray-600 hover:bg-gray-700 text-white px-3 py-1 rounded text-sm"
+          >
+            Close History
+          </button>
+        )}
+      </div>
+
+      {/* Error message */}
+      {error && (
+        <div className="mb-3 bg-red-900 border border-red-700 text-red-200 px-4 py-2 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* View mode */}
+      {mode === 'view' && <MarkdownRenderer content={notes} />}
+
+      {/* Edit mode: editor and live preview side by side */}
+      {mode === 'edit' && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className="w-full min-h-[24rem] bg-gray-800 text-gray-200 font-mono text-sm p-3 rounded border border-gray-600 focus:outline-none focus:border-blue-500"
+            spellCheck
+            autoFocus
+          />
+          <div className="min-h-[24rem] max-h-[36rem] overflow-y-auto bg-gray-800 rounded p-3 border border-gray-700">
+            <MarkdownRenderer content={draft} />
+          </div>
+        </div>
+      )}
+
+      {/* History mode */}
+      {mode === 'history' && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          {/* Revision list */}
+          <ul className="space-y-2">
+            {revisions === undefined ? (
+              <li className="text-gray-400 text-sm">Loading history...</li>
+            ) : revisions.length === 0 ? (
+              <li className="text-gray-400 text-sm">No saved revisions yet.</li>
+            ) : (
+              revisions.map((revision, index) => (
+                <li key={revision.id}>
+                  <button
+                    onClick={() => setSelectedRevisionId(revision.id ?? null)}
+                    className={`w-full text-left px-3 py-2 rounded border text-sm transition-colors ${
+                      revision.id === selectedRevisionId
+                        ? 'border-blue-500 bg-gray-800'
+                        : 'border-gray-700 hover:bg-gray-800'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${SOURCE_COLORS[revision.source]}`}>
+                        {SOURCE_LABELS[revision.source]}
+                      </span>
+                      {index === 0 && <span className="text-xs text-gray-500">Current</span>}
+                    </div>
+                    <div className="text-gray-400 mt-1">
+                      {new Date(revision.createdAt).toLocaleString()}
+                    </div>
+                  </button>
+                </li>
+              ))
+            )}
+          </ul>
+
+          {/* Diff of the selected revision against the current notes */}
+          <div className="lg:col-span-2">
+            {selectedRevision ? (
+              <>
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-gray-400 text-sm">
+                    Changes from this revision to the current notes
+                  </span>
+                  <button
+                    onClick={() => handleRestore(selectedRevision)}
+                    disabled={selectedRevision.notes === notes}
+                    className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-700 disabled:text-gray-500 text-white px-3 py-1 rounded text-sm"
+                  >
+                    Restore this version
+                  </button>
+                </div>
+                <pre className="max-h-[32rem] overflow-auto bg-gray-950 rounded border border-gray-700 p-3 text-xs font-mono">
+                  {diff.map((line, index) => (
+                    <div
+                      key={index}
+                      className={
+                        line.type === 'added'
+                          ? 'bg-green-950 text-green-300'
+                          : line.type === 'removed'
+                          ? 'bg-red-950 text-red-300'
+                          : 'text-gray-400'
+                      }
+                    >
+                      {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                      {line.text}
+                    </div>
+                  ))}
+                </pre>
+              </>
+            ) : (
+              <p className="text-gray-400 text-sm">Select a revision to compare it with the current notes.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
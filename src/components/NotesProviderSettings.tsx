@@ -0,0 +1,248 @@
+/**
+ * Notes Provider Settings Component
+ *
+ * Settings section for choosing the language model that writes study notes:
+ * Anthropic Claude, an OpenAI-compatible server (e.g., local Ollama),
+ * or the fake provider. Model, temperature, token limit and context
+ * window are kept separately for each provider.
+ */
+
+import React, { useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { NotesModelSettings, NotesProviderId, NotesSettings } from '../types';
+import { NOTES_PROVIDER_OPTIONS } from '../services/notesGeneration';
+
+// Shared input styling
+const INPUT_CLASS =
+  'w-full bg-gray-700 text-white px-4 py-2 rounded border border-gray-600 focus:outline-none focus:border-blue-500';
+
+export const NotesProviderSettings: React.FC = () => {
+  const { notesSettings, setNotesSettings } = useAppContext();
+
+  // Edited copy of the settings, saved explicitly
+  const [draft, setDraft] = useState<NotesSettings>(notesSettings);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const selectedOption = NOTES_PROVIDER_OPTIONS.find((option) => option.id === draft.provider);
+  const modelSettings = draft.models[draft.provider];
+
+  /**
+   * Update a connection field of the draft
+   */
+  const updateDraft = <K extends keyof NotesSettings>(key: K, value: NotesSettings[K]) => {
+    setDraft({ ...draft, [key]: value });
+    setError(null);
+    setMessage(null);
+  };
+
+  /**
+   * Update a model setting of the selected provider
+   */
+  const updateModel = <K extends keyof NotesModelSettings>(key: K, value: NotesModelSettings[K]) => {
+    updateDraft('models', {
+      ...draft.models,
+      [draft.provider]: { ...modelSettings, [key]: value },
+    });
+  };
+
+  /**
+   * Validate and save the settings
+   */
+  const handleSave = () => {
+    if (draft.provider === 'openai-compatible') {
+      if (!draft.baseUrl.trim()) {
+        setError('Server URL cannot be empty');
+        return;
+      }
+      try {
+        new URL(draft.baseUrl.trim());
+      } catch {
+        setError('Server URL must be a full URL, e.g. http://localhost:11434/v1');
+        return;
+      }
+    }
+
+    if (draft.provider !== 'fake') {
+      if (!modelSettings.model.trim()) {
+        setError('Model cannot be empty');
+        return;
+      }
+      if (!(modelSettings.temperature >= 0 && modelSettings.temperature <= 2)) {
+        setError('Temperature must be between 0 and 2');
+        return;
+      }
+      if (!(Number.isInteger(modelSettings.maxTokens) && modelSettings.maxTokens > 0)) {
+        setError('Max tokens must be a positive whole number');
+        return;
+      }
+      if (!(Number.isInteger(modelSettings.contextTokens) && modelSettings.contextTokens > modelSettings.maxTokens)) {
+        setError('Context window must be a whole number larger than max tokens');
+        return;
+      }
+    }
+
+    setNotesSettings({
+      ...draft,
+      baseUrl: draft.baseUrl.trim(),
+      apiKey: draft.apiKey.trim(),
+      models: {
+        ...draft.models,
+        [draft.provider]: { ...modelSettings, model: modelSettings.model.trim() },
+      },
+    });
+    setMessage('Notes settings saved');
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 space-y-6 mt-8">
+      <div>
+        <h3 className="text-xl font-semibold text-white mb-2">Note Generation</h3>
+        <p className="text-gray-400 text-sm">
+          Choose which language model turns transcripts into study notes.
+        </p>
+      </div>
+
+      {/* Provider */}
+      <div>
+        <label htmlFor="notes-provider" className="block text-sm font-medium text-gray-300 mb-2">
+          Provider
+        </label>
+        <select
+          id="notes-provider"
+          value={draft.provider}
+          onChange={(e) => updateDraft('provider', e.target.value as NotesProviderId)}
+          className={INPUT_CLASS}
+        >
+          {NOTES_PROVIDER_OPTIONS.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {selectedOption && (
+          <p className="text-gray-500 text-xs mt-2">{selectedOption.description}</p>
+        )}
+      </div>
+
+      {/* Server connection (compatible servers only) */}
+      {draft.provider === 'openai-compatible' && (
+        <>
+          <div>
+            <label htmlFor="notes-url" className="block text-sm font-medium text-gray-300 mb-2">
+              Server URL
+            </label>
+            <p className="text-gray-500 text-xs mb-2">
+              Base URL of the API, including the version path. For Ollama, start it with
+              OLLAMA_ORIGINS set so it accepts requests from this site.
+            </p>
+            <input
+              id="notes-url"
+              type="url"
+              value={draft.baseUrl}
+              onChange={(e) => updateDraft('baseUrl', e.target.value)}
+              placeholder="http://localhost:11434/v1"
+              className={INPUT_CLASS}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="notes-key" className="block text-sm font-medium text-gray-300 mb-2">
+              API Key (optional)
+            </label>
+            <input
+              id="notes-key"
+              type="password"
+              value={draft.apiKey}
+              onChange={(e) => updateDraft('apiKey', e.target.value)}
+              placeholder="Leave empty if the server doesn't require one"
+              className={INPUT_CLASS}
+            />
+          </div>
+        </>
+      )}
+
+      {/* Model parameters (not used by the fake provider) */}
+      {draft.provider !== 'fake' && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="notes-model" className="block text-sm font-medium text-gray-300 mb-2">
+              Model
+            </label>
+            <input
+              id="notes-model"
+              type="text"
+              value={modelSettings.model}
+              onChange={(e) => updateModel('model', e.target.value)}
+              placeholder={draft.provider === 'anthropic' ? 'claude-sonnet-4-5-20250929' : 'e.g., llama3.1:8b'}
+              className={INPUT_CLASS}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="notes-temperature" className="block text-sm font-medium text-gray-300 mb-2">
+              Temperature
+            </label>
+            <input
+              id="notes-temperature"
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              value={modelSettings.temperature}
+              onChange={(e) => updateModel('temperature', e.target.valueAsNumber)}
+              className={INPUT_CLASS}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="notes-max-tokens" className="block text-sm font-medium text-gray-300 mb-2">
+              Max Tokens
+            </label>
+            <input
+              id="notes-max-tokens"
+              type="number"
+              min={1}
+              step={256}
+              value={modelSettings.maxTokens}
+              onChange={(e) => updateModel('maxTokens', e.target.valueAsNumber)}
+              className={INPUT_CLASS}
+            />
+            <p className="text-gray-500 text-xs mt-1">
+              Output limit per request. Longer notes are continued automatically.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="notes-context" className="block text-sm font-medium text-gray-300 mb-2">
+              Context Window
+            </label>
+            <input
+              id="notes-context"
+              type="number"
+              min={1024}
+              step={1024}
+              value={modelSettings.contextTokens}
+              onChange={(e) => updateModel('contextTokens', e.target.valueAsNumber)}
+              className={INPUT_CLASS}
+            />
+            <p className="text-gray-500 text-xs mt-1">
+              Tokens the model accepts. Longer transcripts are summarized in parts and merged.
+            </p>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-4">
+        <button
+          onClick={handleSave}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded font-medium transition-colors"
+        >
+          Save
+        </button>
+        {error && <p className="text-red-400 text-sm">{error}</p>}
+        {message && !error && <p className="text-green-400 text-sm">✓ {message}</p>}
+      </div>
+    </div>
+  );
+};
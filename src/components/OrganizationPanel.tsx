@@ -0,0 +1,302 @@
+/**
+ * Organization Panel Component
+ *
+ * Edits a recording's organization fields:
+ * - Tags (with autocomplete from existing tags)
+ * - Category (pick an existing one or type a new one)
+ * - Subject
+ * - Priority
+ * - Studied flag
+ * - Notes template (or the category's default)
+ *
+ * Changes are saved as soon as they are made.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Recording } from '../types';
+import { updateRecording, getAllTags, getAllCategories, getCategoryTemplates } from '../services/storage';
+import { DEFAULT_TEMPLATE, getAllTemplates } from '../services/noteTemplates';
+
+interface OrganizationPanelProps {
+  recording: Recording;
+}
+
+const PRIORITY_OPTIONS: { value: NonNullable<Recording['priority']>; label: string }[] = [
+  { value: 'high', label: 'High' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'low', label: 'Low' },
+];
+
+// Most suggestions shown under the tag input
+const MAX_TAG_SUGGESTIONS = 8;
+
+// Shared input styling
+const INPUT_CLASS =
+  'w-full bg-gray-700 text-white px-3 py-2 rounded border border-gray-600 text-sm focus:outline-none focus:border-blue-500';
+
+export const OrganizationPanel: React.FC<OrganizationPanelProps> = ({ recording }) => {
+  const tags = recording.tags || [];
+
+  const [tagInput, setTagInput] = useState('');
+  const [category, setCategory] = useState(recording.category || '');
+  const [subject, setSubject] = useState(recording.subject || '');
+  const [error, setError] = useState<string | null>(null);
+
+  // Existing tags and categories across the library
+  const allTags = useLiveQuery(() => getAllTags(), []) || [];
+  const allCategories = useLiveQuery(() => getAllCategories(), []) || [];
+
+  // Templates the notes can be written with
+  const allTemplates = useLiveQuery(() => getAllTemplates(), []) || [];
+  const categoryTemplates = useLiveQuery(() => getCategoryTemplates(), []);
+  const categoryTemplateId = recording.category && categoryTemplates?.get(recording.category);
+  const inheritedTemplate =
+    allTemplates.find((template) => template.id === categoryTemplateId) || DEFAULT_TEMPLATE;
+
+  // Keep text fields in sync when the recording changes elsewhere
+  useEffect(() => {
+    setCategory(recording.category || '');
+  }, [recording.category]);
+
+  useEffect(() => {
+    setSubject(recording.subject || '');
+  }, [recording.subject]);
+
+  // Existing tags matching the input that aren't on this recording yet
+  const query = tagInput.trim().toLowerCase();
+  const tagSuggestions = query
+    ? allTags
+        .filter((tag) => !tags.includes(tag) && tag.toLowerCase().includes(query))
+        .slice(0, MAX_TAG_SUGGESTIONS)
+    : [];
+
+  /**
+   * Save organization fields to the database
+   */
+  const save = async (updates: Partial<Recording>) => {
+    if (!recording.id) return;
+
+    try {
+      setError(null);
+      await updateRecording(recording.id, updates);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save changes';
+      setError(errorMessage);
+      console.error('Save organization error:', err);
+    }
+  };
+
+  /**
+   * Add a tag (reusing the existing spelling if the tag is already known)
+   */
+  const addTag = (value: string) => {
+    const trimmed = value.trim();
+    setTagInput('');
+    if (!trimmed) return;
+
+    const existing = allTags.find((tag) => tag.toLowerCase() === trimmed.toLowerCase());
+    const tag = existing || trimmed;
+    if (!tags.includes(tag)) {
+      save({ tags: [...tags, tag] });
+    }
+  };
+
+  /**
+   * Remove a tag from this recording
+   */
+  const removeTag = (tag: string) => {
+    save({ tags: tags.filter((t) => t !== tag) });
+  };
+
+  /**
+   * Handle Enter/comma to add and Backspace on empty input to remove the last tag
+   */
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(tagInput);
+    } else if (e.key === 'Backspace' && !tagInput && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    }
+  };
+
+  /**
+   * Save a text field if it changed (empty clears it)
+   */
+  const saveTextField = (field: 'category' | 'subject', value: string) => {
+    const trimmed = value.trim();
+    if (trimmed === (recording[field] || '')) return;
+    save({ [field]: trimmed || undefined });
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Error message */}
+      {error && (
+        <div className="bg-red-900 border border-red-700 text-red-200 px-4 py-2 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Tags */}
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">Tags</label>
+        <div className="flex flex-wrap gap-2 mb-2">
+          {tags.map((tag) => (
+            <span
+              key={tag}
+              className="flex items-center gap-1 bg-blue-900 text-blue-200 px-3 py-1 rounded-full text-xs"
+            >
+              #{tag}
+              <button
+                onClick={() => removeTag(tag)}
+                className="hover:text-white"
+                title={`Remove ${tag}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+        <input
+          type="text"
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          onKeyDown={handleTagKeyDown}
+          onBlur={() => addTag(tagInput)}
+          placeholder="Add a tag and press Enter"
+          className={INPUT_CLASS}
+        />
+        {tagSuggestions.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {tagSuggestions.map((tag) => (
+              <button
+                key={tag}
+                // mousedown fires before the input's blur, so the suggestion wins
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  addTag(tag);
+                }}
+                className="bg-gray-700 hover:bg-gray-600 text-gray-300 px-3 py-1 rounded-full text-xs"
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {/* Category */}
+        <div>
+          <label
+            htmlFor={`category-${recording.id}`}
+            className="block text-sm font-medium text-gray-300 mb-2"
+          >
+            Category
+          </label>
+          <input
+            id={`category-${recording.id}`}
+            type="text"
+            list={`categories-${recording.id}`}
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            onBlur={() => saveTextField('category', category)}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            placeholder="e.g., Physics"
+            className={INPUT_CLASS}
+          />
+          <datalist id={`categories-${recording.id}`}>
+            {allCategories.map((option) => (
+              <option key={option} value={option} />
+            ))}
+          </datalist>
+        </div>
+
+        {/* Subject */}
+        <div>
+          <label
+            htmlFor={`subject-${recording.id}`}
+            className="block text-sm font-medium text-gray-300 mb-2"
+          >
+            Subject
+          </label>
+          <input
+            id={`subject-${recording.id}`}
+            type="text"
+            value={subject}
+            onChange={(e) => setSubject(e.target.value)}
+            onBlur={() => saveTextField('subject', subject)}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            placeholder="e.g., Thermodynamics, lecture 4"
+            className={INPUT_CLASS}
+          />
+        </div>
+
+        {/* Priority */}
+        <div>
+          <label
+            htmlFor={`priority-${recording.id}`}
+            className="block text-sm font-medium text-gray-300 mb-2"
+          >
+            Priority
+          </label>
+          <select
+            id={`priority-${recording.id}`}
+            value={recording.priority || ''}
+            onChange={(e) =>
+              save({ priority: (e.target.value || undefined) as Recording['priority'] })
+            }
+            className={INPUT_CLASS}
+          >
+            <option value="">None</option>
+            {PRIORITY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Notes template */}
+        <div>
+          <label
+            htmlFor={`template-${recording.id}`}
+            className="block text-sm font-medium text-gray-300 mb-2"
+          >
+            Notes Template
+          </label>
+          <select
+            id={`template-${recording.id}`}
+            value={recording.templateId || ''}
+            onChange={(e) => save({ templateId: e.target.value || undefined })}
+            className={INPUT_CLASS}
+          >
+            <option value="">
+              {recording.category ? 'Category default' : 'App default'} ({inheritedTemplate.name})
+            </option>
+            {allTemplates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Studied */}
+        <div className="flex items-end">
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer py-2">
+            <input
+              type="checkbox"
+              checked={!!recording.isStudied}
+              onChange={(e) => save({ isStudied: e.target.checked })}
+              className="w-4 h-4 accent-green-500"
+            />
+            Studied
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
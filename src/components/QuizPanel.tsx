@@ -0,0 +1,290 @@
+/**
+ * Quiz Panel Component
+ *
+ * "Quiz me" mode for a recording: generates practice questions from the
+ * transcript, lets the user answer them, grades the attempt and explains
+ * wrong answers with a link to the supporting moment in the audio.
+ * Past scores are listed so progress can be followed over time.
+ */
+
+import React, { useState, useRef, useEffect } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { QuizAnswer, Recording } from '../types';
+import { useAppContext } from '../context/AppContext';
+import { saveQuiz, getLatestQuiz, saveQuizAttempt, getQuizAttempts } from '../services/storage';
+import { getNotesProvider } from '../services/notesGeneration';
+import { generateQuiz, gradeQuiz } from '../services/quizzes';
+import { formatTimestamp } from '../services/formatters';
+
+interface QuizPanelProps {
+  recording: Recording;
+  onJumpTo: (time: number) => void;  // Seek the audio player to a time (seconds)
+}
+
+/**
+ * Format a 0-1 score as a percentage
+ */
+const formatScore = (score: number): string => `${Math.round(score * 100)}%`;
+
+export const QuizPanel: React.FC<QuizPanelProps> = ({ recording, onJumpTo }) => {
+  const { anthropicKey, notesSettings } = useAppContext();
+
+  const quiz = useLiveQuery(
+    () => (recording.id ? getLatestQuiz(recording.id) : undefined),
+    [recording.id]
+  );
+  const attempts = useLiveQuery(
+    () => (recording.id ? getQuizAttempts(recording.id) : []),
+    [recording.id]
+  );
+
+  // Answers being entered, and the graded result once submitted
+  const [responses, setResponses] = useState<string[] | null>(null);
+  const [result, setResult] = useState<{ answers: QuizAnswer[]; score: number } | null>(null);
+  const [isWorking, setIsWorking] = useState<'generating' | 'grading' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Stop any request if the panel goes away
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  /**
+   * Run a model request with shared busy/error handling
+   */
+  const runRequest = async (stage: 'generating' | 'grading', request: (signal: AbortSignal) => Promise<void>) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      setIsWorking(stage);
+      setError(null);
+      await request(controller.signal);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      const fallback = stage === 'generating' ? 'Failed to generate quiz' : 'Failed to grade quiz';
+      const errorMessage = err instanceof Error ? err.message : fallback;
+      setError(errorMessage);
+      console.error('Quiz error:', err);
+    } finally {
+      abortControllerRef.current = null;
+      setIsWorking(null);
+    }
+  };
+
+  /**
+   * Generate a new quiz and start it
+   */
+  const handleGenerate = () =>
+    runRequest('generating', async (signal) => {
+      if (!recording.id) return;
+
+      // Throws if the selected provider isn't fully configured
+      const provider = getNotesProvider(notesSettings, anthropicKey);
+      const questions = await generateQuiz(recording, provider, signal);
+      await saveQuiz({ recordingId: recording.id, questions, createdAt: new Date() });
+
+      setResult(null);
+      setResponses(questions.map(() => ''));
+    });
+
+  /**
+   * Start the latest quiz again
+   */
+  const handleRetake = () => {
+    if (!quiz) return;
+    setResult(null);
+    setError(null);
+    setResponses(quiz.questions.map(() => ''));
+  };
+
+  /**
+   * Grade the answers and store the attempt
+   */
+  const handleSubmit = () =>
+    runRequest('grading', async (signal) => {
+      if (!quiz?.id || !responses) return;
+
+      const provider = getNotesProvider(notesSettings, anthropicKey);
+      const graded = await gradeQuiz(quiz, responses, provider, signal);
+      await saveQuizAttempt({
+        quizId: quiz.id,
+        recordingId: quiz.recordingId,
+        answers: graded.answers,
+        score: graded.score,
+        completedAt: new Date(),
+      });
+
+      setResult(graded);
+    });
+
+  const setResponse = (index: number, value: string) => {
+    if (!responses) return;
+    setResponses(responses.map((response, i) => (i === index ? value : response)));
+  };
+
+  const isTaking = responses !== null && quiz !== undefined;
+
+  return (
+    <div className="space-y-4">
+      {/* Actions */}
+      {!isTaking || result ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={handleGenerate}
+            disabled={isWorking !== null}
+            className="bg-yellow-600 hover:bg-yellow-700 disabled:bg-gray-700 disabled:text-gray-500 text-white px-4 py-2 rounded text-sm font-medium transition-colors"
+          >
+            {isWorking === 'generating' ? 'Writing questions...' : quiz ? 'New Quiz' : 'Quiz Me'}
+          </button>
+          {quiz && (
+            <button
+              onClick={handleRetake}
+              disabled={isWorking !== null}
+              className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded text-sm font-medium transition-colors"
+            >
+              Retake Last Quiz
+            </button>
+          )}
+        </div>
+      ) : null}
+
+      {error && (
+        <div className="bg-red-900 border border-red-700 text-red-200 px-4 py-2 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Questions */}
+      {isTaking && quiz && responses && (
+        <div className="space-y-4">
+          {result && (
+            <p className="text-lg font-semibold text-white">
+              Score: {formatScore(result.score)}{' '}
+              <span className="text-gray-400 text-sm font-normal">
+                ({result.answers.filter((answer) => answer.correct).length} of {quiz.questions.length} correct)
+              </span>
+            </p>
+          )}
+
+          <ol className="space-y-4">
+            {quiz.questions.map((question, index) => {
+              const answer = result?.answers[index];
+
+              return (
+                <li
+                  key={index}
+                  className={`bg-gray-800 rounded p-4 text-sm border ${
+                    !answer ? 'border-gray-700' : answer.correct ? 'border-green-700' : 'border-red-700'
+                  }`}
+                >
+                  <p className="text-gray-200 font-medium mb-3">
+                    {index + 1}. {question.question}
+                  </p>
+
+                  {question.type === 'multiple-choice' ? (
+                    <div className="space-y-2">
+                      {question.choices?.map((choice) => (
+                        <label
+                          key={choice}
+                          className={`flex items-start gap-2 cursor-pointer ${
+                            result && choice === question.answer ? 'text-green-300' : 'text-gray-300'
+                          }`}
+                        >
+                          <input
+                            type="radio"
+                            name={`quiz-${quiz.id}-${index}`}
+                            checked={responses[index] === choice}
+                            onChange={() => setResponse(index, choice)}
+                            disabled={!!result}
+                            className="mt-1 accent-yellow-500"
+                          />
+                          {choice}
+                        </label>
+                      ))}
+                    </div>
+                  ) : (
+                    <textarea
+                      value={responses[index]}
+                      onChange={(e) => setResponse(index, e.target.value)}
+                      disabled={!!result}
+                      rows={2}
+                      placeholder="Your answer"
+                      className="w-full bg-gray-700 text-white px-3 py-2 rounded border border-gray-600 focus:outline-none focus:border-blue-500 disabled:opacity-75"
+                    />
+                  )}
+
+                  {/* Feedback after grading */}
+                  {answer && (
+                    <div className="mt-3 space-y-1">
+                      <p className={answer.correct ? 'text-green-400' : 'text-red-400'}>
+                        {answer.correct ? '✓ Correct' : '✗ Incorrect'}
+                        {answer.feedback && <span className="text-gray-300"> — {answer.feedback}</span>}
+                      </p>
+                      {!answer.correct && (
+                        <>
+                          {question.type === 'short-answer' && (
+                            <p className="text-gray-300">
+                              <span className="text-gray-500">Model answer:</span> {question.answer}
+                            </p>
+                          )}
+                          {question.explanation && <p className="text-gray-400">{question.explanation}</p>}
+                          {question.time !== undefined && (
+                            <button
+                              onClick={() => onJumpTo(question.time!)}
+                              className="text-blue-400 hover:text-blue-300"
+                            >
+                              ▶ Listen at {formatTimestamp(question.time)}
+                            </button>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+
+          {!result && (
+            <div className="flex gap-2">
+              <button
+                onClick={handleSubmit}
+                disabled={isWorking !== null}
+                className="bg-yellow-600 hover:bg-yellow-700 disabled:bg-gray-700 disabled:text-gray-500 text-white px-4 py-2 rounded text-sm font-medium transition-colors"
+              >
+                {isWorking === 'grading' ? 'Grading...' : 'Submit Answers'}
+              </button>
+              <button
+                onClick={() => setResponses(null)}
+                disabled={isWorking !== null}
+                className="bg-gray-600 hover:bg-gray-700 text-white px-4 py-2 rounded text-sm font-medium transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Score history */}
+      {attempts && attempts.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-300 mb-2">Past Scores</h4>
+          <ul className="flex flex-wrap gap-2">
+            {attempts.map((attempt) => (
+              <li
+                key={attempt.id}
+                className="bg-gray-800 rounded px-3 py-1 text-xs text-gray-300"
+                title={attempt.completedAt.toLocaleString()}
+              >
+                {attempt.completedAt.toLocaleDateString()}: {formatScore(attempt.score)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
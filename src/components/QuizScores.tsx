@@ -0,0 +1,58 @@
+/**
+ * Quiz Scores Component
+ *
+ * Table of quiz results per category: attempts, average, best and
+ * latest score, so progress in each subject can be followed over time.
+ */
+
+import React from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { getQuizScoresByCategory } from '../services/storage';
+
+/**
+ * Format a 0-1 score as a percentage
+ */
+const formatScore = (score: number): string => `${Math.round(score * 100)}%`;
+
+export const QuizScores: React.FC = () => {
+  const scores = useLiveQuery(() => getQuizScoresByCategory(), []);
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 mt-8">
+      <h3 className="text-xl font-semibold text-white mb-2">Quiz Scores by Category</h3>
+
+      {scores === undefined ? (
+        <p className="text-gray-400 text-sm">Loading...</p>
+      ) : scores.size === 0 ? (
+        <p className="text-gray-400 text-sm">
+          No quizzes taken yet. Open Quiz on a categorized recording and choose Quiz Me.
+        </p>
+      ) : (
+        <table className="w-full text-sm mt-4">
+          <thead>
+            <tr className="text-left text-gray-400 border-b border-gray-700">
+              <th className="py-2 font-medium">Category</th>
+              <th className="py-2 font-medium text-right">Attempts</th>
+              <th className="py-2 font-medium text-right">Average</th>
+              <th className="py-2 font-medium text-right">Best</th>
+              <th className="py-2 font-medium text-right">Latest</th>
+            </tr>
+          </thead>
+          <tbody>
+            {Array.from(scores.entries()).map(([category, summary]) => (
+              <tr key={category} className="border-b border-gray-700 text-gray-200">
+                <td className="py-2">{category}</td>
+                <td className="py-2 text-right">{summary.attempts}</td>
+                <td className="py-2 text-right">{formatScore(summary.averageScore)}</td>
+                <td className="py-2 text-right">{formatScore(summary.bestScore)}</td>
+                <td className="py-2 text-right" title={summary.lastAttemptAt.toLocaleString()}>
+                  {formatScore(summary.lastScore)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
@@ -2,16 +2,38 @@
  * Recording Controls Component
  *
  * Main UI for recording audio:
+ * - Source picker: microphone, tab or system audio, or both mixed
  * - Large "Record" button to start
  * - Timer display
  * - Pause/Resume/Stop buttons when recording
+ * - Audio is saved as it is recorded, and unfinished recordings left by
+ *   a crash or closed tab are offered for recovery
  */
 
 import React, { useState, useEffect, useRef } from 'react';
+import { AudioSource } from '../types';
 import { useAppContext } from '../context/AppContext';
-import { AudioRecorder } from '../services/audioRecorder';
-import { saveRecording } from '../services/storage';
+import { AudioRecorder, SourceStream } from '../services/audioRecorder';
+import { getRecordingSource, setRecordingSource } from '../services/apiKeyManager';
+import {
+  saveRecording,
+  createRecordingSession,
+  addRecordingChunk,
+  finishRecordingSession,
+  holdRecordingSession,
+} from '../services/storage';
 import { AudioVisualizer } from './AudioVisualizer';
+import { RecordingRecovery } from './RecordingRecovery';
+
+// Sources offered in the picker
+const SOURCE_OPTIONS: { value: AudioSource; label: string }[] = [
+  { value: 'microphone', label: 'Microphone' },
+  { value: 'tab', label: 'Tab or system audio' },
+  { value: 'both', label: 'Tab audio + microphone' },
+];
+
+// Tab capture needs screen sharing, which mobile browsers lack
+const canCaptureTab = typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getDisplayMedia;
 
 export const RecordingControls: React.FC = () => {
   const { isRecording, isPaused, setIsRecording, setIsPaused } = useAppContext();
@@ -20,10 +42,15 @@ export const RecordingControls: React.FC = () => {
   const [seconds, setSeconds] = useState(0); // Total elapsed seconds
   const [error, setError] = useState<string | null>(null);
   const [audioStream, setAudioStream] = useState<MediaStream | null>(null);
+  const [audioSources, setAudioSources] = useState<SourceStream[]>([]);
+  const [source, setSource] = useState<AudioSource>(() => (canCaptureTab ? getRecordingSource() : 'microphone'));
+  const [activeSessionId, setActiveSessionId] = useState<number | null>(null);
 
   // Refs to persist across renders
   const audioRecorderRef = useRef<AudioRecorder | null>(null);
   const timerIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const sessionIdRef = useRef<number | null>(null);  // Where chunks are being saved
+  const releaseSessionRef = useRef<(() => void) | null>(null);  // Lets other tabs recover the session
 
   /**
    * Format seconds into HH:MM:SS display
@@ -89,16 +116,33 @@ export const RecordingControls: React.FC = () => {
     try {
       setError(null);
 
-      // Create new recorder instance
-      const recorder = new AudioRecorder();
+      // Create new recorder instance, saving each chunk as it arrives
+      const recorder = new AudioRecorder((chunk) => {
+        const sessionId = sessionIdRef.current;
+        if (sessionId === null) return;
+        addRecordingChunk(sessionId, chunk, recorder.getDuration()).catch((err) => {
+          console.error('Error saving recording chunk:', err);
+        });
+      });
       audioRecorderRef.current = recorder;
 
-      // Initialize (request microphone permission)
-      await recorder.initialize();
+      // Initialize (request microphone permission and/or tab sharing)
+      await recorder.initialize(source);
+
+      // Save incrementally; if that isn't possible, still record in memory
+      try {
+        const sessionId = await createRecordingSession(recorder.getMimeType());
+        releaseSessionRef.current = holdRecordingSession(sessionId);
+        sessionIdRef.current = sessionId;
+        setActiveSessionId(sessionId);
+      } catch (err) {
+        console.error('Recording session error:', err);
+      }
 
-      // Get audio stream for visualizer
+      // Get audio stream and its sources for visualizer
       const stream = recorder.getAudioStream();
       setAudioStream(stream);
+      setAudioSources(recorder.getSourceStreams());
 
       // Start recording
       recorder.start();
@@ -162,31 +206,38 @@ export const RecordingControls: React.FC = () => {
       // Stop recording and get audio blob
       const { blob, duration, mimeType } = await audioRecorderRef.current.stop();
 
-      // Check file size (25MB limit for Whisper API)
-      const sizeMB = blob.size / (1024 * 1024);
-      if (sizeMB > 25) {
-        setError(`Recording too large (${sizeMB.toFixed(1)}MB). Maximum size is 25MB.`);
-        return;
-      }
-
       // Generate filename with current date/time
       const now = new Date();
       const filename = `Recording ${now.toLocaleDateString()} ${now.toLocaleTimeString()}`;
 
-      // Save to IndexedDB
-      await saveRecording({
+      const recording = {
         filename,
         date: now,
         duration,
         audioBlob: blob,
         mimeType,
-        status: 'recorded', // Initial status
-      });
+        status: 'recorded' as const, // Initial status
+      };
+
+      // Save to IndexedDB, dropping the saved chunks in the same transaction
+      const sessionId = sessionIdRef.current;
+      if (sessionId !== null) {
+        await finishRecordingSession(sessionId, recording);
+      } else {
+        await saveRecording(recording);
+      }
+
+      // Only now may other tabs see the session as abandoned (it's gone)
+      sessionIdRef.current = null;
+      setActiveSessionId(null);
+      releaseSessionRef.current?.();
+      releaseSessionRef.current = null;
 
       // Reset state
       setIsRecording(false);
       setIsPaused(false);
       setAudioStream(null);
+      setAudioSources([]);
       stopTimer();
       audioRecorderRef.current = null;
 
@@ -205,12 +256,17 @@ export const RecordingControls: React.FC = () => {
       if (audioRecorderRef.current) {
         audioRecorderRef.current.dispose();
       }
+      // Saved chunks become recoverable
+      releaseSessionRef.current?.();
       stopTimer();
     };
   }, []);
 
   return (
     <div className="bg-gray-800 rounded-lg p-8">
+      {/* Unfinished recordings from an earlier session */}
+      <RecordingRecovery activeSessionId={activeSessionId} />
+
       {/* Error message */}
       {error && (
         <div className="mb-6 bg-red-900 border border-red-700 text-red-200 px-4 py-3 rounded flex items-start justify-between gap-2">
@@ -234,6 +290,7 @@ export const RecordingControls: React.FC = () => {
             isRecording={isRecording}
             isPaused={isPaused}
             audioStream={audioStream}
+            sources={audioSources}
           />
         </div>
       )}
@@ -250,6 +307,36 @@ export const RecordingControls: React.FC = () => {
         </div>
       )}
 
+      {/* Source picker (before recording starts) */}
+      {!isRecording && (
+        <div className="flex justify-center items-center gap-3 mb-6">
+          <label htmlFor="recording-source" className="text-gray-400 text-sm">
+            Record from
+          </label>
+          <select
+            id="recording-source"
+            value={source}
+            onChange={(e) => {
+              const value = e.target.value as AudioSource;
+              setSource(value);
+              setRecordingSource(value);
+            }}
+            className="bg-gray-700 text-white px-3 py-2 rounded border border-gray-600 text-sm focus:outline-none focus:border-blue-500"
+          >
+            {SOURCE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value} disabled={option.value !== 'microphone' && !canCaptureTab}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      {!isRecording && source !== 'microphone' && (
+        <p className="text-center text-gray-500 text-sm -mt-4 mb-6">
+          Pick the tab playing the lecture and turn on audio sharing. Only its sound is recorded.
+        </p>
+      )}
+
       {/* Control buttons */}
       <div className="flex justify-center gap-4">
         {!isRecording ? (
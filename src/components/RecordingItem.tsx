@@ -2,37 +2,85 @@
  * Recording Item Component
  *
  * Displays a single recording with:
+ * - Selection checkbox for batch actions
  * - Date, duration, custom name (editable)
  * - Audio playback controls
  * - Delete button
- * - "Generate Notes" button (to be implemented in Phase 5)
+ * - Transcribe / Re-transcribe and Generate / Regenerate Notes actions
+ *   (queued as background jobs; notes stream in live and jobs can be
+ *   cancelled), and Retry from the step that failed
+ * - Interactive transcript synced with playback
+ * - Study notes with editing and revision history
+ * - Organization fields (tags, category, subject, priority, studied)
  */
 
-import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { Recording } from '../types';
-import { updateRecording, deleteRecording } from '../services/storage';
+import React, { useState, useMemo, useEffect, useRef, useSyncExternalStore } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Recording, SearchHit, JobStep } from '../types';
+import { updateRecording, deleteRecording, saveNotes, getRecordingJob } from '../services/storage';
 import { useAppContext } from '../context/AppContext';
-import { transcribeAudio } from '../services/whisperApi';
-import { generateNotes } from '../services/claudeApi';
+import { getTranscriptionProvider } from '../services/transcription';
+import { getNotesProvider } from '../services/notesGeneration';
+import {
+  enqueueJob,
+  cancelJob,
+  retryJob,
+  cancelRecordingJob,
+  subscribeToJobProgress,
+  getJobProgress,
+} from '../services/jobQueue';
+import { TranscriptViewer } from './TranscriptViewer';
+import { NotesPanel } from './NotesPanel';
+import { ExportDialog } from './ExportDialog';
+import { SearchSnippet } from './SearchSnippet';
+import { MarkdownRenderer } from './MarkdownRenderer';
+import { OrganizationPanel } from './OrganizationPanel';
+import { FlashcardsPanel } from './FlashcardsPanel';
+import { QuizPanel } from './QuizPanel';
+import { ChatPanel } from './ChatPanel';
 
 interface RecordingItemProps {
   recording: Recording;
+  searchHit?: SearchHit;    // Where the recording matched the active search
+  isSelected?: boolean;     // Selected for a batch action
+  onToggleSelect?: () => void;
 }
 
-export const RecordingItem: React.FC<RecordingItemProps> = ({ recording }) => {
-  const { openaiKey, anthropicKey } = useAppContext();
+export const RecordingItem: React.FC<RecordingItemProps> = ({
+  recording,
+  searchHit,
+  isSelected = false,
+  onToggleSelect,
+}) => {
+  const { openaiKey, anthropicKey, transcriptionSettings, notesSettings } = useAppContext();
 
   const [isEditing, setIsEditing] = useState(false);
   const [customName, setCustomName] = useState(recording.customName || recording.filename);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
 
-  // Processing states
-  const [isProcessing, setIsProcessing] = useState(false);
+  // Error from queueing the recording for processing
   const [processingError, setProcessingError] = useState<string | null>(null);
 
+  // Background job for this recording (null while loading, undefined if none)
+  const job = useLiveQuery(
+    () => (recording.id ? getRecordingJob(recording.id) : undefined),
+    [recording.id],
+    null
+  );
+  const isJobActive = !!job && job.status !== 'failed';
+
+  // Live progress of the job, including notes as they stream in
+  const jobProgress = useSyncExternalStore(subscribeToJobProgress, getJobProgress);
+  const streamedNotes = recording.id !== undefined ? jobProgress.get(recording.id)?.notes : undefined;
+
   // UI expansion states
   const [showTranscript, setShowTranscript] = useState(false);
   const [showNotes, setShowNotes] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showOrganize, setShowOrganize] = useState(false);
+  const [showFlashcards, setShowFlashcards] = useState(false);
+  const [showQuiz, setShowQuiz] = useState(false);
+  const [showChat, setShowChat] = useState(false);
 
   // Audio ref
   const audioRef = useRef<HTMLAudioElement>(null);
@@ -79,6 +127,13 @@ export const RecordingItem: React.FC<RecordingItemProps> = ({ recording }) => {
     }
   }, [audioUrl]);
 
+  // Generation was interrupted if the status says notes are being
+  // generated but no job is left to finish them
+  const isGenerationInterrupted = recording.status === 'generating_notes' && job === undefined;
+  const liveNotes = recording.status === 'generating_notes' && job !== null
+    ? streamedNotes ?? recording.partialNotes ?? ''
+    : undefined;
+
   /**
    * Format duration in seconds to MM:SS or HH:MM:SS
    */
@@ -93,6 +148,23 @@ export const RecordingItem: React.FC<RecordingItemProps> = ({ recording }) => {
     return `${minutes}:${secs.toString().padStart(2, '0')}`;
   };
 
+  /**
+   * Open the transcript and play from a given time
+   * Used by search results that matched a transcript segment, and by
+   * quiz feedback and chat answers citing one
+   */
+  const handleJumpTo = (time: number) => {
+    setShowTranscript(true);
+
+    const audioElement = audioRef.current;
+    if (!audioElement) return;
+
+    audioElement.currentTime = time;
+    audioElement.play().catch((error) => {
+      console.error('Error starting playback:', error);
+    });
+  };
+
   /**
    * Save custom name to database
    */
@@ -113,6 +185,8 @@ export const RecordingItem: React.FC<RecordingItemProps> = ({ recording }) => {
   const handleDelete = async () => {
     try {
       if (recording.id) {
+        // Stop any processing first so it doesn't write to a deleted recording
+        await cancelRecordingJob(recording.id);
         await deleteRecording(recording.id);
         // URL cleanup
         URL.revokeObjectURL(audioUrl);
@@ -123,92 +197,125 @@ export const RecordingItem: React.FC<RecordingItemProps> = ({ recording }) => {
   };
 
   /**
-   * Handle "Generate Notes" button click
-   * Performs transcription followed by note generation
+   * Queue processing steps for this recording
+   * The job keeps running in the background and shows up in the jobs panel
+   * @param steps - Steps to run, in order
    */
-  const handleGenerateNotes = async () => {
+  const queueSteps = async (steps: JobStep[]) => {
     if (!recording.id) return;
 
     try {
-      setIsProcessing(true);
       setProcessingError(null);
 
-      // Variable to hold transcript text (either existing or newly generated)
-      let transcriptText = recording.transcript || '';
-
-      // Step 1: Transcription
-      if (!transcriptText) {
-        // Check if OpenAI key is configured
-        if (!openaiKey) {
-          throw new Error('OpenAI API key not configured. Please add your API key in Settings.');
-        }
-
-        // Update status to transcribing
-        await updateRecording(recording.id, {
-          status: 'transcribing',
-        });
-
-        // Call Whisper API
-        transcriptText = await transcribeAudio(recording.audioBlob, openaiKey);
-
-        // Save transcript
-        await updateRecording(recording.id, {
-          transcript: transcriptText,
-          status: 'transcribed',
-        });
+      // Check the providers now so setup problems show here rather than
+      // as a failed job (both throw if not fully configured)
+      if (steps.includes('transcribe')) {
+        getTranscriptionProvider(transcriptionSettings, openaiKey);
       }
-
-      // Step 2: Note Generation
-      // Check if Anthropic key is configured
-      if (!anthropicKey) {
-        throw new Error('Anthropic API key not configured. Please add your API key in Settings.');
+      if (steps.includes('notes')) {
+        getNotesProvider(notesSettings, anthropicKey);
       }
 
-      // Verify we have a transcript
-      if (!transcriptText || transcriptText.trim().length === 0) {
-        throw new Error('No transcript available for note generation.');
+      await enqueueJob(recording.id, steps);
+      await updateRecording(recording.id, { errorMessage: undefined });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to queue the recording';
+      setProcessingError(errorMessage);
+      console.error('Queue processing error:', error);
+    }
+  };
+
+  /**
+   * Handle "Generate Notes" / "Regenerate Notes" button click
+   * Transcribes first if there is no transcript yet
+   */
+  const handleGenerateNotes = () => {
+    queueSteps(recording.transcript ? ['notes'] : ['transcribe', 'notes']);
+  };
+
+  /**
+   * Retry after a failure, starting from the step that failed
+   * A failed job resumes with its remaining steps; otherwise only the
+   * failed step runs again (a transcript already made is not redone)
+   */
+  const handleRetry = async () => {
+    if (job && job.status === 'failed') {
+      try {
+        setProcessingError(null);
+        await retryJob(job);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to retry';
+        setProcessingError(errorMessage);
+        console.error('Retry error:', error);
       }
+      return;
+    }
 
-      // Update status to generating notes
-      await updateRecording(recording.id, {
-        status: 'generating_notes',
-      });
+    queueSteps([recording.failedStep === 'transcribe' || !recording.transcript ? 'transcribe' : 'notes']);
+  };
 
-      // Call Claude API
-      const notes = await generateNotes(transcriptText, anthropicKey);
+  /**
+   * Stop the recording's queued or running job
+   */
+  const handleCancelJob = async () => {
+    if (!job) return;
+
+    try {
+      await cancelJob(job);
+    } catch (error) {
+      console.error('Error cancelling job:', error);
+    }
+  };
+
+  /**
+   * Keep the notes received before generation was interrupted
+   */
+  const handleKeepPartialNotes = async () => {
+    if (!recording.id || !recording.partialNotes) return;
 
-      // Save notes and mark as complete
+    try {
+      await saveNotes(recording.id, recording.partialNotes, 'ai');
       await updateRecording(recording.id, {
-        notes,
         status: 'complete',
+        partialNotes: undefined,
       });
-
-      // Show notes automatically
-      setShowNotes(true);
-
     } catch (error) {
-      // Handle errors
-      const errorMessage = error instanceof Error ? error.message : 'Failed to generate notes';
-      setProcessingError(errorMessage);
+      console.error('Error keeping partial notes:', error);
+    }
+  };
 
-      // Update recording with error status
-      if (recording.id) {
-        await updateRecording(recording.id, {
-          status: 'error',
-          errorMessage,
-        });
-      }
+  /**
+   * Discard the notes received before generation was interrupted, keeping
+   * any notes from an earlier run
+   */
+  const handleDiscardPartialNotes = async () => {
+    if (!recording.id) return;
 
-      console.error('Generate notes error:', error);
-    } finally {
-      setIsProcessing(false);
+    try {
+      await updateRecording(recording.id, {
+        status: recording.notes ? 'complete' : 'transcribed',
+        partialNotes: undefined,
+      });
+    } catch (error) {
+      console.error('Error discarding partial notes:', error);
     }
   };
 
   return (
-    <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+    <div className={`bg-gray-800 rounded-lg p-6 border ${isSelected ? 'border-blue-500' : 'border-gray-700'}`}>
       {/* Header: Name and Date */}
       <div className="flex justify-between items-start mb-4">
+        {/* Selection for batch actions */}
+        {onToggleSelect && (
+          <input
+            type="checkbox"
+            checked={isSelected}
+            onChange={onToggleSelect}
+            aria-label="Select recording"
+            className="w-4 h-4 mt-2 mr-3 flex-shrink-0"
+          />
+        )}
+
         <div className="flex-1">
           {/* Editable name */}
           {isEditing ? (
@@ -245,7 +352,38 @@ export const RecordingItem: React.FC<RecordingItemProps> = ({ recording }) => {
           {/* Date and duration */}
           <div className="text-gray-400 text-sm mt-1">
             {recording.date.toLocaleString()} • {formatDuration(recording.duration)}
+            {recording.subject && <> • {recording.subject}</>}
           </div>
+
+          {/* Organization badges */}
+          {(recording.category || recording.priority || recording.isStudied || (recording.tags && recording.tags.length > 0)) && (
+            <div className="flex flex-wrap gap-2 mt-2">
+              {recording.category && (
+                <span className="bg-gray-700 text-gray-200 px-2 py-0.5 rounded text-xs">
+                  {recording.category}
+                </span>
+              )}
+              {recording.priority && (
+                <span className={`px-2 py-0.5 rounded text-xs ${
+                  recording.priority === 'high' ? 'bg-red-900 text-red-200' :
+                  recording.priority === 'medium' ? 'bg-yellow-900 text-yellow-200' :
+                  'bg-gray-700 text-gray-300'
+                }`}>
+                  {recording.priority.charAt(0).toUpperCase() + recording.priority.slice(1)} priority
+                </span>
+              )}
+              {recording.isStudied && (
+                <span className="bg-green-900 text-green-200 px-2 py-0.5 rounded text-xs">
+                  ✓ Studied
+                </span>
+              )}
+              {recording.tags?.map((tag) => (
+                <span key={tag} className="bg-blue-900 text-blue-200 px-2 py-0.5 rounded-full text-xs">
+                  #{tag}
+                </span>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Delete button */}
@@ -279,6 +417,11 @@ export const RecordingItem: React.FC<RecordingItemProps> = ({ recording }) => {
         </div>
       </div>
 
+      {/* Search match */}
+      {searchHit && searchHit.snippet.length > 0 && (
+        <SearchSnippet hit={searchHit} onJumpTo={handleJumpTo} />
+      )}
+
       {/* Audio player */}
       <audio
         ref={audioRef}
@@ -307,33 +450,75 @@ export const RecordingItem: React.FC<RecordingItemProps> = ({ recording }) => {
              recording.status === 'transcribed' ? 'Transcribed' :
              recording.status === 'generating_notes' ? 'Generating Notes...' :
              recording.status === 'complete' ? 'Complete' :
+             recording.failedStep === 'transcribe' ? 'Transcription Failed' :
+             recording.failedStep === 'notes' ? 'Notes Failed' :
              'Error'}
           </span>
         </div>
 
-        {/* Generate Notes button */}
-        <button
-          onClick={handleGenerateNotes}
-          disabled={isProcessing || recording.status === 'complete'}
-          className={`px-4 py-2 rounded font-medium transition-colors ${
-            isProcessing || recording.status === 'complete'
-              ? 'bg-gray-700 text-gray-500 cursor-not-allowed'
-              : 'bg-purple-600 hover:bg-purple-700 text-white'
-          }`}
-        >
-          {isProcessing ? (
-            <span className="flex items-center gap-2">
-              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-              {recording.status === 'transcribing' ? 'Transcribing...' : 'Generating...'}
+        <div className="flex items-center gap-2">
+          {/* Export button (once there is something to export) */}
+          {(recording.transcript || recording.notes) && (
+            <button
+              onClick={() => setShowExportDialog(true)}
+              className="px-4 py-2 rounded font-medium bg-gray-700 hover:bg-gray-600 text-white transition-colors"
+            >
+              Export
+            </button>
+          )}
+
+          {/* Processing actions (progress is shown in the jobs panel) */}
+          {isJobActive ? (
+            <span className="px-4 py-2 text-gray-400">
+              {job.status === 'running' ? 'Processing...' : 'Queued'}
             </span>
-          ) : recording.status === 'complete' ? (
-            'Notes Generated'
           ) : (
-            'Generate Notes'
+            <>
+              {/* Retry from the failed step */}
+              {recording.status === 'error' && (
+                <button
+                  onClick={handleRetry}
+                  className="px-4 py-2 rounded font-medium bg-red-700 hover:bg-red-600 text-white transition-colors"
+                >
+                  {recording.failedStep === 'notes' ? 'Retry Notes' : 'Retry Transcription'}
+                </button>
+              )}
+
+              <button
+                onClick={() => queueSteps(['transcribe'])}
+                className="px-4 py-2 rounded font-medium bg-gray-700 hover:bg-gray-600 text-white transition-colors"
+                title={recording.transcript ? 'Send the audio again and replace the transcript' : undefined}
+              >
+                {recording.transcript ? 'Re-transcribe' : 'Transcribe'}
+              </button>
+
+              <button
+                onClick={handleGenerateNotes}
+                className="px-4 py-2 rounded font-medium bg-purple-600 hover:bg-purple-700 text-white transition-colors"
+                title={recording.notes ? 'Write new notes; the current ones stay in History' : undefined}
+              >
+                {recording.notes ? 'Regenerate Notes' : 'Generate Notes'}
+              </button>
+            </>
           )}
-        </button>
+
+          {/* Cancel button (while queued or processing) */}
+          {isJobActive && (
+            <button
+              onClick={handleCancelJob}
+              className="px-4 py-2 rounded font-medium bg-gray-600 hover:bg-gray-700 text-white transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
       </div>
 
+      {/* Export dialog */}
+      {showExportDialog && (
+        <ExportDialog recording={recording} onClose={() => setShowExportDialog(false)} />
+      )}
+
       {/* Processing error */}
       {processingError && (
         <div className="mt-4 bg-red-900 border border-red-700 text-red-200 px-4 py-2 rounded text-sm flex items-start justify-between gap-2">
@@ -390,16 +575,25 @@ export const RecordingItem: React.FC<RecordingItemProps> = ({ recording }) => {
 
           {showTranscript && (
             <div className="mt-2 bg-gray-900 rounded p-4 border border-gray-700">
-              <pre className="text-gray-300 text-sm whitespace-pre-wrap font-sans">
-                {recording.transcript}
-              </pre>
+              {recording.transcriptSegments && recording.transcriptSegments.length > 0 ? (
+                // Interactive transcript: click a segment to seek the player
+                <TranscriptViewer
+                  segments={recording.transcriptSegments}
+                  audioRef={audioRef}
+                />
+              ) : (
+                // Older recordings were transcribed without timestamps
+                <pre className="text-gray-300 text-sm whitespace-pre-wrap font-sans">
+                  {recording.transcript}
+                </pre>
+              )}
             </div>
           )}
         </div>
       )}
 
       {/* Notes section (expandable) */}
-      {recording.notes && (
+      {(recording.notes || liveNotes !== undefined) && (
         <div className="mt-4">
           <button
             onClick={() => setShowNotes(!showNotes)}
@@ -418,13 +612,152 @@ export const RecordingItem: React.FC<RecordingItemProps> = ({ recording }) => {
 
           {showNotes && (
             <div className="mt-2 bg-gray-900 rounded p-4 border border-gray-700">
-              <div className="text-gray-300 text-sm prose prose-invert max-w-none">
-                <pre className="whitespace-pre-wrap font-sans">{recording.notes}</pre>
-              </div>
+              {liveNotes !== undefined ? (
+                <>
+                  {/* Interrupted generation: keep or discard what arrived */}
+                  {isGenerationInterrupted && (
+                    <div className="mb-3 bg-yellow-900 border border-yellow-700 text-yellow-200 px-4 py-2 rounded text-sm flex items-center justify-between gap-2">
+                      <span>Note generation was interrupted. These notes may be incomplete.</span>
+                      <div className="flex gap-2 flex-shrink-0">
+                        <button
+                          onClick={handleKeepPartialNotes}
+                          disabled={!recording.partialNotes}
+                          className="bg-yellow-700 hover:bg-yellow-600 disabled:bg-gray-700 disabled:text-gray-500 text-white px-3 py-1 rounded"
+                        >
+                          Keep
+                        </button>
+                        <button
+                          onClick={handleDiscardPartialNotes}
+                          className="bg-gray-600 hover:bg-gray-700 text-white px-3 py-1 rounded"
+                        >
+                          Discard
+                        </button>
+                        <button
+                          onClick={() => queueSteps(['notes'])}
+                          className="bg-purple-600 hover:bg-purple-700 text-white px-3 py-1 rounded"
+                        >
+                          Restart
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Notes rendered as they stream in */}
+                  {liveNotes ? (
+                    <MarkdownRenderer content={liveNotes} />
+                  ) : (
+                    <p className="text-gray-400 text-sm">Waiting for the model...</p>
+                  )}
+                </>
+              ) : (
+                <NotesPanel recording={recording} />
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Flashcards section (expandable) */}
+      {(recording.notes || recording.transcript) && (
+        <div className="mt-4">
+          <button
+            onClick={() => setShowFlashcards(!showFlashcards)}
+            className="flex items-center gap-2 text-purple-400 hover:text-purple-300 font-medium"
+          >
+            <svg
+              className={`w-5 h-5 transition-transform ${showFlashcards ? 'rotate-90' : ''}`}
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+            Flashcards
+          </button>
+
+          {showFlashcards && (
+            <div className="mt-2 bg-gray-900 rounded p-4 border border-gray-700">
+              <FlashcardsPanel recording={recording} />
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Chat section (expandable) */}
+      {recording.transcript && (
+        <div className="mt-4">
+          <button
+            onClick={() => setShowChat(!showChat)}
+            className="flex items-center gap-2 text-cyan-400 hover:text-cyan-300 font-medium"
+          >
+            <svg
+              className={`w-5 h-5 transition-transform ${showChat ? 'rotate-90' : ''}`}
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+            Ask About This Recording
+          </button>
+
+          {showChat && (
+            <div className="mt-2 bg-gray-900 rounded p-4 border border-gray-700">
+              <ChatPanel recording={recording} onJumpTo={handleJumpTo} />
             </div>
           )}
         </div>
       )}
+
+      {/* Quiz section (expandable) */}
+      {recording.transcript && (
+        <div className="mt-4">
+          <button
+            onClick={() => setShowQuiz(!showQuiz)}
+            className="flex items-center gap-2 text-yellow-400 hover:text-yellow-300 font-medium"
+          >
+            <svg
+              className={`w-5 h-5 transition-transform ${showQuiz ? 'rotate-90' : ''}`}
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+            Quiz
+          </button>
+
+          {showQuiz && (
+            <div className="mt-2 bg-gray-900 rounded p-4 border border-gray-700">
+              <QuizPanel recording={recording} onJumpTo={handleJumpTo} />
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Organization section (expandable) */}
+      <div className="mt-4">
+        <button
+          onClick={() => setShowOrganize(!showOrganize)}
+          className="flex items-center gap-2 text-gray-400 hover:text-gray-300 font-medium"
+        >
+          <svg
+            className={`w-5 h-5 transition-transform ${showOrganize ? 'rotate-90' : ''}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+          Organize
+        </button>
+
+        {showOrganize && (
+          <div className="mt-2 bg-gray-900 rounded p-4 border border-gray-700">
+            <OrganizationPanel recording={recording} />
+          </div>
+        )}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,118 @@
+/**
+ * Recording Recovery Component
+ *
+ * Lists recordings that were still in progress when the tab closed or
+ * the browser crashed. Their audio was saved chunk by chunk, so each can
+ * be recovered as a normal recording or discarded. Recordings still in
+ * progress in another tab are not listed.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { RecordingSession } from '../types';
+import {
+  getUnfinishedRecordingSessions,
+  recoverRecordingSession,
+  discardRecordingSession,
+} from '../services/storage';
+import { formatTimestamp } from '../services/formatters';
+
+// How often to check again; a tab closing changes nothing in the database
+const RECHECK_INTERVAL_MS = 5000;
+
+interface RecordingRecoveryProps {
+  activeSessionId: number | null;  // Session of the recording in progress here, if any
+}
+
+export const RecordingRecovery: React.FC<RecordingRecoveryProps> = ({ activeSessionId }) => {
+  const [checkedAt, setCheckedAt] = useState(Date.now());
+  const sessions = useLiveQuery(() => getUnfinishedRecordingSessions(), [checkedAt]) || [];
+
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const unfinished = sessions.filter((session) => session.id !== activeSessionId);
+
+  useEffect(() => {
+    const timer = setInterval(() => setCheckedAt(Date.now()), RECHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  /**
+   * Save a session's audio as a recording
+   */
+  const handleRecover = async (session: RecordingSession) => {
+    if (session.id === undefined) return;
+
+    try {
+      setError(null);
+      setBusyId(session.id);
+      await recoverRecordingSession(session.id);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to recover recording';
+      setError(errorMessage);
+      console.error('Recover recording error:', err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  /**
+   * Throw away a session's audio
+   */
+  const handleDiscard = async (session: RecordingSession) => {
+    if (session.id === undefined) return;
+
+    try {
+      setError(null);
+      setBusyId(session.id);
+      await discardRecordingSession(session.id);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to discard recording';
+      setError(errorMessage);
+      console.error('Discard recording error:', err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (unfinished.length === 0) return null;
+
+  return (
+    <div className="mb-6 space-y-2">
+      {unfinished.map((session) => (
+        <div
+          key={session.id}
+          className="bg-yellow-900 border border-yellow-700 text-yellow-100 px-4 py-3 rounded flex flex-wrap items-center justify-between gap-2"
+        >
+          <span className="flex-1">
+            An unfinished recording from {session.startedAt.toLocaleString()} ({formatTimestamp(session.duration)})
+            was found.
+          </span>
+          <span className="flex gap-2">
+            <button
+              onClick={() => handleRecover(session)}
+              disabled={busyId !== null}
+              className="bg-yellow-600 hover:bg-yellow-700 disabled:bg-gray-700 text-white px-3 py-1 rounded text-sm font-medium transition-colors"
+            >
+              Recover
+            </button>
+            <button
+              onClick={() => handleDiscard(session)}
+              disabled={busyId !== null}
+              className="bg-gray-600 hover:bg-gray-700 disabled:bg-gray-700 text-white px-3 py-1 rounded text-sm transition-colors"
+            >
+              Discard
+            </button>
+          </span>
+        </div>
+      ))}
+
+      {error && (
+        <div className="bg-red-900 border border-red-700 text-red-200 px-4 py-2 rounded text-sm">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,24 +1,106 @@
 /**
  * Recordings List Component
  *
- * Displays all recordings using Dexie's useLiveQuery hook
+ * Displays recordings using Dexie's useLiveQuery hook
  * Automatically updates when recordings are added/modified/deleted
+ * Filter and sort state is kept in the URL so views can be bookmarked
+ * Recordings can be selected to apply batch actions to all of them
  */
 
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { db } from '../services/storage';
+import { BatchResult, FilterOptions, SortOptions } from '../types';
+import { db, filterRecordingsWithHits, sortRecordings } from '../services/storage';
+import { parseListState, writeListState, DEFAULT_SORT } from '../services/urlState';
 import { RecordingItem } from './RecordingItem';
+import { FilterBar } from './FilterBar';
+import { BatchActionsBar } from './BatchActionsBar';
+import { BatchSummary } from './BatchSummary';
 
 export const RecordingsList: React.FC = () => {
+  // Filter and sort state, initialized from the URL
+  const [filters, setFilters] = useState<FilterOptions>(
+    () => parseListState(window.location.search).filters
+  );
+  const [sort, setSort] = useState<SortOptions>(
+    () => parseListState(window.location.search).sort
+  );
+
+  // Selected recording ids (only those currently shown are acted on)
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+
+  // Outcome of the last batch action
+  const [batchResult, setBatchResult] = useState<BatchResult | null>(null);
+
+  /**
+   * Mirror the active filter and sort order in the URL
+   */
+  useEffect(() => {
+    writeListState(filters, sort);
+  }, [filters, sort]);
+
+  /**
+   * Update filters, switching to relevance order when a search starts
+   * and back to the default order when it is cleared
+   */
+  const handleFiltersChange = (next: FilterOptions) => {
+    const wasSearching = !!filters.searchQuery?.trim();
+    const isSearching = !!next.searchQuery?.trim();
+
+    if (!wasSearching && isSearching &&
+        sort.field === DEFAULT_SORT.field && sort.direction === DEFAULT_SORT.direction) {
+      setSort({ field: 'relevance', direction: 'desc' });
+    } else if (wasSearching && !isSearching && sort.field === 'relevance') {
+      setSort(DEFAULT_SORT);
+    }
+
+    setFilters(next);
+  };
+
   /**
    * useLiveQuery automatically subscribes to database changes
    * Component will re-render whenever recordings table changes
+   * or the filter/sort changes
    */
-  const recordings = useLiveQuery(
-    () => db.recordings.orderBy('date').reverse().toArray(),
-    [] // Empty deps array - query never changes
+  const result = useLiveQuery(
+    async () => {
+      const { recordings, hits } = await filterRecordingsWithHits(filters);
+      return { recordings: sortRecordings(recordings, sort), hits };
+    },
+    [filters, sort]
   );
+  const recordings = result?.recordings;
+  const selectedRecordings = recordings?.filter(
+    (recording) => recording.id !== undefined && selectedIds.has(recording.id)
+  ) || [];
+
+  /**
+   * Select or deselect one recording
+   */
+  const toggleSelected = (id: number) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelectedIds(next);
+  };
+
+  /**
+   * Select every shown recording, or clear the selection if all are selected
+   */
+  const toggleSelectAll = () => {
+    if (!recordings) return;
+    setSelectedIds(
+      selectedRecordings.length === recordings.length
+        ? new Set()
+        : new Set(recordings.flatMap((recording) => (recording.id !== undefined ? [recording.id] : [])))
+    );
+  };
+
+  // Total number of recordings (to tell "no matches" from "no recordings")
+  const totalCount = useLiveQuery(() => db.recordings.count(), []);
 
   // Show loading state while initial query loads
   if (recordings === undefined) {
@@ -31,7 +113,7 @@ export const RecordingsList: React.FC = () => {
   }
 
   // Show empty state if no recordings
-  if (recordings.length === 0) {
+  if (totalCount === 0) {
     return (
       <div className="text-center py-12 bg-gray-800 rounded-lg border border-gray-700">
         <svg
@@ -58,13 +140,68 @@ export const RecordingsList: React.FC = () => {
   // Render recordings list
   return (
     <div className="space-y-4">
-      <h3 className="text-xl font-semibold text-white mb-4">
-        Your Recordings ({recordings.length})
-      </h3>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold text-white">
+          Your Recordings (
+          {totalCount !== undefined && recordings.length !== totalCount
+            ? `${recordings.length} of ${totalCount}`
+            : recordings.length}
+          )
+        </h3>
+        {recordings.length > 0 && (
+          <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={selectedRecordings.length === recordings.length}
+              onChange={toggleSelectAll}
+              className="w-4 h-4"
+            />
+            Select all
+          </label>
+        )}
+      </div>
+
+      <FilterBar
+        filters={filters}
+        sort={sort}
+        onFiltersChange={handleFiltersChange}
+        onSortChange={setSort}
+      />
 
-      {recordings.map((recording) => (
-        <RecordingItem key={recording.id} recording={recording} />
-      ))}
+      {/* Batch actions for the selected recordings */}
+      {selectedRecordings.length > 0 && (
+        <BatchActionsBar
+          recordings={selectedRecordings}
+          onComplete={setBatchResult}
+          onClearSelection={() => setSelectedIds(new Set())}
+        />
+      )}
+
+      {batchResult && (
+        <BatchSummary result={batchResult} onDismiss={() => setBatchResult(null)} />
+      )}
+
+      {recordings.length === 0 ? (
+        <div className="text-center py-8 bg-gray-800 rounded-lg border border-gray-700">
+          <p className="text-gray-400">No recordings match the current filters.</p>
+          <button
+            onClick={() => handleFiltersChange({})}
+            className="mt-2 text-blue-400 hover:text-blue-300 text-sm"
+          >
+            Clear filters
+          </button>
+        </div>
+      ) : (
+        recordings.map((recording) => (
+          <RecordingItem
+            key={recording.id}
+            recording={recording}
+            searchHit={recording.id !== undefined ? result?.hits.get(recording.id) : undefined}
+            isSelected={recording.id !== undefined && selectedIds.has(recording.id)}
+            onToggleSelect={() => recording.id !== undefined && toggleSelected(recording.id)}
+          />
+        ))
+      )}
     </div>
   );
 };
@@ -0,0 +1,215 @@
+/**
+ * Review Page Component
+ *
+ * Daily spaced-repetition session: shows each flashcard due today,
+ * reveals the answer, and reschedules the card from the grade given.
+ * Cards graded "Again" come back later in the same session.
+ * Quiz scores per category are shown below the session.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Flashcard, Recording, ReviewGrade } from '../types';
+import { getDueFlashcards, getAllFlashcards, getAllRecordings, reviewFlashcard } from '../services/storage';
+import { describeNextInterval } from '../services/spacedRepetition';
+import { buildAnkiCsv } from '../services/flashcards';
+import { downloadBlob } from '../services/exporter';
+import { QuizScores } from './QuizScores';
+
+// Grade buttons, worst to best
+const GRADE_OPTIONS: { grade: ReviewGrade; label: string; className: string; key: string }[] = [
+  { grade: 'again', label: 'Again', className: 'bg-red-600 hover:bg-red-700', key: '1' },
+  { grade: 'hard', label: 'Hard', className: 'bg-orange-600 hover:bg-orange-700', key: '2' },
+  { grade: 'good', label: 'Good', className: 'bg-green-600 hover:bg-green-700', key: '3' },
+  { grade: 'easy', label: 'Easy', className: 'bg-blue-600 hover:bg-blue-700', key: '4' },
+];
+
+export const ReviewPage: React.FC = () => {
+  // Cards still to review this session, in order
+  const [queue, setQueue] = useState<Flashcard[] | null>(null);
+  const [recordings, setRecordings] = useState<Map<number, Recording>>(new Map());
+  const [showAnswer, setShowAnswer] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [gradeCounts, setGradeCounts] = useState<Record<ReviewGrade, number>>({
+    again: 0,
+    hard: 0,
+    good: 0,
+    easy: 0,
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load today's due cards once when the page opens
+   * The session keeps its own queue so edits elsewhere don't reshuffle it
+   */
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [due, allRecordings] = await Promise.all([getDueFlashcards(), getAllRecordings()]);
+        setRecordings(new Map(allRecordings.map((recording) => [recording.id!, recording])));
+        setQueue(due.sort((a, b) => a.due.getTime() - b.due.getTime()));
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to load flashcards';
+        setError(errorMessage);
+        console.error('Review load error:', err);
+      }
+    };
+    load();
+  }, []);
+
+  const current = queue?.[0];
+
+  /**
+   * Grade the current card and move to the next one
+   */
+  const handleGrade = async (grade: ReviewGrade) => {
+    if (!current?.id || !queue) return;
+
+    try {
+      setError(null);
+      const updated = await reviewFlashcard(current.id, grade);
+
+      // Forgotten cards go to the back of the queue
+      setQueue(grade === 'again' ? [...queue.slice(1), updated] : queue.slice(1));
+      setReviewedCount((count) => count + 1);
+      setGradeCounts((counts) => ({ ...counts, [grade]: counts[grade] + 1 }));
+      setShowAnswer(false);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save review';
+      setError(errorMessage);
+      console.error('Review error:', err);
+    }
+  };
+
+  /**
+   * Keyboard shortcuts: Space shows the answer, 1-4 grade it
+   */
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!current || e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
+        return;
+      }
+      if (!showAnswer && (e.key === ' ' || e.key === 'Enter')) {
+        e.preventDefault();
+        setShowAnswer(true);
+        return;
+      }
+      const option = showAnswer && GRADE_OPTIONS.find((o) => o.key === e.key);
+      if (option) {
+        handleGrade(option.grade);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  /**
+   * Download every flashcard in the library as Anki CSV
+   */
+  const handleExportAll = async () => {
+    try {
+      const cards = await getAllFlashcards();
+      if (cards.length === 0) {
+        setError('There are no flashcards to export yet.');
+        return;
+      }
+      downloadBlob(new Blob([buildAnkiCsv(cards, recordings)], { type: 'text/csv' }), 'Dozey flashcards.csv');
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to export flashcards';
+      setError(errorMessage);
+      console.error('Flashcard export error:', err);
+    }
+  };
+
+  const recording = current ? recordings.get(current.recordingId) : undefined;
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex items-center justify-between mb-8">
+        <h2 className="text-3xl font-bold text-white">Review</h2>
+        <button
+          onClick={handleExportAll}
+          className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded text-sm font-medium transition-colors"
+        >
+          Export All to Anki (CSV)
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-900 border border-red-700 text-red-200 px-4 py-3 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      {queue === null ? (
+        <p className="text-gray-400">Loading...</p>
+      ) : !current ? (
+        // Session finished (or nothing was due)
+        <div className="bg-gray-800 rounded-lg p-8 text-center">
+          {reviewedCount === 0 ? (
+            <>
+              <p className="text-xl text-white mb-2">Nothing to review today</p>
+              <p className="text-gray-400 text-sm">
+                Generate flashcards from a recording's Flashcards section to start studying.
+              </p>
+            </>
+          ) : (
+            <>
+              <p className="text-xl text-white mb-2">Session complete</p>
+              <p className="text-gray-400 text-sm">
+                {reviewedCount} review{reviewedCount === 1 ? '' : 's'}: {gradeCounts.again} again,{' '}
+                {gradeCounts.hard} hard, {gradeCounts.good} good, {gradeCounts.easy} easy.
+              </p>
+            </>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-gray-400 text-sm">
+            {queue.length} card{queue.length === 1 ? '' : 's'} left
+            {recording && <> · {recording.customName || recording.filename}</>}
+          </p>
+
+          {/* Card */}
+          <div className="bg-gray-800 rounded-lg p-8 min-h-[12rem]">
+            <p className="text-xl text-white whitespace-pre-wrap">{current.question}</p>
+            {showAnswer && (
+              <>
+                <hr className="my-6 border-gray-700" />
+                <p className="text-lg text-gray-200 whitespace-pre-wrap">{current.answer}</p>
+              </>
+            )}
+          </div>
+
+          {/* Reveal or grade */}
+          {!showAnswer ? (
+            <button
+              onClick={() => setShowAnswer(true)}
+              className="w-full bg-gray-700 hover:bg-gray-600 text-white py-3 rounded font-medium transition-colors"
+            >
+              Show Answer <span className="text-gray-400 text-sm">(Space)</span>
+            </button>
+          ) : (
+            <div className="grid grid-cols-4 gap-2">
+              {GRADE_OPTIONS.map((option) => (
+                <button
+                  key={option.grade}
+                  onClick={() => handleGrade(option.grade)}
+                  className={`${option.className} text-white py-3 rounded font-medium transition-colors`}
+                >
+                  {option.label}
+                  <span className="block text-xs opacity-80">
+                    {describeNextInterval(current, option.grade)} · {option.key}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Quiz results over time */}
+      <QuizScores />
+    </div>
+  );
+};
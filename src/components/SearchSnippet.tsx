@@ -0,0 +1,52 @@
+/**
+ * Search Snippet Component
+ *
+ * Shows where a recording matched the active search, with matched
+ * words highlighted. Transcript matches link to their timestamp.
+ */
+
+import React from 'react';
+import { SearchHit, SearchField } from '../types';
+import { formatTimestamp } from '../services/formatters';
+
+interface SearchSnippetProps {
+  hit: SearchHit;
+  onJumpTo: (time: number) => void;
+}
+
+const FIELD_LABELS: Record<SearchField, string> = {
+  name: 'Name',
+  tags: 'Tags',
+  notes: 'Notes',
+  transcript: 'Transcript',
+};
+
+export const SearchSnippet: React.FC<SearchSnippetProps> = ({ hit, onJumpTo }) => {
+  return (
+    <div className="mb-4 bg-gray-900 rounded px-4 py-2 border border-gray-700 text-sm">
+      <div className="flex items-center gap-2 mb-1 text-xs text-gray-500">
+        <span>Match in {FIELD_LABELS[hit.field]}</span>
+        {hit.time !== undefined && (
+          <button
+            onClick={() => onJumpTo(hit.time!)}
+            className="text-blue-400 hover:text-blue-300"
+            title="Play from this point"
+          >
+            ▶ {formatTimestamp(hit.time)}
+          </button>
+        )}
+      </div>
+      <p className="text-gray-300">
+        {hit.snippet.map((part, index) =>
+          part.highlight ? (
+            <mark key={index} className="bg-yellow-700 text-yellow-100 rounded px-0.5">
+              {part.text}
+            </mark>
+          ) : (
+            <span key={index}>{part.text}</span>
+          )
+        )}
+      </p>
+    </div>
+  );
+};
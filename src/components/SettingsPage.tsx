@@ -1,15 +1,29 @@
 /**
  * Settings Page Component
  *
- * Manages API key configuration for OpenAI and Anthropic
+ * Manages API key configuration for OpenAI and Anthropic,
+ * the transcription and notes providers, background processing,
+ * tag and category management, and library backup/restore
  */
 
 import React, { useState } from 'react';
 import { useAppContext } from '../context/AppContext';
 import { validateOpenAIKey, validateAnthropicKey } from '../services/apiKeyManager';
+import { LibraryBackup } from './LibraryBackup';
+import { TagManager } from './TagManager';
+import { TranscriptionProviderSettings } from './TranscriptionProviderSettings';
+import { NotesProviderSettings } from './NotesProviderSettings';
+import { TemplateLibrary } from './TemplateLibrary';
 
 export const SettingsPage: React.FC = () => {
-  const { openaiKey, anthropicKey, setOpenAIKey, setAnthropicKey } = useAppContext();
+  const {
+    openaiKey,
+    anthropicKey,
+    setOpenAIKey,
+    setAnthropicKey,
+    jobConcurrency,
+    setJobConcurrency,
+  } = useAppContext();
 
   // Local state for input values
   const [openaiInput, setOpenaiInput] = useState(openaiKey || '');
@@ -94,7 +108,7 @@ export const SettingsPage: React.FC = () => {
             OpenAI API Key
           </label>
           <p className="text-gray-500 text-xs mb-2">
-            Used for Whisper API (audio transcription). Get your key from{' '}
+            Used for Whisper API (audio transcription with the OpenAI provider). Get your key from{' '}
             <a
               href="https://platform.openai.com/api-keys"
               target="_blank"
@@ -138,7 +152,7 @@ export const SettingsPage: React.FC = () => {
             Anthropic API Key
           </label>
           <p className="text-gray-500 text-xs mb-2">
-            Used for Claude API (note generation). Get your key from{' '}
+            Used for Claude API (note generation with the Anthropic provider). Get your key from{' '}
             <a
               href="https://console.anthropic.com/settings/keys"
               target="_blank"
@@ -184,6 +198,48 @@ export const SettingsPage: React.FC = () => {
           </p>
         </div>
       </div>
+
+      {/* Speech-to-text backend */}
+      <TranscriptionProviderSettings />
+
+      {/* Language model for notes */}
+      <NotesProviderSettings />
+
+      {/* Background processing */}
+      <div className="bg-gray-800 rounded-lg p-6 mt-8">
+        <h3 className="text-xl font-semibold text-white mb-2">Background Processing</h3>
+        <p className="text-gray-400 text-sm mb-4">
+          Transcription and note generation run in the background and resume after a reload.
+          Rate limits and network errors are retried automatically.
+        </p>
+        <label htmlFor="job-concurrency" className="block text-sm font-medium text-gray-300 mb-2">
+          Recordings processed at once
+        </label>
+        <select
+          id="job-concurrency"
+          value={jobConcurrency}
+          onChange={(e) => setJobConcurrency(Number(e.target.value))}
+          className="bg-gray-700 text-white px-4 py-2 rounded border border-gray-600 focus:outline-none focus:border-blue-500"
+        >
+          {[1, 2, 3, 4].map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+        <p className="text-gray-500 text-xs mt-2">
+          Lower this if your provider often reports rate limits.
+        </p>
+      </div>
+
+      {/* Note templates and category defaults */}
+      <TemplateLibrary />
+
+      {/* Library-wide tag and category management */}
+      <TagManager />
+
+      {/* Library backup and restore */}
+      <LibraryBackup />
     </div>
   );
 };
@@ -0,0 +1,236 @@
+/**
+ * Tag Manager Component
+ *
+ * Settings section for renaming, merging and deleting tags and
+ * categories across the whole library. Renaming to a name that
+ * already exists merges the two.
+ */
+
+import React, { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import {
+  getOrganizationCounts,
+  renameTag,
+  deleteTag,
+  renameCategory,
+  deleteCategory,
+} from '../services/storage';
+
+type ItemKind = 'tag' | 'category';
+
+// The item currently being renamed or deleted
+interface PendingAction {
+  kind: ItemKind;
+  name: string;
+  action: 'rename' | 'delete';
+}
+
+export const TagManager: React.FC = () => {
+  const counts = useLiveQuery(() => getOrganizationCounts(), []);
+
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [newName, setNewName] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const existingNames = (kind: ItemKind): Map<string, number> =>
+    (kind === 'tag' ? counts?.tags : counts?.categories) || new Map();
+
+  /**
+   * Start renaming or deleting an item
+   */
+  const startAction = (kind: ItemKind, name: string, action: PendingAction['action']) => {
+    setPending({ kind, name, action });
+    setNewName(name);
+    setMessage(null);
+    setError(null);
+  };
+
+  /**
+   * Apply the pending rename/merge or delete
+   */
+  const handleConfirm = async () => {
+    if (!pending) return;
+
+    const target = newName.trim();
+    const isMerge = pending.action === 'rename' && existingNames(pending.kind).has(target);
+    const label = pending.kind === 'tag' ? `#${pending.name}` : pending.name;
+
+    try {
+      setIsWorking(true);
+      setError(null);
+
+      let changed = 0;
+      if (pending.action === 'rename') {
+        changed = pending.kind === 'tag'
+          ? await renameTag(pending.name, target)
+          : await renameCategory(pending.name, target);
+      } else {
+        changed = pending.kind === 'tag'
+          ? await deleteTag(pending.name)
+          : await deleteCategory(pending.name);
+      }
+
+      const plural = changed === 1 ? '' : 's';
+      setMessage(
+        pending.action === 'delete'
+          ? `Removed ${label} from ${changed} recording${plural}.`
+          : isMerge
+          ? `Merged ${label} into ${target} (${changed} recording${plural}).`
+          : `Renamed ${label} to ${target} (${changed} recording${plural}).`
+      );
+      setPending(null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update recordings';
+      setError(errorMessage);
+      console.error('Tag manager error:', err);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  /**
+   * Render the list of tags or categories with their actions
+   */
+  const renderList = (kind: ItemKind, title: string) => {
+    const items = Array.from(existingNames(kind).entries()).sort(([a], [b]) => a.localeCompare(b));
+
+    return (
+      <div>
+        <h4 className="text-sm font-medium text-gray-300 mb-2">{title}</h4>
+        {items.length === 0 ? (
+          <p className="text-gray-500 text-sm">None yet.</p>
+        ) : (
+          <ul className="space-y-1">
+            {items.map(([name, count]) => {
+              const isPending = pending?.kind === kind && pending.name === name;
+              const isMerge = isPending && pending.action === 'rename' &&
+                newName.trim() !== name && existingNames(kind).has(newName.trim());
+
+              return (
+                <li key={name} className="bg-gray-900 rounded px-3 py-2 text-sm">
+                  {isPending && pending.action === 'rename' ? (
+                    <div className="space-y-2">
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          list={`manage-${kind}-names`}
+                          value={newName}
+                          onChange={(e) => setNewName(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && handleConfirm()}
+                          className="flex-1 bg-gray-700 text-white px-3 py-1 rounded border border-gray-600 focus:outline-none focus:border-blue-500"
+                          autoFocus
+                        />
+                        <button
+                          onClick={handleConfirm}
+                          disabled={isWorking || !newName.trim() || newName.trim() === name}
+                          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-500 text-white px-3 py-1 rounded"
+                        >
+                          {isMerge ? 'Merge' : 'Rename'}
+                        </button>
+                        <button
+                          onClick={() => setPending(null)}
+                          disabled={isWorking}
+                          className="bg-gray-600 hover:bg-gray-700 text-white px-3 py-1 rounded"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                      {isMerge && (
+                        <p className="text-yellow-400 text-xs">
+                          {newName.trim()} already exists. Both will be merged into it.
+                        </p>
+                      )}
+                    </div>
+                  ) : isPending && pending.action === 'delete' ? (
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-red-300">
+                        Remove {kind === 'tag' ? `#${name}` : name} from {count} recording
+                        {count === 1 ? '' : 's'}?
+                      </span>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={handleConfirm}
+                          disabled={isWorking}
+                          className="bg-red-600 hover:bg-red-700 text-white px-3 py-1 rounded"
+                        >
+                          Confirm
+                        </button>
+                        <button
+                          onClick={() => setPending(null)}
+                          disabled={isWorking}
+                          className="bg-gray-600 hover:bg-gray-700 text-white px-3 py-1 rounded"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-gray-200">
+                        {kind === 'tag' ? `#${name}` : name}
+                        <span className="text-gray-500 ml-2">{count}</span>
+                      </span>
+                      <div className="flex gap-3">
+                        <button
+                          onClick={() => startAction(kind, name, 'rename')}
+                          className="text-blue-400 hover:text-blue-300"
+                        >
+                          Rename
+                        </button>
+                        <button
+                          onClick={() => startAction(kind, name, 'delete')}
+                          className="text-red-400 hover:text-red-300"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        <datalist id={`manage-${kind}-names`}>
+          {items.map(([name]) => (
+            <option key={name} value={name} />
+          ))}
+        </datalist>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 space-y-4 mt-8">
+      <div>
+        <h3 className="text-xl font-semibold text-white mb-2">Tags & Categories</h3>
+        <p className="text-gray-400 text-sm">
+          Rename or delete tags and categories across all recordings.
+          Renaming to an existing name merges the two.
+        </p>
+      </div>
+
+      {message && (
+        <div className="bg-green-900 border border-green-700 text-green-200 px-4 py-3 rounded text-sm">
+          {message}
+        </div>
+      )}
+      {error && (
+        <div className="bg-red-900 border border-red-700 text-red-200 px-4 py-3 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      {counts === undefined ? (
+        <p className="text-gray-400 text-sm">Loading...</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {renderList('tag', 'Tags')}
+          {renderList('category', 'Categories')}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,332 @@
+/**
+ * Template Library Component
+ *
+ * Settings section for note templates: browse the built-in presets,
+ * create, edit, duplicate and delete custom templates, and choose the
+ * default template for each category.
+ */
+
+import React, { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { NoteTemplate } from '../types';
+import {
+  getAllCategories,
+  getCategoryTemplates,
+  saveTemplate,
+  deleteTemplate,
+  setCategoryTemplate,
+} from '../services/storage';
+import { DEFAULT_TEMPLATE, TEMPLATE_VARIABLES, getAllTemplates } from '../services/noteTemplates';
+
+// Shared input styling
+const INPUT_CLASS =
+  'w-full bg-gray-700 text-white px-4 py-2 rounded border border-gray-600 focus:outline-none focus:border-blue-500';
+
+export const TemplateLibrary: React.FC = () => {
+  const templates = useLiveQuery(() => getAllTemplates(), []);
+  const categories = useLiveQuery(() => getAllCategories(), []);
+  const categoryTemplates = useLiveQuery(() => getCategoryTemplates(), []);
+
+  // Template being edited (empty id for a new one)
+  const [editing, setEditing] = useState<NoteTemplate | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Open the editor with a template
+   */
+  const startEditing = (template: NoteTemplate) => {
+    setEditing(template);
+    setPendingDeleteId(null);
+    setMessage(null);
+    setError(null);
+  };
+
+  /**
+   * Start a copy of a template that can be edited
+   */
+  const handleDuplicate = (template: NoteTemplate) => {
+    startEditing({
+      id: '',
+      name: `${template.name} (copy)`,
+      description: template.description,
+      instructions: template.instructions,
+    });
+  };
+
+  /**
+   * Validate and save the template being edited
+   */
+  const handleSave = async () => {
+    if (!editing) return;
+
+    const name = editing.name.trim();
+    if (!name) {
+      setError('Template name cannot be empty');
+      return;
+    }
+    if (!editing.instructions.trim()) {
+      setError('Instructions cannot be empty');
+      return;
+    }
+
+    try {
+      await saveTemplate({
+        ...editing,
+        name,
+        description: editing.description.trim(),
+        instructions: editing.instructions.trim(),
+      });
+      setEditing(null);
+      setMessage(`Saved template "${name}"`);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save template';
+      setError(errorMessage);
+      console.error('Template save error:', err);
+    }
+  };
+
+  /**
+   * Delete a custom template after confirmation
+   */
+  const handleDelete = async (template: NoteTemplate) => {
+    try {
+      await deleteTemplate(template.id);
+      setPendingDeleteId(null);
+      setMessage(`Deleted template "${template.name}"`);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete template';
+      setError(errorMessage);
+      console.error('Template delete error:', err);
+    }
+  };
+
+  /**
+   * Change the default template of a category
+   */
+  const handleCategoryTemplateChange = async (category: string, templateId: string) => {
+    try {
+      setError(null);
+      await setCategoryTemplate(category, templateId || null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save category template';
+      setError(errorMessage);
+      console.error('Category template error:', err);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 space-y-6 mt-8">
+      <div>
+        <h3 className="text-xl font-semibold text-white mb-2">Note Templates</h3>
+        <p className="text-gray-400 text-sm">
+          Templates are the instructions the language model follows when writing notes.
+          Recordings use their category's default unless you pick a template for them.
+        </p>
+      </div>
+
+      {message && !error && (
+        <div className="bg-green-900 border border-green-700 text-green-200 px-4 py-3 rounded text-sm">
+          {message}
+        </div>
+      )}
+      {error && (
+        <div className="bg-red-900 border border-red-700 text-red-200 px-4 py-3 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Editor */}
+      {editing ? (
+        <div className="bg-gray-900 rounded p-4 space-y-4">
+          <h4 className="text-sm font-medium text-gray-300">
+            {editing.id ? 'Edit template' : 'New template'}
+          </h4>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="template-name" className="block text-sm font-medium text-gray-300 mb-2">
+                Name
+              </label>
+              <input
+                id="template-name"
+                type="text"
+                value={editing.name}
+                onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div>
+              <label htmlFor="template-description" className="block text-sm font-medium text-gray-300 mb-2">
+                Description
+              </label>
+              <input
+                id="template-description"
+                type="text"
+                value={editing.description}
+                onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+                placeholder="Optional"
+                className={INPUT_CLASS}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="template-instructions" className="block text-sm font-medium text-gray-300 mb-2">
+              Instructions
+            </label>
+            <textarea
+              id="template-instructions"
+              value={editing.instructions}
+              onChange={(e) => setEditing({ ...editing, instructions: e.target.value })}
+              rows={12}
+              className={`${INPUT_CLASS} font-mono text-sm`}
+            />
+            <p className="text-gray-500 text-xs mt-2">
+              Variables:{' '}
+              {TEMPLATE_VARIABLES.map((variable, index) => (
+                <span key={variable.name}>
+                  {index > 0 && ', '}
+                  <code className="text-gray-300">{`{{${variable.name}}}`}</code> ({variable.description.toLowerCase()})
+                </span>
+              ))}
+            </p>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded font-medium transition-colors"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => setEditing(null)}
+              className="bg-gray-600 hover:bg-gray-700 text-white px-6 py-2 rounded font-medium transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => startEditing({ id: '', name: '', description: '', instructions: '' })}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded font-medium transition-colors"
+        >
+          + New Template
+        </button>
+      )}
+
+      {/* Template list */}
+      {templates === undefined ? (
+        <p className="text-gray-400 text-sm">Loading...</p>
+      ) : (
+        <ul className="space-y-2">
+          {templates.map((template) => (
+            <li key={template.id} className="bg-gray-900 rounded px-3 py-2 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <button
+                  onClick={() => setExpandedId(expandedId === template.id ? null : template.id)}
+                  className="text-left flex-1 min-w-0"
+                >
+                  <span className="text-gray-200">{template.name}</span>
+                  {template.builtIn && (
+                    <span className="ml-2 text-xs bg-gray-700 text-gray-300 px-2 py-0.5 rounded">Built-in</span>
+                  )}
+                  {template.id === DEFAULT_TEMPLATE.id && (
+                    <span className="ml-2 text-xs bg-blue-900 text-blue-200 px-2 py-0.5 rounded">Default</span>
+                  )}
+                  {template.description && (
+                    <span className="block text-gray-500 text-xs truncate">{template.description}</span>
+                  )}
+                </button>
+
+                {pendingDeleteId === template.id ? (
+                  <div className="flex items-center gap-2">
+                    <span className="text-red-300">Delete?</span>
+                    <button
+                      onClick={() => handleDelete(template)}
+                      className="bg-red-600 hover:bg-red-700 text-white px-3 py-1 rounded"
+                    >
+                      Confirm
+                    </button>
+                    <button
+                      onClick={() => setPendingDeleteId(null)}
+                      className="bg-gray-600 hover:bg-gray-700 text-white px-3 py-1 rounded"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex gap-3">
+                    {!template.builtIn && (
+                      <button
+                        onClick={() => startEditing(template)}
+                        className="text-blue-400 hover:text-blue-300"
+                      >
+                        Edit
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleDuplicate(template)}
+                      className="text-blue-400 hover:text-blue-300"
+                    >
+                      Duplicate
+                    </button>
+                    {!template.builtIn && (
+                      <button
+                        onClick={() => setPendingDeleteId(template.id)}
+                        className="text-red-400 hover:text-red-300"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {expandedId === template.id && (
+                <pre className="mt-2 whitespace-pre-wrap text-gray-400 text-xs font-mono bg-gray-800 rounded p-3">
+                  {template.instructions}
+                </pre>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Category defaults */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-300 mb-2">Category Defaults</h4>
+        {!categories || categories.length === 0 ? (
+          <p className="text-gray-500 text-sm">
+            No categories yet. Assign a category to a recording to give it a default template.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {categories.map((category) => (
+              <li key={category} className="flex items-center justify-between gap-4 text-sm">
+                <span className="text-gray-200">{category}</span>
+                <select
+                  value={categoryTemplates?.get(category) || ''}
+                  onChange={(e) => handleCategoryTemplateChange(category, e.target.value)}
+                  aria-label={`Default template for ${category}`}
+                  className="bg-gray-700 text-white px-3 py-1 rounded border border-gray-600 focus:outline-none focus:border-blue-500"
+                >
+                  <option value="">{DEFAULT_TEMPLATE.name} (app default)</option>
+                  {templates?.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.name}
+                    </option>
+                  ))}
+                </select>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+/**
+ * Transcript Viewer Component
+ *
+ * Interactive transcript built from timestamped segments:
+ * - Clicking a segment seeks the audio player to that point
+ * - The segment being played is highlighted and kept in view
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { TranscriptSegment } from '../types';
+import { formatTimestamp } from '../services/formatters';
+
+interface TranscriptViewerProps {
+  segments: TranscriptSegment[];
+  audioRef: React.RefObject<HTMLAudioElement>;
+}
+
+/**
+ * Find the segment playing at a given time
+ * Segments are sorted by start time, so a binary search is enough
+ * @returns Index of the segment, or -1 if none is playing (before the
+ * first segment or in a silence between segments)
+ */
+const findActiveSegment = (segments: TranscriptSegment[], time: number): number => {
+  let low = 0;
+  let high = segments.length - 1;
+  let result = -1;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (segments[mid].start <= time) {
+      result = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  // Past the end of the last segment to start: nothing is being said
+  return result !== -1 && time > segments[result].end ? -1 : result;
+};
+
+export const TranscriptViewer: React.FC<TranscriptViewerProps> = ({ segments, audioRef }) => {
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  // Refs for auto-scrolling the active segment into view
+  const containerRef = useRef<HTMLDivElement>(null);
+  const segmentRefs = useRef<(HTMLSpanElement | null)[]>([]);
+
+  /**
+   * Track playback position and update the highlighted segment
+   */
+  useEffect(() => {
+    const audioElement = audioRef.current;
+    if (!audioElement) return;
+
+    const handleTimeUpdate = () => {
+      setActiveIndex(findActiveSegment(segments, audioElement.currentTime));
+    };
+
+    handleTimeUpdate();
+    audioElement.addEventListener('timeupdate', handleTimeUpdate);
+    audioElement.addEventListener('seeked', handleTimeUpdate);
+
+    return () => {
+      audioElement.removeEventListener('timeupdate', handleTimeUpdate);
+      audioElement.removeEventListener('seeked', handleTimeUpdate);
+    };
+  }, [audioRef, segments]);
+
+  /**
+   * Keep the active segment centered while audio is playing
+   * Only the transcript container scrolls, not the whole page
+   */
+  useEffect(() => {
+    const container = containerRef.current;
+    const element = segmentRefs.current[activeIndex];
+    if (!container || !element || audioRef.current?.paused) return;
+
+    const target = element.offsetTop - container.clientHeight / 2 + element.clientHeight / 2;
+    container.scrollTo({ top: Math.max(0, target), behavior: 'smooth' });
+  }, [activeIndex, audioRef]);
+
+  /**
+   * Seek the player to a segment and start playback
+   */
+  const handleSeek = (segment: TranscriptSegment) => {
+    const audioElement = audioRef.current;
+    if (!audioElement) return;
+
+    audioElement.currentTime = segment.start;
+    audioElement.play().catch((error) => {
+      console.error('Error starting playback:', error);
+    });
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative max-h-96 overflow-y-auto text-gray-300 text-sm leading-relaxed"
+    >
+      {segments.map((segment, index) => (
+        <span
+          key={`${segment.start}-${index}`}
+          ref={(element) => {
+            segmentRefs.current[index] = element;
+          }}
+          onClick={() => handleSeek(segment)}
+          title={`Play from ${formatTimestamp(segment.start)}`}
+          className={`cursor-pointer rounded px-0.5 transition-colors ${
+            index === activeIndex
+              ? 'bg-blue-900 text-white'
+              : 'hover:bg-gray-800 hover:text-white'
+          }`}
+        >
+          {segment.text}{' '}
+        </span>
+      ))}
+    </div>
+  );
+};
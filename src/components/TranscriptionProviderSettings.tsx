@@ -0,0 +1,197 @@
+/**
+ * Transcription Provider Settings Component
+ *
+ * Settings section for choosing the speech-to-text backend:
+ * OpenAI, a self-hosted OpenAI-compatible server, or the mock provider.
+ */
+
+import React, { useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { TranscriptionProviderId, TranscriptionSettings } from '../types';
+import { TRANSCRIPTION_PROVIDER_OPTIONS } from '../services/transcription';
+
+// Shared input styling
+const INPUT_CLASS =
+  'w-full bg-gray-700 text-white px-4 py-2 rounded border border-gray-600 focus:outline-none focus:border-blue-500';
+
+export const TranscriptionProviderSettings: React.FC = () => {
+  const { transcriptionSettings, setTranscriptionSettings } = useAppContext();
+
+  // Edited copy of the settings, saved explicitly
+  const [draft, setDraft] = useState<TranscriptionSettings>(transcriptionSettings);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const selectedOption = TRANSCRIPTION_PROVIDER_OPTIONS.find((option) => option.id === draft.provider);
+
+  /**
+   * Update a single field of the draft
+   */
+  const updateDraft = <K extends keyof TranscriptionSettings>(key: K, value: TranscriptionSettings[K]) => {
+    setDraft({ ...draft, [key]: value });
+    setError(null);
+    setMessage(null);
+  };
+
+  /**
+   * Switch provider, filling in the usual model name for OpenAI
+   */
+  const handleProviderChange = (provider: TranscriptionProviderId) => {
+    setDraft({
+      ...draft,
+      provider,
+      model: provider === 'openai' && !draft.model ? 'whisper-1' : draft.model,
+    });
+    setError(null);
+    setMessage(null);
+  };
+
+  /**
+   * Validate and save the settings
+   */
+  const handleSave = () => {
+    if (draft.provider === 'openai-compatible') {
+      if (!draft.baseUrl.trim()) {
+        setError('Server URL cannot be empty');
+        return;
+      }
+      try {
+        new URL(draft.baseUrl.trim());
+      } catch {
+        setError('Server URL must be a full URL, e.g. http://localhost:8000/v1');
+        return;
+      }
+      if (!draft.model.trim()) {
+        setError('Model cannot be empty');
+        return;
+      }
+    }
+
+    setTranscriptionSettings({
+      ...draft,
+      baseUrl: draft.baseUrl.trim(),
+      apiKey: draft.apiKey.trim(),
+      model: draft.model.trim(),
+      language: draft.language.trim().toLowerCase(),
+    });
+    setMessage('Transcription settings saved');
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 space-y-6 mt-8">
+      <div>
+        <h3 className="text-xl font-semibold text-white mb-2">Transcription</h3>
+        <p className="text-gray-400 text-sm">
+          Choose which speech-to-text service transcribes your recordings.
+        </p>
+      </div>
+
+      {/* Provider */}
+      <div>
+        <label htmlFor="transcription-provider" className="block text-sm font-medium text-gray-300 mb-2">
+          Provider
+        </label>
+        <select
+          id="transcription-provider"
+          value={draft.provider}
+          onChange={(e) => handleProviderChange(e.target.value as TranscriptionProviderId)}
+          className={INPUT_CLASS}
+        >
+          {TRANSCRIPTION_PROVIDER_OPTIONS.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {selectedOption && (
+          <p className="text-gray-500 text-xs mt-2">{selectedOption.description}</p>
+        )}
+      </div>
+
+      {/* Server connection (compatible servers only) */}
+      {draft.provider === 'openai-compatible' && (
+        <>
+          <div>
+            <label htmlFor="transcription-url" className="block text-sm font-medium text-gray-300 mb-2">
+              Server URL
+            </label>
+            <p className="text-gray-500 text-xs mb-2">
+              Base URL of the API, including the version path. The server must allow
+              requests from this site (CORS).
+            </p>
+            <input
+              id="transcription-url"
+              type="url"
+              value={draft.baseUrl}
+              onChange={(e) => updateDraft('baseUrl', e.target.value)}
+              placeholder="http://localhost:8000/v1"
+              className={INPUT_CLASS}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="transcription-key" className="block text-sm font-medium text-gray-300 mb-2">
+              API Key (optional)
+            </label>
+            <input
+              id="transcription-key"
+              type="password"
+              value={draft.apiKey}
+              onChange={(e) => updateDraft('apiKey', e.target.value)}
+              placeholder="Leave empty if the server doesn't require one"
+              className={INPUT_CLASS}
+            />
+          </div>
+        </>
+      )}
+
+      {/* Model and language (not used by the mock provider) */}
+      {draft.provider !== 'mock' && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="transcription-model" className="block text-sm font-medium text-gray-300 mb-2">
+              Model
+            </label>
+            <input
+              id="transcription-model"
+              type="text"
+              value={draft.model}
+              onChange={(e) => updateDraft('model', e.target.value)}
+              placeholder={draft.provider === 'openai' ? 'whisper-1' : 'e.g., Systran/faster-whisper-small'}
+              className={INPUT_CLASS}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="transcription-language" className="block text-sm font-medium text-gray-300 mb-2">
+              Language
+            </label>
+            <input
+              id="transcription-language"
+              type="text"
+              value={draft.language}
+              onChange={(e) => updateDraft('language', e.target.value)}
+              placeholder="Auto-detect"
+              maxLength={3}
+              className={INPUT_CLASS}
+            />
+            <p className="text-gray-500 text-xs mt-1">
+              Two-letter code such as "en" or "de". Leave empty to auto-detect.
+            </p>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-4">
+        <button
+          onClick={handleSave}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded font-medium transition-colors"
+        >
+          Save
+        </button>
+        {error && <p className="text-red-400 text-sm">{error}</p>}
+        {message && !error && <p className="text-green-400 text-sm">✓ {message}</p>}
+      </div>
+    </div>
+  );
+};
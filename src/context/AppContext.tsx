@@ -3,6 +3,8 @@
  *
  * Manages app-wide state including:
  * - API keys (OpenAI and Anthropic)
+ * - Transcription and notes provider settings
+ * - Background job queue (started on mount) and its concurrency
  * - Page navigation
  * - Recording status
  *
@@ -11,8 +13,20 @@
  */
 
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { AppContextType } from '../types';
-import { getOpenAIKey, getAnthropicKey, setOpenAIKey as saveOpenAIKey, setAnthropicKey as saveAnthropicKey } from '../services/apiKeyManager';
+import { AppContextType, AppPage, TranscriptionSettings, NotesSettings } from '../types';
+import {
+  getOpenAIKey,
+  getAnthropicKey,
+  setOpenAIKey as saveOpenAIKey,
+  setAnthropicKey as saveAnthropicKey,
+  getTranscriptionSettings,
+  setTranscriptionSettings as saveTranscriptionSettings,
+  getNotesSettings,
+  setNotesSettings as saveNotesSettings,
+  getJobConcurrency,
+  setJobConcurrency as saveJobConcurrency,
+} from '../services/apiKeyManager';
+import { startJobQueue, processJobs } from '../services/jobQueue';
 
 // Create the context with undefined as default (will be provided by AppProvider)
 const AppContext = createContext<AppContextType | undefined>(undefined);
@@ -31,8 +45,19 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
   const [openaiKey, setOpenAIKeyState] = useState<string | null>(null);
   const [anthropicKey, setAnthropicKeyState] = useState<string | null>(null);
 
+  // Transcription backend - loaded from localStorage on first render
+  const [transcriptionSettings, setTranscriptionSettingsState] = useState<TranscriptionSettings>(
+    getTranscriptionSettings
+  );
+
+  // Notes backend - loaded from localStorage on first render
+  const [notesSettings, setNotesSettingsState] = useState<NotesSettings>(getNotesSettings);
+
+  // Background jobs run at once - loaded from localStorage on first render
+  const [jobConcurrency, setJobConcurrencyState] = useState<number>(getJobConcurrency);
+
   // Navigation state
-  const [currentPage, setCurrentPage] = useState<'home' | 'settings'>('home');
+  const [currentPage, setCurrentPage] = useState<AppPage>('home');
 
   // Recording state
   const [isRecording, setIsRecording] = useState(false);
@@ -47,6 +72,11 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     setAnthropicKeyState(loadedAnthropicKey);
   }, []);
 
+  // Resume background jobs left over from the last visit
+  useEffect(() => {
+    startJobQueue();
+  }, []);
+
   /**
    * Sets OpenAI API key in both state and localStorage
    */
@@ -63,10 +93,36 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     setAnthropicKeyState(key);
   };
 
+  /**
+   * Sets transcription settings in both state and localStorage
+   */
+  const setTranscriptionSettings = (settings: TranscriptionSettings) => {
+    saveTranscriptionSettings(settings);
+    setTranscriptionSettingsState(settings);
+  };
+
+  /**
+   * Sets notes settings in both state and localStorage
+   */
+  const setNotesSettings = (settings: NotesSettings) => {
+    saveNotesSettings(settings);
+    setNotesSettingsState(settings);
+  };
+
+  /**
+   * Sets job concurrency in both state and localStorage
+   * Extra slots are filled straight away
+   */
+  const setJobConcurrency = (value: number) => {
+    saveJobConcurrency(value);
+    setJobConcurrencyState(value);
+    processJobs();
+  };
+
   /**
    * Navigate to a different page
    */
-  const navigateTo = (page: 'home' | 'settings') => {
+  const navigateTo = (page: AppPage) => {
     setCurrentPage(page);
   };
 
@@ -76,6 +132,12 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     anthropicKey,
     setOpenAIKey,
     setAnthropicKey,
+    transcriptionSettings,
+    setTranscriptionSettings,
+    notesSettings,
+    setNotesSettings,
+    jobConcurrency,
+    setJobConcurrency,
     currentPage,
     navigateTo,
     isRecording,
@@ -1,13 +1,44 @@
 /**
  * API Key Manager
  *
- * Handles storage and retrieval of API keys using localStorage.
+ * Handles storage and retrieval of API keys and provider settings
+ * using localStorage.
  * For MVP, this is acceptable security. In production, use a backend proxy.
  */
 
+import { TranscriptionSettings, NotesSettings, AudioSource } from '../types';
+
 // localStorage keys
 const OPENAI_KEY_STORAGE = 'dozey_openai_key';
 const ANTHROPIC_KEY_STORAGE = 'dozey_anthropic_key';
+const TRANSCRIPTION_SETTINGS_STORAGE = 'dozey_transcription_settings';
+const NOTES_SETTINGS_STORAGE = 'dozey_notes_settings';
+const JOB_CONCURRENCY_STORAGE = 'dozey_job_concurrency';
+const RECORDING_SOURCE_STORAGE = 'dozey_recording_source';
+
+// Background jobs run at once unless the user changes it
+export const DEFAULT_JOB_CONCURRENCY = 2;
+
+// Used until the user picks a transcription backend
+export const DEFAULT_TRANSCRIPTION_SETTINGS: TranscriptionSettings = {
+  provider: 'openai',
+  baseUrl: '',
+  apiKey: '',
+  model: 'whisper-1',
+  language: 'en',
+};
+
+// Used until the user picks a notes backend
+export const DEFAULT_NOTES_SETTINGS: NotesSettings = {
+  provider: 'anthropic',
+  baseUrl: '',
+  apiKey: '',
+  models: {
+    anthropic: { model: 'claude-sonnet-4-5-20250929', temperature: 1, maxTokens: 4096, contextTokens: 200000 },
+    'openai-compatible': { model: '', temperature: 0.3, maxTokens: 4096, contextTokens: 8192 },
+    fake: { model: 'fake', temperature: 0, maxTokens: 4096, contextTokens: 8192 },
+  },
+};
 
 /**
  * Get OpenAI API key from localStorage
@@ -60,3 +91,100 @@ export const validateOpenAIKey = (key: string): boolean => {
 export const validateAnthropicKey = (key: string): boolean => {
   return key.trim().startsWith('sk-ant-');
 };
+
+/**
+ * Get transcription settings from localStorage
+ * Missing or unreadable settings fall back to the defaults
+ * @returns Stored settings merged over the defaults
+ */
+export const getTranscriptionSettings = (): TranscriptionSettings => {
+  const stored = localStorage.getItem(TRANSCRIPTION_SETTINGS_STORAGE);
+  if (!stored) {
+    return DEFAULT_TRANSCRIPTION_SETTINGS;
+  }
+
+  try {
+    return { ...DEFAULT_TRANSCRIPTION_SETTINGS, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error('Error reading transcription settings:', error);
+    return DEFAULT_TRANSCRIPTION_SETTINGS;
+  }
+};
+
+/**
+ * Save transcription settings to localStorage
+ * @param settings - The settings to save
+ */
+export const setTranscriptionSettings = (settings: TranscriptionSettings): void => {
+  localStorage.setItem(TRANSCRIPTION_SETTINGS_STORAGE, JSON.stringify(settings));
+};
+
+/**
+ * Get note generation settings from localStorage
+ * Missing or unreadable settings fall back to the defaults
+ * @returns Stored settings merged over the defaults
+ */
+export const getNotesSettings = (): NotesSettings => {
+  const stored = localStorage.getItem(NOTES_SETTINGS_STORAGE);
+  if (!stored) {
+    return DEFAULT_NOTES_SETTINGS;
+  }
+
+  try {
+    const parsed = JSON.parse(stored) as Partial<NotesSettings>;
+    // Merge per-provider model settings individually so providers
+    // added later still get their defaults
+    const models = { ...DEFAULT_NOTES_SETTINGS.models };
+    for (const [id, modelSettings] of Object.entries(parsed.models || {})) {
+      if (id in models) {
+        models[id as keyof typeof models] = { ...models[id as keyof typeof models], ...modelSettings };
+      }
+    }
+    return { ...DEFAULT_NOTES_SETTINGS, ...parsed, models };
+  } catch (error) {
+    console.error('Error reading notes settings:', error);
+    return DEFAULT_NOTES_SETTINGS;
+  }
+};
+
+/**
+ * Save note generation settings to localStorage
+ * @param settings - The settings to save
+ */
+export const setNotesSettings = (settings: NotesSettings): void => {
+  localStorage.setItem(NOTES_SETTINGS_STORAGE, JSON.stringify(settings));
+};
+
+/**
+ * Get how many background processing jobs may run at once
+ * @returns Stored value, or the default if missing or invalid
+ */
+export const getJobConcurrency = (): number => {
+  const stored = Number(localStorage.getItem(JOB_CONCURRENCY_STORAGE));
+  return Number.isInteger(stored) && stored >= 1 ? stored : DEFAULT_JOB_CONCURRENCY;
+};
+
+/**
+ * Save how many background processing jobs may run at once
+ * @param concurrency - Number of jobs (1 or more)
+ */
+export const setJobConcurrency = (concurrency: number): void => {
+  localStorage.setItem(JOB_CONCURRENCY_STORAGE, String(concurrency));
+};
+
+/**
+ * Get the audio source last chosen for recording
+ * @returns Stored source, or the microphone if missing or invalid
+ */
+export const getRecordingSource = (): AudioSource => {
+  const stored = localStorage.getItem(RECORDING_SOURCE_STORAGE);
+  return stored === 'tab' || stored === 'both' ? stored : 'microphone';
+};
+
+/**
+ * Save the audio source to record from
+ * @param source - Audio source
+ */
+export const setRecordingSource = (source: AudioSource): void => {
+  localStorage.setItem(RECORDING_SOURCE_STORAGE, source);
+};
@@ -0,0 +1,248 @@
+/**
+ * Audio Chunker Service
+ *
+ * Splits long recordings into overlapping WAV chunks small enough for the
+ * Whisper API, and stitches the resulting transcripts back together.
+ */
+
+import { TranscriptSegment } from '../types';
+
+// Whisper rejects uploads above 25MB
+export const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+// Chunks are re-encoded as 16kHz mono 16-bit PCM (~1.9MB per minute),
+// so 10 minutes per chunk stays comfortably below the upload limit
+export const TARGET_SAMPLE_RATE = 16000;
+const CHUNK_SECONDS = 600;
+
+// Neighbouring chunks share a few seconds of audio so that words cut off
+// at a boundary are fully contained in at least one chunk
+const OVERLAP_SECONDS = 5;
+
+// Longest run of words compared when removing duplicates at a seam
+const MAX_SEAM_WORDS = 40;
+
+// A single piece of a longer recording
+export interface AudioChunk {
+  index: number;            // Zero-based position in the recording
+  blob: Blob;               // WAV-encoded audio for this chunk
+  startTime: number;        // Offset of the chunk in the recording (seconds)
+  endTime: number;          // End of the chunk in the recording (seconds)
+}
+
+/**
+ * Check whether a blob has to be split before uploading
+ * @param audioBlob - Audio to check
+ * @param maxBytes - Upload limit of the transcription provider
+ * @returns true if the blob exceeds the upload limit
+ */
+export const needsChunking = (audioBlob: Blob, maxBytes: number = MAX_UPLOAD_BYTES): boolean => {
+  return audioBlob.size > maxBytes;
+};
+
+/**
+ * Encode mono PCM samples as a 16-bit WAV file
+ * @param samples - Mono samples in the range [-1, 1]
+ * @param sampleRate - Sample rate of the samples
+ * @returns WAV Blob
+ */
+export const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const bytesPerSample = 2;
+  const dataSize = samples.length * bytesPerSample;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  // RIFF header
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+
+  // fmt chunk: PCM, mono, 16-bit
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * bytesPerSample, true);
+  view.setUint16(32, bytesPerSample, true);
+  view.setUint16(34, 16, true);
+
+  // data chunk
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < samples.length; i++) {
+    const clamped = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(offset, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+    offset += bytesPerSample;
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+/**
+ * Decode an audio blob to 16kHz mono samples
+ * Decoding through an OfflineAudioContext resamples to its rate,
+ * which keeps memory usage manageable for multi-hour recordings
+ * @param audioBlob - Encoded audio (WebM, Ogg, MP3, ...) or a video's audio track
+ * @returns Mono samples at TARGET_SAMPLE_RATE
+ * @throws Error if the audio cannot be decoded
+ */
+export const decodeToMono = async (audioBlob: Blob): Promise<Float32Array> => {
+  const arrayBuffer = await audioBlob.arrayBuffer();
+  const context = new OfflineAudioContext(1, 1, TARGET_SAMPLE_RATE);
+
+  let audioBuffer: AudioBuffer;
+  try {
+    audioBuffer = await context.decodeAudioData(arrayBuffer);
+  } catch (error) {
+    console.error('Error decoding audio:', error);
+    throw new Error('Failed to decode audio. The file format may not be supported.');
+  }
+
+  if (audioBuffer.numberOfChannels === 1) {
+    return audioBuffer.getChannelData(0);
+  }
+
+  // Downmix all channels by averaging
+  const mono = new Float32Array(audioBuffer.length);
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    const data = audioBuffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / audioBuffer.numberOfChannels;
+    }
+  }
+  return mono;
+};
+
+/**
+ * Split a recording into overlapping WAV chunks
+ * @param audioBlob - Full recording
+ * @returns Promise resolving to chunks in playback order
+ * @throws Error if the audio cannot be decoded
+ */
+export const splitAudioIntoChunks = async (audioBlob: Blob): Promise<AudioChunk[]> => {
+  const samples = await decodeToMono(audioBlob);
+  const totalSeconds = samples.length / TARGET_SAMPLE_RATE;
+  const step = CHUNK_SECONDS - OVERLAP_SECONDS;
+
+  const chunks: AudioChunk[] = [];
+  for (let start = 0; start < totalSeconds; start += step) {
+    const end = Math.min(start + CHUNK_SECONDS, totalSeconds);
+    const slice = samples.subarray(
+      Math.floor(start * TARGET_SAMPLE_RATE),
+      Math.floor(end * TARGET_SAMPLE_RATE)
+    );
+
+    chunks.push({
+      index: chunks.length,
+      blob: encodeWav(slice, TARGET_SAMPLE_RATE),
+      startTime: start,
+      endTime: end,
+    });
+
+    // Last chunk reached the end of the recording
+    if (end >= totalSeconds) {
+      break;
+    }
+  }
+
+  return chunks;
+};
+
+/**
+ * Normalize a word for seam comparison (case and punctuation insensitive)
+ */
+const normalizeWord = (word: string): string => {
+  return word.toLowerCase().replace(/[^\w']/g, '');
+};
+
+/**
+ * Remove the words at the start of `next` that repeat the end of `previous`
+ * Finds the longest run of words ending `previous` that also starts `next`
+ * @param previous - Text from the earlier chunk
+ * @param next - Text from the following chunk
+ * @returns `next` without the duplicated words
+ */
+const trimOverlap = (previous: string, next: string): string => {
+  const prevWords = previous.trim().split(/\s+/).filter(Boolean);
+  const nextWords = next.trim().split(/\s+/).filter(Boolean);
+
+  if (prevWords.length === 0 || nextWords.length === 0) {
+    return nextWords.join(' ');
+  }
+
+  const prevTail = prevWords.slice(-MAX_SEAM_WORDS).map(normalizeWord);
+  const nextHead = nextWords.slice(0, MAX_SEAM_WORDS).map(normalizeWord);
+
+  // The overlap may begin a few words into the next chunk if Whisper
+  // picked up a partial word at the very start, so allow a small offset.
+  // Single-word matches are ignored since they are usually coincidental.
+  let bestLength = 0;
+  let bestOffset = 0;
+  for (let offset = 0; offset <= 3; offset++) {
+    for (let length = Math.min(prevTail.length, nextHead.length - offset); length >= 2; length--) {
+      const tail = prevTail.slice(prevTail.length - length);
+      const head = nextHead.slice(offset, offset + length);
+      if (tail.every((word, i) => word === head[i])) {
+        if (length > bestLength) {
+          bestLength = length;
+          bestOffset = offset;
+        }
+        break;
+      }
+    }
+  }
+
+  const remaining = bestLength > 0 ? nextWords.slice(bestOffset + bestLength) : nextWords;
+  return remaining.join(' ');
+};
+
+/**
+ * Append a chunk's segments to the segments stitched so far
+ * Segment times are shifted from chunk-relative to recording-relative.
+ * The overlap is split at its midpoint: earlier segments starting after
+ * it and later segments starting before it are dropped, then any words
+ * still repeated across the seam are trimmed.
+ * @param stitched - Recording-relative segments from previous chunks
+ * @param chunkSegments - Chunk-relative segments returned for `chunk`
+ * @param chunk - The chunk the segments belong to
+ * @returns Combined recording-relative segments
+ */
+export const appendChunkSegments = (
+  stitched: TranscriptSegment[],
+  chunkSegments: TranscriptSegment[],
+  chunk: AudioChunk
+): TranscriptSegment[] => {
+  const shifted = chunkSegments.map((segment) => ({
+    text: segment.text.trim(),
+    start: segment.start + chunk.startTime,
+    end: segment.end + chunk.startTime,
+  }));
+
+  if (stitched.length === 0) {
+    return shifted;
+  }
+
+  const seam = chunk.startTime + OVERLAP_SECONDS / 2;
+  const kept = stitched.filter((segment) => segment.start < seam);
+  const incoming = shifted.filter((segment) => segment.start >= seam);
+
+  if (kept.length > 0 && incoming.length > 0) {
+    const trimmed = trimOverlap(kept[kept.length - 1].text, incoming[0].text);
+    if (trimmed) {
+      incoming[0] = { ...incoming[0], text: trimmed };
+    } else {
+      incoming.shift();
+    }
+  }
+
+  return [...kept, ...incoming];
+};
@@ -1,10 +1,22 @@
 /**
  * Audio Recorder Service
  *
- * Wrapper around MediaRecorder API for recording audio from microphone.
+ * Wrapper around MediaRecorder API for recording audio from the microphone,
+ * a browser tab (or the system, where the browser allows it), or both
+ * mixed together through Web Audio.
  * Handles permission requests, format selection, and recording lifecycle.
+ * Each chunk can also be handed to a callback as it arrives, so callers
+ * can save the recording incrementally.
  */
 
+import { AudioSource } from '../types';
+
+// One captured input, shown with its own level meter
+export interface SourceStream {
+  label: string;            // Display name (e.g., "Microphone")
+  stream: MediaStream;
+}
+
 /**
  * AudioRecorder class
  * Manages audio recording state and provides start/pause/resume/stop controls
@@ -12,28 +24,45 @@
 export class AudioRecorder {
   private mediaRecorder: MediaRecorder | null = null;
   private audioChunks: Blob[] = [];
-  private stream: MediaStream | null = null;
+  private stream: MediaStream | null = null;       // What is recorded
+  private sources: SourceStream[] = [];
+  private audioContext: AudioContext | null = null;  // Mixes tab and microphone audio
   private startTime: number = 0;
   private pausedDuration: number = 0;
   private pauseStartTime: number = 0;
 
   /**
-   * Request microphone permission and initialize MediaRecorder
+   * @param onChunk - Optional callback for each chunk of audio (about one
+   * per second), in order
+   */
+  constructor(private readonly onChunk?: (chunk: Blob) => void) {}
+
+  /**
+   * Request access to the chosen sources and initialize MediaRecorder
+   * @param source - What to record (tab audio asks the user to pick a tab)
    * @returns Promise resolving when recording is ready to start
-   * @throws Error if microphone permission denied or MediaRecorder not supported
+   * @throws Error if a permission is denied or MediaRecorder not supported
    */
-  async initialize(): Promise<void> {
+  async initialize(source: AudioSource = 'microphone'): Promise<void> {
+    // Ask for each input first; these errors are meant for the user
+    // (tab sharing goes first, as it must follow the click that started it)
     try {
-      // Request microphone access with audio constraints optimized for speech
-      this.stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          channelCount: 1,              // Mono audio (smaller file, good for speech)
-          sampleRate: 16000,             // 16kHz sample rate (optimal for Whisper)
-          echoCancellation: true,        // Remove echo
-          noiseSuppression: true,        // Reduce background noise
-          autoGainControl: true,         // Normalize volume
-        },
-      });
+      if (source !== 'microphone') {
+        this.sources.push({ label: 'Tab audio', stream: await this.requestTabAudio() });
+      }
+      if (source !== 'tab') {
+        this.sources.push({ label: 'Microphone', stream: await this.requestMicrophone() });
+      }
+    } catch (error) {
+      this.cleanup();
+      throw error;
+    }
+
+    try {
+      // The microphone alone is recorded directly; tab audio is routed
+      // through Web Audio, which also drops the shared video and keeps
+      // recording (silence) if the user stops sharing
+      this.stream = source === 'microphone' ? this.sources[0].stream : await this.mixSources();
 
       // Try different MIME types in order of preference
       // WebM with Opus codec is best supported and works well with Whisper
@@ -64,13 +93,34 @@ export class AudioRecorder {
       this.mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
           this.audioChunks.push(event.data);
+          this.onChunk?.(event.data);
         }
       };
 
     } catch (error) {
       // Clean up if initialization fails
       this.cleanup();
+      console.error('Error initializing audio recorder:', error);
+      throw new Error('Failed to initialize audio recorder');
+    }
+  }
 
+  /**
+   * Request microphone access with audio constraints optimized for speech
+   * @throws Error with a user-friendly message if access fails
+   */
+  private async requestMicrophone(): Promise<MediaStream> {
+    try {
+      return await navigator.mediaDevices.getUserMedia({
+        audio: {
+          channelCount: 1,              // Mono audio (smaller file, good for speech)
+          sampleRate: 16000,             // 16kHz sample rate (optimal for Whisper)
+          echoCancellation: true,        // Remove echo
+          noiseSuppression: true,        // Reduce background noise
+          autoGainControl: true,         // Normalize volume
+        },
+      });
+    } catch (error) {
       // Provide user-friendly error messages
       if (error instanceof Error) {
         if (error.name === 'NotAllowedError' || error.name === 'PermissionDeniedError') {
@@ -83,6 +133,51 @@ export class AudioRecorder {
     }
   }
 
+  /**
+   * Ask the user to share a tab (or screen) with its audio
+   * Browsers only offer audio through screen sharing, so a video track
+   * comes along; it is never recorded
+   * @throws Error with a user-friendly message if no audio is shared
+   */
+  private async requestTabAudio(): Promise<MediaStream> {
+    if (!navigator.mediaDevices.getDisplayMedia) {
+      throw new Error('This browser cannot record tab audio. Try Chrome or Edge.');
+    }
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'NotAllowedError') {
+        throw new Error('Tab sharing was cancelled. Choose the tab playing the lecture to record its audio.');
+      }
+      throw new Error('Failed to capture tab audio');
+    }
+
+    if (stream.getAudioTracks().length === 0) {
+      stream.getTracks().forEach((track) => track.stop());
+      throw new Error('No audio was shared. Choose a tab and turn on "Share tab audio" (or system audio) when sharing.');
+    }
+    return stream;
+  }
+
+  /**
+   * Mix all sources into one audio-only stream
+   */
+  private async mixSources(): Promise<MediaStream> {
+    const context = new AudioContext();
+    this.audioContext = context;
+
+    const destination = context.createMediaStreamDestination();
+    this.sources.forEach(({ stream }) => {
+      context.createMediaStreamSource(stream).connect(destination);
+    });
+
+    // May start suspended when created after the permission prompts
+    await context.resume();
+    return destination.stream;
+  }
+
   /**
    * Start recording audio
    * @throws Error if recorder not initialized
@@ -153,9 +248,8 @@ export class AudioRecorder {
           type: this.mediaRecorder!.mimeType,
         });
 
-        // Calculate actual recording duration (excluding paused time)
-        const totalTime = Date.now() - this.startTime;
-        const duration = Math.round((totalTime - this.pausedDuration) / 1000); // Convert to seconds
+        // Actual recording duration (excluding paused time)
+        const duration = this.getDuration();
 
         resolve({
           blob,
@@ -180,6 +274,32 @@ export class AudioRecorder {
     return this.stream;
   }
 
+  /**
+   * Get each captured input separately, for level meters
+   * @returns Sources, or an empty array if not initialized
+   */
+  getSourceStreams(): SourceStream[] {
+    return this.sources;
+  }
+
+  /**
+   * Get the format chunks are recorded in
+   * @returns MIME type, or an empty string if not initialized
+   */
+  getMimeType(): string {
+    return this.mediaRecorder?.mimeType || '';
+  }
+
+  /**
+   * Get how long has been recorded so far, excluding pauses
+   * @returns Duration in seconds
+   */
+  getDuration(): number {
+    const now = Date.now();
+    const currentPause = this.mediaRecorder?.state === 'paused' ? now - this.pauseStartTime : 0;
+    return Math.round((now - this.startTime - this.pausedDuration - currentPause) / 1000);
+  }
+
   /**
    * Get current recording state
    * @returns MediaRecorder state or 'inactive' if not initialized
@@ -192,11 +312,18 @@ export class AudioRecorder {
    * Clean up resources (stop tracks, clear references)
    */
   private cleanup(): void {
-    // Stop all audio tracks to release microphone
+    // Stop all tracks to release the microphone and end tab sharing
     if (this.stream) {
       this.stream.getTracks().forEach((track) => track.stop());
       this.stream = null;
     }
+    this.sources.forEach(({ stream }) => stream.getTracks().forEach((track) => track.stop()));
+    this.sources = [];
+
+    if (this.audioContext) {
+      this.audioContext.close();
+      this.audioContext = null;
+    }
 
     this.mediaRecorder = null;
     this.audioChunks = [];
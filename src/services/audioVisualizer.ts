@@ -2,7 +2,8 @@
  * Audio Visualizer Service
  *
  * Uses Web Audio API to analyze audio frequency data for visualization
- * Creates frequency bars animation during recording
+ * Creates frequency bars animation during recording, and reads the input
+ * level for level meters
  */
 
 /**
@@ -12,13 +13,14 @@
 export class AudioVisualizer {
   private audioContext: AudioContext | null = null;
   private analyserNode: AnalyserNode | null = null;
-  private dataArray: Uint8Array | null = null;
+  private dataArray: Uint8Array<ArrayBuffer> | null = null;
+  private levelArray: Uint8Array<ArrayBuffer> | null = null;  // Waveform samples for getLevel
   private animationFrameId: number | null = null;
   private isActive: boolean = false;
 
   /**
    * Initialize Web Audio API components
-   * @param stream - MediaStream from microphone
+   * @param stream - MediaStream from microphone (or another audio source)
    */
   initialize(stream: MediaStream): void {
     try {
@@ -40,6 +42,7 @@ export class AudioVisualizer {
       // Create array to hold frequency data
       const bufferLength = this.analyserNode.frequencyBinCount; // 128 bins
       this.dataArray = new Uint8Array(bufferLength);
+      this.levelArray = new Uint8Array(this.analyserNode.fftSize);
 
       // Connect microphone stream to analyser
       const source = this.audioContext.createMediaStreamSource(stream);
@@ -69,6 +72,26 @@ export class AudioVisualizer {
     return this.dataArray;
   }
 
+  /**
+   * Get the current input level (RMS of the waveform)
+   * @returns Level from 0 (silence) to 1 (full scale), or 0 if not initialized
+   */
+  getLevel(): number {
+    if (!this.analyserNode || !this.levelArray) {
+      return 0;
+    }
+
+    // Time domain samples are 0-255 with silence at 128
+    this.analyserNode.getByteTimeDomainData(this.levelArray);
+
+    let sumOfSquares = 0;
+    for (const value of this.levelArray) {
+      const sample = (value - 128) / 128;
+      sumOfSquares += sample * sample;
+    }
+    return Math.sqrt(sumOfSquares / this.levelArray.length);
+  }
+
   /**
    * Start visualization loop
    * Calls callback function with frequency data on each animation frame
@@ -128,6 +151,7 @@ export class AudioVisualizer {
     // Clear references
     this.analyserNode = null;
     this.dataArray = null;
+    this.levelArray = null;
   }
 
   /**
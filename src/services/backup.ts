@@ -0,0 +1,420 @@
+/**
+ * Library Backup Service
+ *
+ * Writes the whole library (recordings, audio, notes history, note
+ * templates, flashcards, quizzes and conversations) to a
+ * single .zip archive, and restores it into IndexedDB.
+ *
+ * Archive layout:
+ * - manifest.json        Format and schema version, creation time
+ * - recordings.json      Recording rows (audio replaced by a file path)
+ * - noteRevisions.json   Notes history rows
+ * - noteTemplates.json   User-defined note templates
+ * - categoryTemplates.json  Default template of each category
+ * - flashcards.json      Flashcards with their review schedule
+ * - quizzes.json         Generated quizzes
+ * - quizAttempts.json    Graded quiz attempts
+ * - conversations.json   Chats about recordings
+ * - audio/<id>.<ext>     One audio file per recording
+ *
+ * Backups made with an older database schema are upgraded on restore
+ * using the same per-record migrations as the Dexie upgrade path.
+ */
+
+import { Zip, ZipDeflate, ZipPassThrough, Unzip, UnzipInflate, strToU8, strFromU8 } from 'fflate';
+import {
+  Recording,
+  NoteRevision,
+  NoteTemplate,
+  CategoryTemplate,
+  Flashcard,
+  Quiz,
+  QuizAttempt,
+  Conversation,
+  RestoreMode,
+  RestoreResult,
+} from '../types';
+import { db, upgradeRecordingData, createInitialRevision, indexRecording } from './storage';
+
+// Identifies archives written by this app
+const BACKUP_FORMAT = 'dozey-backup';
+const BACKUP_FORMAT_VERSION = 1;
+
+// Contents of manifest.json
+interface BackupManifest {
+  format: string;
+  formatVersion: number;
+  schemaVersion: number;      // Dexie schema version the data was exported from
+  createdAt: string;
+  recordingCount: number;
+}
+
+// Recording row as stored in recordings.json
+type BackupRecording = Omit<Recording, 'audioBlob'> & { audioFile: string };
+
+/**
+ * Pick an audio file extension from a MIME type
+ */
+const getAudioExtension = (mimeType: string): string => {
+  const subtype = mimeType.split(';')[0].split('/')[1] || 'bin';
+  return subtype.replace(/^x-/, '').replace('mpeg', 'mp3');
+};
+
+/**
+ * Stream a Blob into a zip entry without loading it all at once
+ */
+const pushBlob = async (entry: ZipPassThrough, blob: Blob): Promise<void> => {
+  const reader = blob.stream().getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    entry.push(value);
+  }
+  entry.push(new Uint8Array(0), true);
+};
+
+/**
+ * Create a backup archive of the whole library
+ * @returns Promise resolving to the .zip Blob
+ * @throws Error if the archive cannot be created
+ */
+export const createBackup = async (): Promise<Blob> => {
+  try {
+    const recordings = await db.recordings.toArray();
+    const revisions = await db.noteRevisions.toArray();
+    const templates = await db.noteTemplates.toArray();
+    const categoryTemplates = await db.categoryTemplates.toArray();
+    const flashcards = await db.flashcards.toArray();
+    const quizzes = await db.quizzes.toArray();
+    const quizAttempts = await db.quizAttempts.toArray();
+    const conversations = await db.conversations.toArray();
+
+    const parts: Uint8Array[] = [];
+    let zipError: Error | null = null;
+    const zip = new Zip((error, data) => {
+      if (error) {
+        zipError = error;
+        return;
+      }
+      parts.push(data);
+    });
+
+    const addJson = (filename: string, value: unknown) => {
+      const entry = new ZipDeflate(filename, { level: 6 });
+      zip.add(entry);
+      entry.push(strToU8(JSON.stringify(value, null, 2)), true);
+    };
+
+    const manifest: BackupManifest = {
+      format: BACKUP_FORMAT,
+      formatVersion: BACKUP_FORMAT_VERSION,
+      schemaVersion: db.verno,
+      createdAt: new Date().toISOString(),
+      recordingCount: recordings.length,
+    };
+    addJson('manifest.json', manifest);
+
+    // Audio is already compressed, so it is stored without deflate
+    const backupRecordings: BackupRecording[] = [];
+    for (const { audioBlob, ...recording } of recordings) {
+      const audioFile = `audio/${recording.id}.${getAudioExtension(recording.mimeType)}`;
+      const entry = new ZipPassThrough(audioFile);
+      zip.add(entry);
+      await pushBlob(entry, audioBlob);
+      backupRecordings.push({ ...recording, audioFile });
+    }
+
+    addJson('recordings.json', backupRecordings);
+    addJson('noteRevisions.json', revisions);
+    addJson('noteTemplates.json', templates);
+    addJson('categoryTemplates.json', categoryTemplates);
+    addJson('flashcards.json', flashcards);
+    addJson('quizzes.json', quizzes);
+    addJson('quizAttempts.json', quizAttempts);
+    addJson('conversations.json', conversations);
+    zip.end();
+
+    if (zipError) {
+      throw zipError;
+    }
+
+    return new Blob(parts as BlobPart[], { type: 'application/zip' });
+  } catch (error) {
+    console.error('Error creating backup:', error);
+    throw new Error('Failed to create library backup');
+  }
+};
+
+/**
+ * Read every entry of a zip archive
+ * JSON entries are decoded to text, everything else becomes a Blob
+ */
+const readArchive = async (archive: Blob): Promise<{
+  texts: Map<string, string>;
+  blobs: Map<string, Blob>;
+}> => {
+  const texts = new Map<string, string>();
+  const blobs = new Map<string, Blob>();
+  const errors: Error[] = [];
+
+  const unzip = new Unzip((file) => {
+    const chunks: Uint8Array[] = [];
+    file.ondata = (error, data, final) => {
+      if (error) {
+        errors.push(error);
+        return;
+      }
+      chunks.push(data);
+      if (final) {
+        if (file.name.endsWith('.json')) {
+          const bytes = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+          let offset = 0;
+          for (const chunk of chunks) {
+            bytes.set(chunk, offset);
+            offset += chunk.length;
+          }
+          texts.set(file.name, strFromU8(bytes));
+        } else {
+          blobs.set(file.name, new Blob(chunks as BlobPart[]));
+        }
+      }
+    };
+    file.start();
+  });
+  unzip.register(UnzipInflate);
+
+  const reader = archive.stream().getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    unzip.push(value);
+  }
+  unzip.push(new Uint8Array(0), true);
+
+  if (errors.length > 0) {
+    throw errors[0];
+  }
+
+  return { texts, blobs };
+};
+
+/**
+ * Parse a JSON entry from the archive
+ */
+const parseEntry = <T>(texts: Map<string, string>, filename: string): T => {
+  const text = texts.get(filename);
+  if (text === undefined) {
+    throw new Error(`Backup is missing ${filename}`);
+  }
+  return JSON.parse(text) as T;
+};
+
+/**
+ * Convert a date field serialized as an ISO string back to a Date
+ */
+const reviveDate = (value: Date | string | undefined): Date | undefined => {
+  return value === undefined ? undefined : new Date(value);
+};
+
+/**
+ * Key used to detect the same recording in two libraries
+ * Recordings created at the same instant with the same length and audio size
+ * are treated as duplicates
+ */
+const getDuplicateKey = (recording: Pick<Recording, 'date' | 'duration'>, audioSize: number): string => {
+  return `${new Date(recording.date).getTime()}|${recording.duration}|${audioSize}`;
+};
+
+/**
+ * Restore a backup archive into the library
+ * @param archive - .zip file created by createBackup
+ * @param mode - 'merge' keeps the current library, 'replace' deletes it first
+ * @returns Promise resolving to counts of imported and skipped recordings
+ * @throws Error if the file is not a valid backup
+ */
+export const restoreBackup = async (archive: Blob, mode: RestoreMode): Promise<RestoreResult> => {
+  let contents: Awaited<ReturnType<typeof readArchive>>;
+  try {
+    contents = await readArchive(archive);
+  } catch (error) {
+    console.error('Error reading backup:', error);
+    throw new Error('Could not read the backup file. Make sure it is a Dozey AI backup (.zip).');
+  }
+
+  const { texts, blobs } = contents;
+  const manifest = parseEntry<BackupManifest>(texts, 'manifest.json');
+  if (manifest.format !== BACKUP_FORMAT) {
+    throw new Error('This file is not a Dozey AI library backup.');
+  }
+  if (manifest.formatVersion > BACKUP_FORMAT_VERSION || manifest.schemaVersion > db.verno) {
+    throw new Error('This backup was created by a newer version of the app. Please update and try again.');
+  }
+
+  const backupRecordings = parseEntry<BackupRecording[]>(texts, 'recordings.json');
+  // Backups from before notes history have no revisions file
+  const backupRevisions = texts.has('noteRevisions.json')
+    ? parseEntry<NoteRevision[]>(texts, 'noteRevisions.json')
+    : [];
+  // Backups from before note templates have no template files
+  const backupTemplates = texts.has('noteTemplates.json')
+    ? parseEntry<NoteTemplate[]>(texts, 'noteTemplates.json')
+    : [];
+  const backupCategoryTemplates = texts.has('categoryTemplates.json')
+    ? parseEntry<CategoryTemplate[]>(texts, 'categoryTemplates.json')
+    : [];
+  const backupFlashcards = texts.has('flashcards.json')
+    ? parseEntry<Flashcard[]>(texts, 'flashcards.json')
+    : [];
+  const backupQuizzes = texts.has('quizzes.json')
+    ? parseEntry<Quiz[]>(texts, 'quizzes.json')
+    : [];
+  const backupQuizAttempts = texts.has('quizAttempts.json')
+    ? parseEntry<QuizAttempt[]>(texts, 'quizAttempts.json')
+    : [];
+  const backupConversations = texts.has('conversations.json')
+    ? parseEntry<Conversation[]>(texts, 'conversations.json')
+    : [];
+
+  try {
+    const tables = [
+      db.recordings,
+      db.noteRevisions,
+      db.searchPostings,
+      db.searchDocuments,
+      db.noteTemplates,
+      db.categoryTemplates,
+      db.flashcards,
+      db.quizzes,
+      db.quizAttempts,
+      db.conversations,
+      // Processing jobs aren't backed up; replacing the library drops them
+      db.jobs,
+    ];
+    return await db.transaction('rw', tables, async () => {
+      if (mode === 'replace') {
+        await Promise.all(tables.map((table) => table.clear()));
+      }
+
+      // Existing recordings used for duplicate detection in merge mode
+      const existingKeys = new Set<string>();
+      if (mode === 'merge') {
+        await db.recordings.each((recording) => {
+          existingKeys.add(getDuplicateKey(recording, recording.audioBlob.size));
+        });
+      }
+
+      // Templates keep their ids, so recordings still point at them. In
+      // merge mode a template edited here since the backup wins
+      const templates = backupTemplates.map((template) => ({
+        ...template,
+        updatedAt: reviveDate(template.updatedAt),
+      }));
+      const existingTemplates = mode === 'merge'
+        ? await db.noteTemplates.bulkGet(templates.map((template) => template.id))
+        : [];
+      await db.noteTemplates.bulkPut(templates.filter((template, index) => {
+        const existing = existingTemplates[index];
+        return !existing || (template.updatedAt?.getTime() ?? 0) > (existing.updatedAt?.getTime() ?? 0);
+      }));
+      for (const entry of backupCategoryTemplates) {
+        // Category defaults already set in this library win in merge mode
+        if (!(await db.categoryTemplates.get(entry.category))) {
+          await db.categoryTemplates.put(entry);
+        }
+      }
+
+      const result: RestoreResult = { imported: 0, skippedDuplicates: 0 };
+
+      for (const { audioFile, id: oldId, ...stored } of backupRecordings) {
+        const audioBlob = blobs.get(audioFile);
+        if (!audioBlob) {
+          throw new Error(`Backup is missing audio file ${audioFile}`);
+        }
+
+        const key = getDuplicateKey(stored, audioBlob.size);
+        if (existingKeys.has(key)) {
+          result.skippedDuplicates++;
+          continue;
+        }
+        existingKeys.add(key);
+
+        // Revive dates and bring the row up to the current schema
+        const recording = upgradeRecordingData({
+          ...stored,
+          date: new Date(stored.date),
+          lastModified: reviveDate(stored.lastModified),
+          exportedAt: reviveDate(stored.exportedAt),
+          audioBlob: new Blob([audioBlob], { type: stored.mimeType }),
+        }, manifest.schemaVersion);
+
+        const newId = await db.recordings.add(recording);
+        await indexRecording({ ...recording, id: newId });
+        result.imported++;
+
+        // Re-link notes history to the new id
+        const revisions = backupRevisions.filter((revision) => revision.recordingId === oldId);
+        if (revisions.length > 0) {
+          await db.noteRevisions.bulkAdd(revisions.map(({ id: _id, ...revision }) => ({
+            ...revision,
+            recordingId: newId,
+            createdAt: new Date(revision.createdAt),
+          })));
+        } else if (manifest.schemaVersion < 3) {
+          const initial = createInitialRevision({ ...recording, id: newId });
+          if (initial) {
+            await db.noteRevisions.add(initial);
+          }
+        }
+
+        // Re-link flashcards to the new id
+        const cards = backupFlashcards.filter((card) => card.recordingId === oldId);
+        if (cards.length > 0) {
+          await db.flashcards.bulkAdd(cards.map(({ id: _id, ...card }) => ({
+            ...card,
+            recordingId: newId,
+            createdAt: new Date(card.createdAt),
+            due: new Date(card.due),
+            lastReviewedAt: reviveDate(card.lastReviewedAt),
+          })));
+        }
+
+        // Re-link quizzes, then their attempts to the new quiz ids
+        for (const { id: oldQuizId, ...quiz } of backupQuizzes.filter((q) => q.recordingId === oldId)) {
+          const quizId = await db.quizzes.add({ ...quiz, recordingId: newId, createdAt: new Date(quiz.createdAt) });
+          const attempts = backupQuizAttempts.filter((attempt) => attempt.quizId === oldQuizId);
+          if (attempts.length > 0) {
+            await db.quizAttempts.bulkAdd(attempts.map(({ id: _id, ...attempt }) => ({
+              ...attempt,
+              quizId,
+              recordingId: newId,
+              completedAt: new Date(attempt.completedAt),
+            })));
+          }
+        }
+
+        // Re-link conversations to the new id
+        const conversations = backupConversations.filter((conversation) => conversation.recordingId === oldId);
+        if (conversations.length > 0) {
+          await db.conversations.bulkAdd(conversations.map(({ id: _id, ...conversation }) => ({
+            ...conversation,
+            recordingId: newId,
+            createdAt: new Date(conversation.createdAt),
+            updatedAt: new Date(conversation.updatedAt),
+            messages: conversation.messages.map((message) => ({
+              ...message,
+              createdAt: new Date(message.createdAt),
+            })),
+          })));
+        }
+      }
+
+      return result;
+    });
+  } catch (error) {
+    console.error('Error restoring backup:', error);
+    if (error instanceof Error && error.message.startsWith('Backup is missing')) {
+      throw error;
+    }
+    throw new Error('Failed to restore library backup');
+  }
+};
@@ -0,0 +1,153 @@
+/**
+ * Batch Actions Service
+ *
+ * Applies one action to many recordings: queueing transcription or notes,
+ * deleting, and bulk organization changes. Each recording is handled on
+ * its own, so one failure doesn't stop the rest of the batch; the result
+ * lists what happened to every recording.
+ */
+
+import { BatchAction, BatchItemResult, BatchResult, JobStep, Recording } from '../types';
+import { updateRecording, deleteRecording, getRecordingJob } from './storage';
+import { enqueueJob, cancelRecordingJob } from './jobQueue';
+
+/**
+ * Describe a batch action for display
+ * @param action - Action to describe
+ * @returns Short label, e.g. "Add tags #exam"
+ */
+export const describeBatchAction = (action: BatchAction): string => {
+  switch (action.type) {
+    case 'transcribe':
+      return 'Transcribe';
+    case 'generate_notes':
+      return 'Generate notes';
+    case 'regenerate_notes':
+      return 'Regenerate notes';
+    case 'delete':
+      return 'Delete';
+    case 'set_studied':
+      return action.isStudied ? 'Mark studied' : 'Mark not studied';
+    case 'add_tags':
+      return `Add tags ${action.tags.map((tag) => `#${tag}`).join(' ')}`;
+    case 'remove_tags':
+      return `Remove tags ${action.tags.map((tag) => `#${tag}`).join(' ')}`;
+    case 'set_category':
+      return action.category ? `Set category to ${action.category}` : 'Clear category';
+  }
+};
+
+/**
+ * Queue processing for a recording unless it is already queued
+ * @returns Outcome for the batch summary
+ */
+const queueSteps = async (recording: Recording & { id: number }, steps: JobStep[]): Promise<Omit<BatchItemResult, 'recordingId' | 'name'>> => {
+  const job = await getRecordingJob(recording.id);
+  if (job && job.status !== 'failed') {
+    return { outcome: 'skipped', message: 'Already queued for processing' };
+  }
+
+  await enqueueJob(recording.id, steps);
+  return { outcome: 'queued' };
+};
+
+/**
+ * Apply an action to one recording
+ * @returns Outcome for the batch summary
+ */
+const applyToRecording = async (
+  recording: Recording & { id: number },
+  action: BatchAction
+): Promise<Omit<BatchItemResult, 'recordingId' | 'name'>> => {
+  switch (action.type) {
+    case 'transcribe':
+      if (recording.transcript) {
+        return { outcome: 'skipped', message: 'Already transcribed' };
+      }
+      return queueSteps(recording, ['transcribe']);
+
+    case 'generate_notes':
+      if (recording.notes) {
+        return { outcome: 'skipped', message: 'Already has notes (use Regenerate notes)' };
+      }
+      return queueSteps(recording, recording.transcript ? ['notes'] : ['transcribe', 'notes']);
+
+    case 'regenerate_notes': {
+      const job = await getRecordingJob(recording.id);
+      if (job && job.status !== 'failed') {
+        return { outcome: 'skipped', message: 'Already queued for processing' };
+      }
+      if (action.templateId !== undefined) {
+        await updateRecording(recording.id, { templateId: action.templateId });
+      }
+      return queueSteps(recording, recording.transcript ? ['notes'] : ['transcribe', 'notes']);
+    }
+
+    case 'delete':
+      // Stop any processing first so it doesn't write to a deleted recording
+      await cancelRecordingJob(recording.id);
+      await deleteRecording(recording.id);
+      return { outcome: 'done' };
+
+    case 'set_studied':
+      await updateRecording(recording.id, { isStudied: action.isStudied });
+      return { outcome: 'done' };
+
+    case 'add_tags': {
+      const tags = recording.tags || [];
+      const added = action.tags.filter((tag) => !tags.includes(tag));
+      if (added.length === 0) {
+        return { outcome: 'skipped', message: 'Already tagged' };
+      }
+      await updateRecording(recording.id, { tags: [...tags, ...added] });
+      return { outcome: 'done' };
+    }
+
+    case 'remove_tags': {
+      // Any capitalization of a tag is removed
+      const removed = action.tags.map((tag) => tag.toLowerCase());
+      const tags = recording.tags || [];
+      const kept = tags.filter((tag) => !removed.includes(tag.toLowerCase()));
+      if (kept.length === tags.length) {
+        return { outcome: 'skipped', message: 'Has none of these tags' };
+      }
+      await updateRecording(recording.id, { tags: kept });
+      return { outcome: 'done' };
+    }
+
+    case 'set_category':
+      await updateRecording(recording.id, { category: action.category });
+      return { outcome: 'done' };
+  }
+};
+
+/**
+ * Apply an action to several recordings
+ * @param recordings - Recordings to act on
+ * @param action - Action to apply
+ * @param onProgress - Optional callback after each recording is handled
+ * @returns Promise resolving to what happened to each recording
+ */
+export const applyBatchAction = async (
+  recordings: Recording[],
+  action: BatchAction,
+  onProgress?: (done: number, total: number) => void
+): Promise<BatchResult> => {
+  const items: BatchItemResult[] = [];
+
+  for (const recording of recordings) {
+    if (recording.id === undefined) continue;
+
+    const base = { recordingId: recording.id, name: recording.customName || recording.filename };
+    try {
+      items.push({ ...base, ...(await applyToRecording({ ...recording, id: recording.id }, action)) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      items.push({ ...base, outcome: 'failed', message });
+      console.error(`Batch ${action.type} error:`, error);
+    }
+    onProgress?.(items.length, recordings.length);
+  }
+
+  return { label: describeBatchAction(action), items };
+};
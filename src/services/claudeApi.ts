@@ -1,109 +1,114 @@
 /**
  * Anthropic Claude API Service
  *
- * Handles note generation from transcripts using Claude Sonnet 3.5
+ * Notes provider backed by the Anthropic Messages API (streaming)
  */
 
 import Anthropic from '@anthropic-ai/sdk';
+import { NotesCompletion, NotesModelSettings, NotesProvider, NotesRequest, NotesStreamOptions } from '../types';
+import { TemporaryError } from './errors';
 
-// System prompt for educational note-taking
-const SYSTEM_PROMPT = `You are an expert educational assistant that converts lecture transcripts into well-structured study notes.
+/**
+ * Convert an API or network failure into a user-facing error
+ * @param error - Error thrown by the Anthropic SDK or fetch
+ * @returns Error with a message suitable for display
+ */
+const toNotesError = (error: unknown): Error => {
+  // Handle Anthropic SDK errors
+  if (error instanceof Anthropic.APIError) {
+    // Handle specific error codes
+    if (error.status === 401) {
+      return new Error('Invalid Anthropic API key. Please check your API key in Settings.');
+    } else if (error.status === 404) {
+      return new Error('Claude model not found. Please check the model name in Settings.');
+    } else if (error.status === 429) {
+      return new TemporaryError('Anthropic API rate limit exceeded. Please try again later.');
+    } else if (error.status === 400) {
+      return new Error('Invalid request to Claude API. The transcript may be too long or malformed.');
+    } else if (error.status === undefined || error.status >= 500) {
+      // Connection failures, overloaded or failing servers
+      return new TemporaryError(`Claude API error: ${error.message}`);
+    } else {
+      return new Error(`Claude API error: ${error.message}`);
+    }
+  }
 
-Your task is to:
-1. Identify the main topics and concepts discussed
-2. Organize information into clear sections with headings
-3. Extract key points, definitions, and important facts
-4. Highlight examples and explanations that aid understanding
-5. Create a logical flow that makes the material easy to review
+  // Handle network errors
+  if (error instanceof TypeError && error.message.includes('fetch')) {
+    return new TemporaryError('Network error. Please check your internet connection and try again.');
+  }
 
-Format your notes using Markdown with:
-- Clear section headings (## for main topics, ### for subtopics)
-- Bullet points for lists of concepts or facts
-- **Bold** for key terms and definitions
-- Code blocks for any technical content, formulas, or examples
-- Numbered lists for steps or sequences
+  // Re-throw error if it's already formatted
+  if (error instanceof Error) {
+    return error;
+  }
 
-Keep the notes concise but comprehensive. Focus on information that would be valuable for exam preparation and concept review.`;
+  // Generic error fallback
+  return new Error('Failed to generate notes. Please try again.');
+};
 
 /**
- * Generate study notes from transcript using Claude API
- * @param transcript - Lecture transcript text
+ * Create a notes provider backed by Claude
  * @param apiKey - Anthropic API key
- * @returns Promise resolving to formatted notes (Markdown)
- * @throws Error if note generation fails
+ * @param settings - Model, temperature and token limit
+ * @returns Provider that sends prompts to the Anthropic API
  */
-export const generateNotes = async (
-  transcript: string,
-  apiKey: string
-): Promise<string> => {
-  try {
-    // Validate input
-    if (!transcript || transcript.trim().length === 0) {
-      throw new Error('Cannot generate notes from empty transcript.');
-    }
-
-    // Initialize Anthropic client
-    // dangerouslyAllowBrowser: true is needed for client-side usage
-    // In production, this should go through a backend proxy
-    const anthropic = new Anthropic({
-      apiKey: apiKey,
-      dangerouslyAllowBrowser: true,
-    });
+export const createAnthropicNotesProvider = (
+  apiKey: string,
+  settings: NotesModelSettings
+): NotesProvider => {
+  // Initialize Anthropic client
+  // dangerouslyAllowBrowser: true is needed for client-side usage
+  // In production, this should go through a backend proxy
+  const anthropic = new Anthropic({
+    apiKey: apiKey,
+    dangerouslyAllowBrowser: true,
+  });
 
-    // Call Claude API
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-5-20250929',  // Claude Sonnet 4.5 (most recent version)
-      max_tokens: 4096,                      // Allow longer responses for detailed notes
-      system: SYSTEM_PROMPT,
-      messages: [
+  const complete = async (request: NotesRequest, options?: NotesStreamOptions): Promise<NotesCompletion> => {
+    try {
+      // Stream the response so text can be shown as it is generated
+      const stream = anthropic.messages.stream(
         {
-          role: 'user',
-          content: `Please convert this lecture transcript into well-structured study notes:\n\n${transcript}`,
+          model: settings.model,
+          max_tokens: settings.maxTokens,
+          temperature: settings.temperature,
+          system: request.system,
+          messages: [
+            ...(request.history || []),
+            { role: 'user', content: request.prompt },
+            // Prefilled assistant turn: Claude continues the text directly
+            ...(request.prefix ? [{ role: 'assistant' as const, content: request.prefix }] : []),
+          ],
         },
-      ],
-    });
+        { signal: options?.signal }
+      );
 
-    // Extract text from response
-    // Claude API returns an array of content blocks
-    let notes = '';
-    for (const block of response.content) {
-      if (block.type === 'text') {
-        notes += block.text;
+      if (options?.onText) {
+        stream.on('text', options.onText);
       }
-    }
-
-    if (!notes || notes.trim().length === 0) {
-      throw new Error('Claude returned empty notes. Please try again.');
-    }
 
-    return notes.trim();
+      const response = await stream.finalMessage();
 
-  } catch (error) {
-    // Handle Anthropic SDK errors
-    if (error instanceof Anthropic.APIError) {
-      // Handle specific error codes
-      if (error.status === 401) {
-        throw new Error('Invalid Anthropic API key. Please check your API key in Settings.');
-      } else if (error.status === 429) {
-        throw new Error('Anthropic API rate limit exceeded. Please try again later.');
-      } else if (error.status === 400) {
-        throw new Error('Invalid request to Claude API. The transcript may be too long or malformed.');
-      } else {
-        throw new Error(`Claude API error: ${error.message}`);
+      // Extract text from response
+      // Claude API returns an array of content blocks
+      let text = '';
+      for (const block of response.content) {
+        if (block.type === 'text') {
+          text += block.text;
+        }
       }
+      return { text, truncated: response.stop_reason === 'max_tokens' };
+    } catch (error) {
+      throw toNotesError(error);
     }
+  };
 
-    // Handle network errors
-    if (error instanceof TypeError && error.message.includes('fetch')) {
-      throw new Error('Network error. Please check your internet connection and try again.');
-    }
-
-    // Re-throw error if it's already formatted
-    if (error instanceof Error) {
-      throw error;
-    }
-
-    // Generic error fallback
-    throw new Error('Failed to generate notes. Please try again.');
-  }
+  return {
+    id: 'anthropic',
+    name: 'Claude',
+    contextTokens: settings.contextTokens,
+    maxTokens: settings.maxTokens,
+    complete,
+  };
 };
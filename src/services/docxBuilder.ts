@@ -0,0 +1,308 @@
+/**
+ * DOCX Builder Service
+ *
+ * Converts Markdown tokens into Word document paragraphs using the docx library.
+ * Covers the Markdown produced by note generation: headings, paragraphs,
+ * bullet and numbered lists, tables, code blocks, block quotes and math.
+ */
+
+import {
+  Document,
+  Packer,
+  Paragraph,
+  TextRun,
+  ExternalHyperlink,
+  Table,
+  TableRow,
+  TableCell,
+  WidthType,
+  HeadingLevel,
+  LevelFormat,
+  AlignmentType,
+  ParagraphChild,
+} from 'docx';
+import { Token, Tokens } from 'marked';
+import { lexMarkdown } from './markdown';
+
+// Numbering definition reference for ordered lists
+const NUMBERED_LIST = 'numbered-list';
+
+// Font used for code and TeX source
+const MONOSPACE_FONT = 'Consolas';
+
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+// Inline formatting inherited from enclosing tokens (e.g., bold inside a link)
+interface RunStyle {
+  bold?: boolean;
+  italics?: boolean;
+  strike?: boolean;
+  code?: boolean;
+}
+
+// A section of the exported document
+export interface DocxSection {
+  heading?: string;         // Optional level-1 heading for the section
+  markdown: string;         // Section body as Markdown
+}
+
+/**
+ * Decode the HTML entities marked leaves in inline text
+ */
+const decodeEntities = (text: string): string => {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+};
+
+/**
+ * Create a text run with the accumulated inline style
+ */
+const createRun = (text: string, style: RunStyle): TextRun => {
+  return new TextRun({
+    text: decodeEntities(text),
+    bold: style.bold,
+    italics: style.italics,
+    strike: style.strike,
+    font: style.code ? MONOSPACE_FONT : undefined,
+  });
+};
+
+/**
+ * Convert inline tokens to paragraph children
+ */
+const convertInline = (tokens: Token[] | undefined, style: RunStyle = {}): ParagraphChild[] => {
+  const children: ParagraphChild[] = [];
+
+  for (const token of tokens || []) {
+    switch (token.type) {
+      case 'strong':
+        children.push(...convertInline(token.tokens, { ...style, bold: true }));
+        break;
+      case 'em':
+        children.push(...convertInline(token.tokens, { ...style, italics: true }));
+        break;
+      case 'del':
+        children.push(...convertInline(token.tokens, { ...style, strike: true }));
+        break;
+      case 'codespan':
+      case 'inlineMath':
+        children.push(createRun(token.text, { ...style, code: true }));
+        break;
+      case 'br':
+        children.push(new TextRun({ text: '', break: 1 }));
+        break;
+      case 'link':
+        children.push(new ExternalHyperlink({
+          link: token.href,
+          children: convertInline(token.tokens, style).filter(
+            (child): child is TextRun => child instanceof TextRun
+          ),
+        }));
+        break;
+      case 'text':
+        // Text tokens inside list items may carry their own inline tokens
+        if (token.tokens && token.tokens.length > 0) {
+          children.push(...convertInline(token.tokens, style));
+        } else {
+          children.push(createRun(token.text, style));
+        }
+        break;
+      default:
+        if ('text' in token && typeof token.text === 'string') {
+          children.push(createRun(token.text, style));
+        }
+    }
+  }
+
+  return children;
+};
+
+/**
+ * Convert a list (and nested lists) to paragraphs
+ * Each ordered list gets its own numbering instance so numbering restarts
+ */
+const convertList = (
+  list: Tokens.List,
+  level: number,
+  nextInstance: () => number
+): Paragraph[] => {
+  const paragraphs: Paragraph[] = [];
+  const instance = list.ordered ? nextInstance() : 0;
+
+  for (const item of list.items) {
+    let isFirstBlock = true;
+
+    for (const child of item.tokens) {
+      if (child.type === 'list') {
+        paragraphs.push(...convertList(child as Tokens.List, level + 1, nextInstance));
+        continue;
+      }
+
+      const inline = child.type === 'text' || child.type === 'paragraph'
+        ? convertInline(child.tokens ?? [child])
+        : convertInline([child]);
+
+      if (isFirstBlock) {
+        paragraphs.push(new Paragraph({
+          children: inline,
+          ...(list.ordered
+            ? { numbering: { reference: NUMBERED_LIST, level, instance } }
+            : { bullet: { level } }),
+        }));
+        isFirstBlock = false;
+      } else {
+        // Continuation paragraphs inside the same item are indented, not numbered
+        paragraphs.push(new Paragraph({
+          children: inline,
+          indent: { left: 720 * (level + 1) },
+        }));
+      }
+    }
+  }
+
+  return paragraphs;
+};
+
+/**
+ * Convert a Markdown table to a Word table
+ */
+const convertTable = (table: Tokens.Table): Table => {
+  const toRow = (cells: Tokens.TableCell[], isHeader: boolean) => new TableRow({
+    tableHeader: isHeader,
+    children: cells.map((cell) => new TableCell({
+      children: [new Paragraph({ children: convertInline(cell.tokens, { bold: isHeader }) })],
+    })),
+  });
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [toRow(table.header, true), ...table.rows.map((row) => toRow(row, false))],
+  });
+};
+
+/**
+ * Convert block-level tokens to document children
+ */
+const convertBlocks = (
+  tokens: Token[],
+  nextInstance: () => number
+): (Paragraph | Table)[] => {
+  const blocks: (Paragraph | Table)[] = [];
+
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'heading':
+        blocks.push(new Paragraph({
+          heading: HEADING_LEVELS[Math.min(token.depth, 6) - 1],
+          children: convertInline(token.tokens),
+        }));
+        break;
+      case 'paragraph':
+        blocks.push(new Paragraph({ children: convertInline(token.tokens) }));
+        break;
+      case 'list':
+        blocks.push(...convertList(token as Tokens.List, 0, nextInstance));
+        break;
+      case 'table':
+        blocks.push(convertTable(token as Tokens.Table));
+        break;
+      case 'code':
+      case 'blockMath':
+        // One paragraph per line keeps code indentation intact
+        for (const line of (token.text as string).split('\n')) {
+          blocks.push(new Paragraph({
+            children: [createRun(line, { code: true })],
+            spacing: { after: 0 },
+          }));
+        }
+        break;
+      case 'blockquote':
+        // Quoted paragraphs are indented and italic; other blocks convert as usual
+        for (const child of token.tokens || []) {
+          if (child.type === 'paragraph') {
+            blocks.push(new Paragraph({
+              children: convertInline(child.tokens, { italics: true }),
+              indent: { left: 720 },
+            }));
+          } else {
+            blocks.push(...convertBlocks([child], nextInstance));
+          }
+        }
+        break;
+      case 'hr':
+        blocks.push(new Paragraph({
+          border: { bottom: { style: 'single', size: 6, color: '999999', space: 1 } },
+          children: [],
+        }));
+        break;
+      default:
+        // Spacing tokens and raw HTML are dropped
+        break;
+    }
+  }
+
+  return blocks;
+};
+
+/**
+ * Build a DOCX file from Markdown sections
+ * @param title - Document title
+ * @param subtitle - Line shown under the title (e.g., date and duration)
+ * @param sections - Sections to include, in order
+ * @returns Promise resolving to the .docx Blob
+ */
+export const buildDocx = async (
+  title: string,
+  subtitle: string,
+  sections: DocxSection[]
+): Promise<Blob> => {
+  let instanceCounter = 0;
+  const nextInstance = () => ++instanceCounter;
+
+  const children: (Paragraph | Table)[] = [
+    new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun(title)] }),
+    new Paragraph({ children: [new TextRun({ text: subtitle, italics: true, color: '666666' })] }),
+  ];
+
+  for (const section of sections) {
+    if (section.heading) {
+      children.push(new Paragraph({
+        heading: HeadingLevel.HEADING_1,
+        children: [new TextRun(section.heading)],
+      }));
+    }
+    children.push(...convertBlocks(lexMarkdown(section.markdown), nextInstance));
+  }
+
+  const document = new Document({
+    title,
+    numbering: {
+      config: [
+        {
+          reference: NUMBERED_LIST,
+          levels: Array.from({ length: 9 }, (_, level) => ({
+            level,
+            format: LevelFormat.DECIMAL,
+            text: `%${level + 1}.`,
+            alignment: AlignmentType.START,
+            style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } },
+          })),
+        },
+      ],
+    },
+    sections: [{ children }],
+  });
+
+  return Packer.toBlob(document);
+};
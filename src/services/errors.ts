@@ -0,0 +1,23 @@
+/**
+ * Error Types
+ *
+ * Errors callers need to tell apart from other failures
+ */
+
+/**
+ * A failure that may go away on its own (rate limit, network problem or
+ * server error), so the request is worth retrying later
+ */
+export class TemporaryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemporaryError';
+  }
+}
+
+/**
+ * Check whether an error is worth retrying later
+ * @param error - Error thrown by a provider
+ * @returns true for rate limits, network problems and server errors
+ */
+export const isTemporaryError = (error: unknown): boolean => error instanceof TemporaryError;
@@ -0,0 +1,289 @@
+/**
+ * Export Service
+ *
+ * Exports a recording's notes and transcript to:
+ * - Markdown (.md)
+ * - PDF (via the browser's print dialog)
+ * - Word (.docx)
+ * - Subtitles (.srt / .vtt) from timestamped transcript segments
+ */
+
+import { Recording, TranscriptSegment, ExportFormat, ExportOptions } from '../types';
+import { renderMarkdown } from './markdown';
+import { buildDocx, DocxSection } from './docxBuilder';
+import { formatTimestamp } from './formatters';
+import { updateRecording } from './storage';
+
+/**
+ * Get the display title of a recording
+ */
+const getTitle = (recording: Recording): string => {
+  return recording.customName || recording.filename;
+};
+
+/**
+ * Turn a recording title into a safe file name (without extension)
+ */
+const toFileName = (title: string): string => {
+  return title
+    .replace(/[\\/:*?"<>|]+/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim() || 'recording';
+};
+
+/**
+ * Escape text for inclusion in generated HTML
+ */
+const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+/**
+ * Build the one-line summary shown under the title
+ */
+const getSubtitle = (recording: Recording): string => {
+  return `${new Date(recording.date).toLocaleString()} • ${formatTimestamp(recording.duration)}`;
+};
+
+/**
+ * Build the metadata section as Markdown
+ */
+const buildMetadataMarkdown = (recording: Recording): string => {
+  const lines = [
+    `- **Date:** ${new Date(recording.date).toLocaleString()}`,
+    `- **Duration:** ${formatTimestamp(recording.duration)}`,
+  ];
+  if (recording.subject) lines.push(`- **Subject:** ${recording.subject}`);
+  if (recording.category) lines.push(`- **Category:** ${recording.category}`);
+  if (recording.tags && recording.tags.length > 0) {
+    lines.push(`- **Tags:** ${recording.tags.join(', ')}`);
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Build the transcript section as Markdown
+ * With timestamps, each segment becomes its own line prefixed by its start time
+ */
+const buildTranscriptMarkdown = (recording: Recording, includeTimestamps: boolean): string => {
+  const segments = recording.transcriptSegments;
+  if (includeTimestamps && segments && segments.length > 0) {
+    return segments
+      .map((segment) => `**[${formatTimestamp(segment.start)}]** ${segment.text}`)
+      .join('\n\n');
+  }
+  return recording.transcript || '';
+};
+
+/**
+ * Collect the selected sections in document order
+ */
+const buildSections = (recording: Recording, options: ExportOptions): DocxSection[] => {
+  const sections: DocxSection[] = [];
+
+  if (options.includeMetadata) {
+    sections.push({ heading: 'Details', markdown: buildMetadataMarkdown(recording) });
+  }
+  if (options.includeNotes && recording.notes) {
+    sections.push({ heading: 'Study Notes', markdown: recording.notes });
+  }
+  if (options.includeTranscript && recording.transcript) {
+    sections.push({
+      heading: 'Transcript',
+      markdown: buildTranscriptMarkdown(recording, options.includeTimestamps),
+    });
+  }
+
+  return sections;
+};
+
+/**
+ * Build a complete Markdown document for a recording
+ * @param recording - Recording to export
+ * @param options - Sections to include
+ * @returns Markdown source
+ */
+export const buildMarkdownDocument = (recording: Recording, options: ExportOptions): string => {
+  const parts = [`# ${getTitle(recording)}`, `*${getSubtitle(recording)}*`];
+
+  for (const section of buildSections(recording, options)) {
+    parts.push(`## ${section.heading}`, section.markdown);
+  }
+
+  return parts.join('\n\n') + '\n';
+};
+
+/**
+ * Format seconds as a subtitle timestamp (HH:MM:SS,mmm or HH:MM:SS.mmm)
+ */
+const formatSubtitleTime = (seconds: number, separator: ',' | '.'): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:` +
+    `${secs.toString().padStart(2, '0')}${separator}${ms.toString().padStart(3, '0')}`;
+};
+
+/**
+ * Build an SRT subtitle file from transcript segments
+ * @param segments - Timestamped segments
+ * @returns SRT file contents
+ */
+export const buildSrt = (segments: TranscriptSegment[]): string => {
+  return segments
+    .map((segment, index) => [
+      String(index + 1),
+      `${formatSubtitleTime(segment.start, ',')} --> ${formatSubtitleTime(segment.end, ',')}`,
+      segment.text,
+    ].join('\n'))
+    .join('\n\n') + '\n';
+};
+
+/**
+ * Build a WebVTT subtitle file from transcript segments
+ * @param segments - Timestamped segments
+ * @returns WebVTT file contents
+ */
+export const buildVtt = (segments: TranscriptSegment[]): string => {
+  const cues = segments.map((segment) => [
+    `${formatSubtitleTime(segment.start, '.')} --> ${formatSubtitleTime(segment.end, '.')}`,
+    // "-->" is not allowed inside cue text
+    segment.text.replace(/-->/g, '->'),
+  ].join('\n'));
+
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+};
+
+/**
+ * Trigger a browser download for a Blob
+ * @param blob - File contents
+ * @param fileName - Suggested file name
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Print styles: the app's dark theme is swapped for black-on-white
+const PRINT_STYLES = `
+  body { background: #fff; color: #111; margin: 2rem; }
+  .markdown-body, .markdown-body * { color: #111 !important; }
+  .markdown-body pre, .markdown-body code, .markdown-body th { background: #f3f4f6 !important; }
+  .markdown-body th, .markdown-body td, .markdown-body pre, .markdown-body h2 { border-color: #d1d5db !important; }
+  .markdown-body a { color: #1d4ed8 !important; }
+  @page { margin: 1.5cm; }
+`;
+
+/**
+ * Print a Markdown document through a hidden iframe
+ * The browser's print dialog offers "Save as PDF"
+ * @param title - Document title (used as the default PDF file name)
+ * @param markdown - Document contents
+ */
+const printMarkdown = (title: string, markdown: string): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const iframe = document.createElement('iframe');
+    iframe.style.position = 'fixed';
+    iframe.style.width = '0';
+    iframe.style.height = '0';
+    iframe.style.border = '0';
+    document.body.appendChild(iframe);
+
+    const frameWindow = iframe.contentWindow;
+    const frameDocument = iframe.contentDocument;
+    if (!frameWindow || !frameDocument) {
+      iframe.remove();
+      reject(new Error('Unable to open print preview'));
+      return;
+    }
+
+    // Wait for stylesheets and fonts before opening the print dialog.
+    // The iframe is removed once printing finishes or is cancelled.
+    iframe.onload = () => {
+      frameWindow.addEventListener('afterprint', () => iframe.remove(), { once: true });
+      frameWindow.focus();
+      frameWindow.print();
+      resolve();
+    };
+
+    // Reuse the app's stylesheets (Tailwind, KaTeX, Markdown styles)
+    const styles = Array.from(document.querySelectorAll('style, link[rel="stylesheet"]'))
+      .map((node) => node.outerHTML)
+      .join('\n');
+
+    frameDocument.open();
+    frameDocument.write(`<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>${escapeHtml(title)}</title>
+    ${styles}
+    <style>${PRINT_STYLES}</style>
+  </head>
+  <body>
+    <div class="markdown-body">${renderMarkdown(markdown)}</div>
+  </body>
+</html>`);
+    frameDocument.close();
+  });
+};
+
+/**
+ * Export a recording in the chosen format and record the export time
+ * @param recording - Recording to export
+ * @param format - Output format
+ * @param options - Sections to include (ignored for subtitle formats)
+ * @throws Error if the recording has nothing to export in that format
+ */
+export const exportRecording = async (
+  recording: Recording,
+  format: ExportFormat,
+  options: ExportOptions
+): Promise<void> => {
+  const title = getTitle(recording);
+  const fileName = toFileName(title);
+
+  if (format === 'srt' || format === 'vtt') {
+    const segments = recording.transcriptSegments;
+    if (!segments || segments.length === 0) {
+      throw new Error('This recording has no timestamped transcript. Transcribe it again to export subtitles.');
+    }
+
+    const contents = format === 'srt' ? buildSrt(segments) : buildVtt(segments);
+    const mimeType = format === 'srt' ? 'application/x-subrip' : 'text/vtt';
+    downloadBlob(new Blob([contents], { type: mimeType }), `${fileName}.${format}`);
+  } else {
+    if (buildSections(recording, { ...options, includeMetadata: false }).length === 0) {
+      throw new Error('Nothing to export. Select notes or transcript, or generate them first.');
+    }
+
+    if (format === 'markdown') {
+      const markdown = buildMarkdownDocument(recording, options);
+      downloadBlob(new Blob([markdown], { type: 'text/markdown' }), `${fileName}.md`);
+    } else if (format === 'pdf') {
+      await printMarkdown(title, buildMarkdownDocument(recording, options));
+    } else {
+      const blob = await buildDocx(title, getSubtitle(recording), buildSections(recording, options));
+      downloadBlob(blob, `${fileName}.docx`);
+    }
+  }
+
+  if (recording.id) {
+    await updateRecording(recording.id, { exportedAt: new Date() });
+  }
+};
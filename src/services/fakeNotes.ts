@@ -0,0 +1,73 @@
+/**
+ * Fake Notes Provider
+ *
+ * Builds notes locally from the prompt without calling any model.
+ * The output depends only on the input, so it is suitable for tests
+ * and for trying out the app without an API key or local model.
+ */
+
+import { NotesCompletion, NotesModelSettings, NotesProvider, NotesRequest, NotesStreamOptions } from '../types';
+
+// Sentences turned into bullet points
+const MAX_BULLETS = 8;
+
+// Delay between streamed words so streaming can be observed
+const WORD_DELAY_MS = 20;
+
+/**
+ * Split text into sentences
+ */
+const splitSentences = (text: string): string[] => {
+  return text
+    .replace(/\s+/g, ' ')
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 0);
+};
+
+/**
+ * Create a provider that returns deterministic Markdown notes
+ * A small context window makes long transcripts go through the
+ * section-by-section path, so it can be exercised without a model
+ * @param settings - Context window and token limit to report
+ * @returns Fake notes provider
+ */
+export const createFakeNotesProvider = (settings: NotesModelSettings): NotesProvider => {
+  const complete = async (request: NotesRequest, options?: NotesStreamOptions): Promise<NotesCompletion> => {
+    // The source material follows the instruction line of the prompt
+    const separator = request.prompt.indexOf('\n\n');
+    const source = separator === -1 ? request.prompt : request.prompt.slice(separator + 2);
+
+    const sentences = splitSentences(source);
+    const wordCount = source.split(/\s+/).filter(Boolean).length;
+
+    const notes = [
+      '## Summary',
+      '',
+      `These placeholder notes were generated without a language model from ${wordCount} words of source text.`,
+      '',
+      '## Key Points',
+      '',
+      ...sentences.slice(0, MAX_BULLETS).map((sentence) => `- ${sentence}`),
+    ].join('\n');
+
+    // Emit the notes word by word, like a streaming model would
+    for (const piece of notes.match(/\S+\s*/g) || []) {
+      if (options?.signal?.aborted) {
+        throw new Error('Note generation was cancelled.');
+      }
+      options?.onText?.(piece);
+      await new Promise((resolve) => setTimeout(resolve, WORD_DELAY_MS));
+    }
+
+    return { text: notes, truncated: false };
+  };
+
+  return {
+    id: 'fake',
+    name: 'Fake notes',
+    contextTokens: settings.contextTokens,
+    maxTokens: settings.maxTokens,
+    complete,
+  };
+};
@@ -0,0 +1,166 @@
+/**
+ * Flashcards Service
+ *
+ * Generates question/answer flashcards from a recording's notes and
+ * transcript with the configured notes provider, and exports cards
+ * as CSV that Anki can import.
+ *
+ * Scheduling lives in spacedRepetition.ts; cards are stored in
+ * IndexedDB (storage.ts).
+ */
+
+import { Flashcard, NotesProvider, Recording } from '../types';
+import { completeInFull, getMaxInputChars } from './notesGeneration';
+
+// A question and answer written by the model
+export interface GeneratedCard {
+  question: string;
+  answer: string;
+}
+
+// System prompt for writing flashcards
+const FLASHCARD_SYSTEM_PROMPT = `You are an expert tutor who writes flashcards for spaced-repetition study.
+
+Write flashcards that cover the key facts, definitions, concepts, formulas and examples in the material. Each card must:
+- Ask exactly one thing, with a question that makes sense on its own
+- Have a short answer (one or two sentences, or a formula)
+- Test understanding rather than trivia such as who said what
+
+Write between 8 and 25 cards, depending on how much material there is.
+
+Respond with a JSON array only, with no other text, in this form:
+[{"question": "...", "answer": "..."}]`;
+
+/**
+ * Build the study material sent to the model
+ * Notes come first; the transcript is added as far as the budget allows
+ */
+const buildSourceMaterial = (recording: Recording, maxChars: number): string => {
+  const parts: string[] = [];
+  let remaining = maxChars;
+
+  if (recording.notes) {
+    const notes = recording.notes.slice(0, remaining);
+    parts.push(`# Notes\n\n${notes}`);
+    remaining -= notes.length;
+  }
+
+  if (recording.transcript && remaining > 0) {
+    parts.push(`# Transcript\n\n${recording.transcript.slice(0, remaining)}`);
+  }
+
+  return parts.join('\n\n');
+};
+
+/**
+ * Read the cards out of the model's response
+ * Tolerates code fences and text around the JSON array
+ * @param response - Model output
+ * @returns Cards with non-empty question and answer
+ * @throws Error if the response contains no JSON array
+ */
+const parseCards = (response: string): GeneratedCard[] => {
+  const start = response.indexOf('[');
+  const end = response.lastIndexOf(']');
+  if (start === -1 || end <= start) {
+    throw new Error('The model did not return flashcards in the expected format. Please try again.');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(response.slice(start, end + 1));
+  } catch {
+    throw new Error('The model did not return flashcards in the expected format. Please try again.');
+  }
+
+  if (!Array.isArray(parsed)) {
+    return [];
+  }
+
+  return parsed
+    .filter((item): item is GeneratedCard =>
+      typeof item?.question === 'string' && typeof item?.answer === 'string'
+    )
+    .map((item) => ({ question: item.question.trim(), answer: item.answer.trim() }))
+    .filter((item) => item.question && item.answer);
+};
+
+/**
+ * Generate flashcards for a recording
+ * @param recording - Recording with notes or a transcript
+ * @param provider - Provider to write the cards with
+ * @param existing - Cards the recording already has (not repeated)
+ * @param signal - Optional abort signal
+ * @returns Promise resolving to the new cards
+ * @throws Error if the recording has no material or generation fails
+ */
+export const generateFlashcards = async (
+  recording: Recording,
+  provider: NotesProvider,
+  existing: Flashcard[] = [],
+  signal?: AbortSignal
+): Promise<GeneratedCard[]> => {
+  if (!recording.notes?.trim() && !recording.transcript?.trim()) {
+    throw new Error('Transcribe the recording or generate notes before creating flashcards.');
+  }
+
+  // Leave room in the budget for the list of existing questions
+  const existingList = existing.map((card) => `- ${card.question}`).join('\n');
+  const material = buildSourceMaterial(recording, getMaxInputChars(provider) - existingList.length);
+
+  const prompt = existing.length > 0
+    ? `Write flashcards for this material:\n\n${material}\n\nThese cards already exist; do not repeat them:\n\n${existingList}`
+    : `Write flashcards for this material:\n\n${material}`;
+
+  const response = await completeInFull(provider, { system: FLASHCARD_SYSTEM_PROMPT, prompt }, { signal });
+
+  // Drop cards the model repeated anyway
+  const seen = new Set(existing.map((card) => card.question.toLowerCase()));
+  const cards = parseCards(response).filter((card) => {
+    const key = card.question.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  if (cards.length === 0) {
+    throw new Error(`${provider.name} returned no new flashcards. Please try again.`);
+  }
+
+  return cards;
+};
+
+/**
+ * Quote a CSV field
+ */
+const toCsvField = (value: string): string => `"${value.replace(/"/g, '""')}"`;
+
+/**
+ * Turn a tag or category into an Anki tag (no spaces)
+ */
+const toAnkiTag = (value: string): string => value.trim().replace(/\s+/g, '_');
+
+/**
+ * Build an Anki-compatible CSV file from flashcards
+ * Columns: front, back, tags (the recording's category and tags)
+ * The header lines tell Anki the separator and which column holds tags
+ * @param cards - Cards to export
+ * @param recordings - Recordings the cards belong to, by id
+ * @returns CSV text
+ */
+export const buildAnkiCsv = (cards: Flashcard[], recordings: Map<number, Recording>): string => {
+  const lines = ['#separator:Comma', '#html:false', '#tags column:3'];
+
+  for (const card of cards) {
+    const recording = recordings.get(card.recordingId);
+    const tags = [
+      'dozey',
+      ...(recording?.category ? [recording.category] : []),
+      ...(recording?.tags || []),
+    ].map(toAnkiTag);
+
+    lines.push([card.question, card.answer, tags.join(' ')].map(toCsvField).join(','));
+  }
+
+  return lines.join('\n') + '\n';
+};
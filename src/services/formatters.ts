@@ -0,0 +1,23 @@
+/**
+ * Formatting Utilities
+ *
+ * Shared helpers for displaying times in the UI
+ */
+
+/**
+ * Format a playback position in seconds as M:SS or H:MM:SS
+ * Fractional seconds are truncated
+ * @param seconds - Position in seconds
+ * @returns Formatted timestamp (e.g., "4:05" or "1:02:09")
+ */
+export const formatTimestamp = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  }
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+};
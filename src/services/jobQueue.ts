@@ -0,0 +1,480 @@
+/**
+ * Job Queue Service
+ *
+ * Runs transcription and note generation in the background. Jobs are
+ * stored in IndexedDB, so they keep going when the user switches pages
+ * and pick up again after a reload. A configurable number of jobs run at
+ * once; rate limits and network errors are retried with backoff.
+ *
+ * With several tabs open, each job runs in one tab only: a tab holds a
+ * Web Lock for every job it runs, and jobs are claimed in a transaction.
+ * Jobs left running by a tab that closed are picked up by another.
+ *
+ * Live progress (chunk being transcribed, notes streamed so far) is kept
+ * in memory and published to subscribers.
+ */
+
+import { JobProgress, JobStep, ProcessingJob, Recording } from '../types';
+import {
+  getJobs,
+  getJob,
+  getRecordingJob,
+  claimJob,
+  addJob,
+  updateJob,
+  deleteJob,
+  getRecording,
+  updateRecording,
+  saveNotes,
+  getLockManager,
+} from './storage';
+import {
+  getJobConcurrency,
+  getTranscriptionSettings,
+  getOpenAIKey,
+  getNotesSettings,
+  getAnthropicKey,
+} from './apiKeyManager';
+import { transcribeAudio, getTranscriptionProvider } from './transcription';
+import { generateNotes, getNotesProvider } from './notesGeneration';
+import { resolveTemplate, renderTemplate } from './noteTemplates';
+import { isTemporaryError } from './errors';
+
+// Attempts at a step before the job is marked as failed
+const MAX_ATTEMPTS = 5;
+
+// Wait before the first retry; doubles with each further attempt
+const RETRY_BASE_DELAY_MS = 5000;
+
+// How often streamed notes are saved, so a reload keeps what has arrived
+const PARTIAL_NOTES_SAVE_INTERVAL_MS = 1000;
+
+// How often to look for jobs left behind by tabs that have closed
+const ORPHAN_CHECK_INTERVAL_MS = 30000;
+
+// Abort controllers of the jobs running in this tab, by job id
+const running = new Map<number, AbortController>();
+
+// Live progress by recording id; replaced (not mutated) on every change
+let progress = new Map<number, JobProgress>();
+const listeners = new Set<() => void>();
+
+let started = false;
+let wakeTimer: ReturnType<typeof setTimeout> | undefined;
+
+/**
+ * Name of the lock held by the tab running a job
+ */
+const getJobLockName = (jobId: number): string => `dozey-job-${jobId}`;
+
+/**
+ * Publish a running job's progress to subscribers
+ */
+const setProgress = (recordingId: number, value: JobProgress | null): void => {
+  progress = new Map(progress);
+  if (value) {
+    progress.set(recordingId, value);
+  } else {
+    progress.delete(recordingId);
+  }
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Subscribe to live job progress (for useSyncExternalStore)
+ * @param listener - Called whenever progress changes
+ * @returns Function that unsubscribes
+ */
+export const subscribeToJobProgress = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Get live progress of the running jobs, by recording id
+ * The map is replaced whenever anything changes
+ */
+export const getJobProgress = (): Map<number, JobProgress> => progress;
+
+/**
+ * Describe a job step for display
+ */
+export const describeJobStep = (step: JobStep): string =>
+  step === 'transcribe' ? 'Transcribe' : 'Generate notes';
+
+/**
+ * Transcribe a recording and save the transcript
+ */
+const runTranscription = async (recording: Recording & { id: number }, signal: AbortSignal): Promise<void> => {
+  // Throws if the selected provider isn't fully configured
+  const provider = getTranscriptionProvider(getTranscriptionSettings(), getOpenAIKey());
+
+  await updateRecording(recording.id, { status: 'transcribing', errorMessage: undefined, failedStep: undefined });
+  setProgress(recording.id, { message: 'Transcribing...' });
+
+  // Long recordings are transcribed in chunks
+  const result = await transcribeAudio(
+    recording.audioBlob,
+    provider,
+    ({ chunk, totalChunks }) =>
+      setProgress(recording.id, {
+        message: totalChunks > 1 ? `Transcribing chunk ${chunk} of ${totalChunks}...` : 'Transcribing...',
+      }),
+    signal
+  );
+  if (signal.aborted) return;
+
+  // Save transcript along with its timestamped segments
+  // (re-transcribing keeps any notes already written)
+  await updateRecording(recording.id, {
+    transcript: result.text,
+    transcriptSegments: result.segments,
+    status: recording.notes ? 'complete' : 'transcribed',
+  });
+};
+
+/**
+ * Generate notes for a transcribed recording, streaming them into the
+ * recording as they arrive
+ */
+const runNoteGeneration = async (recording: Recording & { id: number }, signal: AbortSignal): Promise<void> => {
+  // Throws if the selected provider isn't fully configured
+  const provider = getNotesProvider(getNotesSettings(), getAnthropicKey());
+
+  if (!recording.transcript?.trim()) {
+    throw new Error('No transcript available for note generation.');
+  }
+
+  // The recording's template, else its category's default
+  const template = await resolveTemplate(recording);
+
+  // Notes saved by an interrupted run stay until new text arrives
+  await updateRecording(recording.id, {
+    status: 'generating_notes',
+    errorMessage: undefined,
+    failedStep: undefined,
+  });
+
+  let message = 'Generating notes...';
+  let received = '';
+  let lastSavedAt = Date.now();
+  setProgress(recording.id, { message, notes: received });
+
+  // Long transcripts are summarized in sections, then merged
+  const notes = await generateNotes(recording.transcript, provider, {
+    segments: recording.transcriptSegments,
+    instructions: renderTemplate(template.instructions, recording),
+    signal,
+    onProgress: (notesProgress) => {
+      message = notesProgress.stage === 'sections'
+        ? `Summarizing part ${notesProgress.current} of ${notesProgress.total}...`
+        : notesProgress.stage === 'merging'
+        ? 'Merging notes...'
+        : 'Generating notes...';
+      setProgress(recording.id, { message, notes: received });
+    },
+    onText: (delta) => {
+      const isFirstText = received === '';
+      received += delta;
+      setProgress(recording.id, { message, notes: received });
+
+      // Persist on the first text (replacing any earlier partial notes),
+      // then periodically rather than on every token
+      if (isFirstText || Date.now() - lastSavedAt >= PARTIAL_NOTES_SAVE_INTERVAL_MS) {
+        lastSavedAt = Date.now();
+        updateRecording(recording.id, { partialNotes: received }).catch((err) => {
+          console.error('Error saving partial notes:', err);
+        });
+      }
+    },
+  });
+
+  // Save notes as an AI revision (earlier versions stay in history)
+  await saveNotes(recording.id, notes, 'ai');
+  await updateRecording(recording.id, {
+    status: 'complete',
+    partialNotes: undefined,
+  });
+};
+
+/**
+ * Run a job's remaining steps, recording each finished step so an
+ * interrupted job resumes where it stopped
+ */
+const runJob = async (job: ProcessingJob & { id: number }, controller: AbortController): Promise<void> => {
+  // Another tab may have claimed it first, or the slots filled up
+  let claimed = false;
+  try {
+    claimed = await claimJob(job.id, getJobConcurrency());
+  } catch (error) {
+    console.error('Error claiming job:', error);
+  }
+  if (!claimed) {
+    running.delete(job.id);
+    return;
+  }
+
+  let steps = job.steps;
+  let attempts = job.attempts;
+
+  try {
+    while (steps.length > 0 && !controller.signal.aborted) {
+      const recording = await getRecording(job.recordingId);
+      if (!recording?.id) break;  // Deleted while queued
+
+      if (steps[0] === 'transcribe') {
+        await runTranscription({ ...recording, id: recording.id }, controller.signal);
+      } else {
+        await runNoteGeneration({ ...recording, id: recording.id }, controller.signal);
+      }
+
+      steps = steps.slice(1);
+      attempts = 0;
+      if ((await updateJob(job.id, { steps, attempts })) === 0) {
+        return;  // Cancelled from another tab
+      }
+    }
+
+    if (!controller.signal.aborted) {
+      await deleteJob(job.id);
+    }
+  } catch (error) {
+    // Cancelled: cancelJob has already tidied up
+    if (controller.signal.aborted) return;
+
+    const errorMessage = error instanceof Error ? error.message : 'Processing failed';
+    attempts += 1;
+    console.error('Processing job error:', error);
+
+    if (isTemporaryError(error) && attempts < MAX_ATTEMPTS) {
+      // Try again later, waiting longer after each failure
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+      await updateJob(job.id, {
+        status: 'queued',
+        attempts,
+        runAfter: new Date(Date.now() + delay),
+        error: errorMessage,
+      });
+    } else {
+      // Record the step so a retry starts from it
+      await updateJob(job.id, { status: 'failed', attempts, error: errorMessage });
+      await updateRecording(job.recordingId, { status: 'error', errorMessage, failedStep: steps[0] });
+    }
+  } finally {
+    running.delete(job.id);
+    setProgress(job.recordingId, null);
+    processJobs();
+  }
+};
+
+/**
+ * Run a job in this tab while holding its lock, so other tabs leave it
+ * alone (without Web Locks, only the claim guards against that)
+ */
+const startJob = (job: ProcessingJob & { id: number }): void => {
+  const controller = new AbortController();
+  running.set(job.id, controller);
+
+  const locks = getLockManager();
+  const result = locks
+    ? locks.request(getJobLockName(job.id), { ifAvailable: true }, async (lock) => {
+        if (lock) {
+          await runJob(job, controller);
+        } else {
+          running.delete(job.id);  // Another tab is running it
+        }
+      })
+    : runJob(job, controller);
+
+  result.catch((error) => {
+    running.delete(job.id);
+    console.error('Job queue error:', error);
+  });
+};
+
+/**
+ * Start queued jobs while there are free slots, and wake up again when
+ * the next job waiting for a retry is due
+ * Slots are shared by all tabs
+ */
+const startReadyJobs = async (): Promise<void> => {
+  const jobs = await getJobs();
+  const now = Date.now();
+
+  const ready = jobs.filter(
+    (job): job is ProcessingJob & { id: number } =>
+      job.id !== undefined && job.status === 'queued' && job.runAfter.getTime() <= now && !running.has(job.id)
+  );
+  const busy = jobs.filter(
+    (job) => job.status === 'running' || (job.id !== undefined && running.has(job.id))
+  ).length;
+  const freeSlots = Math.max(0, getJobConcurrency() - busy);
+  ready.slice(0, freeSlots).forEach(startJob);
+
+  const nextRetry = Math.min(
+    ...jobs
+      .filter((job) => job.status === 'queued' && job.runAfter.getTime() > now)
+      .map((job) => job.runAfter.getTime())
+  );
+  if (Number.isFinite(nextRetry)) {
+    clearTimeout(wakeTimer);
+    wakeTimer = setTimeout(processJobs, nextRetry - now);
+  }
+};
+
+/**
+ * Check the queue for jobs that can start
+ * Called when jobs are added or finish and when settings change
+ */
+export const processJobs = (): void => {
+  if (!started) return;
+  startReadyJobs().catch((error) => {
+    console.error('Job queue error:', error);
+  });
+};
+
+/**
+ * Take over a job whose tab closed mid-run
+ * It is queued again and continues from the step it was on, except note
+ * generation that had already streamed some notes: that job is removed
+ * so the user can keep, discard or restart the partial notes
+ */
+const recoverJob = async (job: ProcessingJob & { id: number }): Promise<void> => {
+  const recording = job.steps[0] === 'notes' ? await getRecording(job.recordingId) : undefined;
+  if (recording?.partialNotes) {
+    await deleteJob(job.id);
+  } else {
+    await updateJob(job.id, { status: 'queued', runAfter: new Date() });
+  }
+};
+
+/**
+ * Recover jobs marked as running that no open tab is working on
+ * A job's lock is free only if its tab has gone. Without Web Locks that
+ * can't be told, so this only runs when the app loads and assumes every
+ * running job was left behind
+ */
+const recoverOrphanedJobs = async (): Promise<void> => {
+  const locks = getLockManager();
+
+  for (const job of await getJobs()) {
+    const id = job.id;
+    if (id === undefined || job.status !== 'running' || running.has(id)) continue;
+
+    if (!locks) {
+      await recoverJob({ ...job, id });
+      continue;
+    }
+
+    // Holding the lock keeps other tabs from claiming the job meanwhile
+    await locks.request(getJobLockName(id), { ifAvailable: true }, async (lock) => {
+      const current = lock ? await getJob(id) : undefined;
+      if (current?.status === 'running') {
+        await recoverJob({ ...current, id });
+      }
+    });
+  }
+};
+
+/**
+ * Start processing jobs; call once when the app loads
+ * Jobs left running by a closed tab (or this one before a reload) are
+ * recovered now, and checked for again while the app is open
+ */
+export const startJobQueue = async (): Promise<void> => {
+  if (started) return;
+  started = true;
+
+  try {
+    await recoverOrphanedJobs();
+  } catch (error) {
+    console.error('Error resuming jobs:', error);
+  }
+
+  // Other tabs may close with jobs running or queued
+  if (getLockManager()) {
+    setInterval(() => {
+      recoverOrphanedJobs()
+        .catch((error) => console.error('Error resuming jobs:', error))
+        .then(processJobs);
+    }, ORPHAN_CHECK_INTERVAL_MS);
+  }
+
+  processJobs();
+};
+
+/**
+ * Queue a recording for processing
+ * A failed job for the recording is replaced by the new one
+ * @param recordingId - Recording to process
+ * @param steps - Steps to run, in order
+ * @returns Promise resolving to the new job id
+ * @throws Error if the recording is already queued or being processed
+ */
+export const enqueueJob = async (recordingId: number, steps: JobStep[]): Promise<number> => {
+  const existing = await getRecordingJob(recordingId);
+  if (existing?.id !== undefined) {
+    if (existing.status !== 'failed') {
+      throw new Error('This recording is already queued for processing.');
+    }
+    await deleteJob(existing.id);
+  }
+
+  const id = await addJob({
+    recordingId,
+    steps,
+    status: 'queued',
+    attempts: 0,
+    runAfter: new Date(),
+    createdAt: new Date(),
+  });
+  processJobs();
+  return id;
+};
+
+/**
+ * Run a failed or waiting job again now, from the step it stopped at
+ * @param job - Job to retry
+ */
+export const retryJob = async (job: ProcessingJob): Promise<void> => {
+  if (job.id === undefined || running.has(job.id)) return;
+
+  await updateJob(job.id, { status: 'queued', attempts: 0, runAfter: new Date(), error: undefined });
+  await updateRecording(job.recordingId, { errorMessage: undefined });
+  processJobs();
+};
+
+/**
+ * Stop and remove a job
+ * A recording left mid-step goes back to the last state it completed
+ * @param job - Job to cancel (or dismiss, if it failed)
+ */
+export const cancelJob = async (job: ProcessingJob): Promise<void> => {
+  if (job.id === undefined) return;
+
+  running.get(job.id)?.abort();
+  await deleteJob(job.id);
+
+  const recording = await getRecording(job.recordingId);
+  if (recording?.id && (recording.status === 'transcribing' || recording.status === 'generating_notes')) {
+    await updateRecording(recording.id, {
+      status: recording.notes ? 'complete' : recording.transcript ? 'transcribed' : 'recorded',
+      partialNotes: undefined,
+      failedStep: undefined,
+    });
+  }
+};
+
+/**
+ * Cancel a recording's job, if it has one
+ * Called before the recording is deleted
+ * @param recordingId - Recording id
+ */
+export const cancelRecordingJob = async (recordingId: number): Promise<void> => {
+  const job = await getRecordingJob(recordingId);
+  if (job) {
+    await cancelJob(job);
+  }
+};
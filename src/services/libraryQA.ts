@@ -0,0 +1,182 @@
+/**
+ * Library Q&A Service
+ *
+ * Answers questions across many recordings. Transcripts are split into
+ * chunks and ranked against the question with BM25, entirely in the
+ * browser; only the best-matching chunks are sent to the language model,
+ * which cites them as [S1], [S2], ...
+ *
+ * The chunk index is computed locally and cached per recording until its
+ * transcript changes.
+ */
+
+import { FilterOptions, LibraryAnswer, LibrarySource, NotesProvider, NotesStreamOptions, Recording } from '../types';
+import { filterRecordings } from './storage';
+import { completeInFull, getMaxInputChars } from './notesGeneration';
+import { splitTranscript } from './transcriptSections';
+import { tokenize } from './searchIndex';
+import { formatTimestamp } from './formatters';
+
+// Size of the chunks transcripts are split into
+const CHUNK_CHARS = 800;
+
+// Most chunks sent with one question
+const MAX_SOURCES = 12;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// System prompt; the numbered sources are appended
+const LIBRARY_SYSTEM_PROMPT = `You answer questions using excerpts from the transcripts of several recordings (such as lectures or meetings). The excerpts are given below, each labelled like "[S3] Recording name (date, 12:34)".
+
+Rules:
+- Answer only from the excerpts. If they do not cover the question, say so plainly instead of using outside knowledge.
+- Cite the excerpts that support each statement with their labels in square brackets, e.g. [S3] or [S1, S4], right after the statement.
+- When recordings disagree or build on each other, say which recording says what.
+- Be concise and clear. Use Markdown lists where they help.`;
+
+// A transcript chunk with its term frequencies
+interface IndexedChunk {
+  recording: Recording;
+  text: string;
+  start?: number;
+  terms: Map<string, number>;
+  length: number;
+}
+
+// Chunks per recording, reused while the transcript is unchanged
+const chunkCache = new Map<number, { transcript: string; chunks: IndexedChunk[] }>();
+
+/**
+ * Get a recording's indexed chunks, from the cache when possible
+ */
+const getChunks = (recording: Recording & { id: number }): IndexedChunk[] => {
+  const transcript = recording.transcript || '';
+  const cached = chunkCache.get(recording.id);
+  if (cached && cached.transcript === transcript) {
+    // Keep the latest name and metadata for labels
+    return cached.chunks.map((chunk) => ({ ...chunk, recording }));
+  }
+
+  const chunks = splitTranscript(transcript, recording.transcriptSegments, CHUNK_CHARS).map((section) => {
+    const terms = new Map<string, number>();
+    const tokens = tokenize(section.text);
+    for (const term of tokens) {
+      terms.set(term, (terms.get(term) || 0) + 1);
+    }
+    return { recording, text: section.text, start: section.start, terms, length: tokens.length };
+  });
+
+  chunkCache.set(recording.id, { transcript, chunks });
+  return chunks;
+};
+
+/**
+ * Rank transcript chunks against a question with BM25
+ * @param recordings - Recordings to search
+ * @param question - Question text
+ * @returns Chunks with a positive score, best first
+ */
+const rankChunks = (recordings: Recording[], question: string): IndexedChunk[] => {
+  const chunks = recordings
+    .filter((recording): recording is Recording & { id: number } => !!recording.id && !!recording.transcript)
+    .flatMap(getChunks);
+  const queryTerms = Array.from(new Set(tokenize(question)));
+  if (chunks.length === 0 || queryTerms.length === 0) {
+    return [];
+  }
+
+  const averageLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0) / chunks.length;
+  const idf = new Map(queryTerms.map((term) => {
+    const frequency = chunks.filter((chunk) => chunk.terms.has(term)).length;
+    return [term, Math.log(1 + (chunks.length - frequency + 0.5) / (frequency + 0.5))];
+  }));
+
+  return chunks
+    .map((chunk) => {
+      const norm = K1 * (1 - B + B * (chunk.length / Math.max(averageLength, 1)));
+      const score = queryTerms.reduce((sum, term) => {
+        const frequency = chunk.terms.get(term) || 0;
+        return sum + (idf.get(term) || 0) * (frequency * (K1 + 1)) / (frequency + norm);
+      }, 0);
+      return { chunk, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ chunk }) => chunk);
+};
+
+/**
+ * Label a source the way the model sees it
+ */
+const describeSource = (source: LibrarySource, index: number): string => {
+  const details = [source.date.toLocaleDateString()];
+  if (source.start !== undefined) {
+    details.push(formatTimestamp(source.start));
+  }
+  return `[S${index + 1}] ${source.title} (${details.join(', ')})`;
+};
+
+/**
+ * Answer a question from the transcripts of the recordings in scope
+ * @param question - Question to answer
+ * @param scope - Category, tags and date range limiting the recordings searched
+ * @param provider - Provider to answer with
+ * @param options - Optional streaming callback and abort signal
+ * @returns Promise resolving to the answer and the sources it cites
+ * @throws Error if nothing relevant is found or the request fails
+ */
+export const askLibrary = async (
+  question: string,
+  scope: FilterOptions,
+  provider: NotesProvider,
+  options?: NotesStreamOptions
+): Promise<LibraryAnswer> => {
+  const recordings = (await filterRecordings({ ...scope, searchQuery: undefined }))
+    .filter((recording) => recording.transcript?.trim());
+  if (recordings.length === 0) {
+    throw new Error('No transcribed recordings match the selected scope.');
+  }
+
+  // Pick the best chunks that fit in the context window
+  const budget = getMaxInputChars(provider) - question.length - LIBRARY_SYSTEM_PROMPT.length;
+  const sources: LibrarySource[] = [];
+  let used = 0;
+  for (const chunk of rankChunks(recordings, question)) {
+    if (sources.length >= MAX_SOURCES) break;
+
+    const source: LibrarySource = {
+      recordingId: chunk.recording.id!,
+      title: chunk.recording.customName || chunk.recording.filename,
+      date: new Date(chunk.recording.date),
+      text: chunk.text,
+      start: chunk.start,
+    };
+    const size = describeSource(source, sources.length).length + chunk.text.length + 2;
+    if (used + size > budget) continue;
+
+    sources.push(source);
+    used += size;
+  }
+
+  if (sources.length === 0) {
+    throw new Error('No recordings in scope mention this topic. Try other words or widen the scope.');
+  }
+
+  const excerpts = sources
+    .map((source, index) => `${describeSource(source, index)}\n${source.text}`)
+    .join('\n\n');
+
+  const answer = await completeInFull(
+    provider,
+    { system: `${LIBRARY_SYSTEM_PROMPT}\n\nExcerpts:\n\n${excerpts}`, prompt: question },
+    options
+  );
+
+  if (!answer.trim()) {
+    throw new Error(`${provider.name} returned an empty answer. Please try again.`);
+  }
+
+  return { question, answer: answer.trim(), sources, recordingCount: recordings.length };
+};
@@ -0,0 +1,105 @@
+/**
+ * Markdown Rendering Service
+ *
+ * Converts model-generated Markdown to sanitized HTML.
+ * Supports GitHub-flavored Markdown (headings, lists, tables, fenced code)
+ * plus inline ($...$, \(...\)) and display ($$...$$, \[...\]) math via KaTeX.
+ *
+ * Notes come from an LLM, so the rendered HTML is always passed through
+ * DOMPurify before it reaches the DOM.
+ */
+
+import { Marked, Token, TokenizerAndRendererExtension } from 'marked';
+import DOMPurify from 'dompurify';
+import katex from 'katex';
+
+/**
+ * Render a TeX expression with KaTeX
+ * Invalid TeX is shown as an error span instead of throwing
+ */
+const renderMath = (tex: string, displayMode: boolean): string => {
+  return katex.renderToString(tex.trim(), {
+    displayMode,
+    throwOnError: false,
+    output: 'htmlAndMathml',
+  });
+};
+
+// Display math: $$ ... $$ or \[ ... \] on their own lines
+const blockMath: TokenizerAndRendererExtension = {
+  name: 'blockMath',
+  level: 'block',
+  start(src) {
+    return src.match(/\$\$|\\\[/)?.index;
+  },
+  tokenizer(src) {
+    const match = /^(?:\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\])[ \t]*(?:\n|$)/.exec(src);
+    if (match) {
+      return { type: 'blockMath', raw: match[0], text: match[1] ?? match[2] };
+    }
+    return undefined;
+  },
+  renderer(token) {
+    return `<div class="math-block">${renderMath(token.text, true)}</div>\n`;
+  },
+};
+
+// Inline math: $ ... $ or \( ... \)
+// "$5 and $10" is not math: the content may not touch the dollar signs
+// with whitespace and the closing $ may not be followed by a digit
+const inlineMath: TokenizerAndRendererExtension = {
+  name: 'inlineMath',
+  level: 'inline',
+  start(src) {
+    return src.match(/\$|\\\(/)?.index;
+  },
+  tokenizer(src) {
+    const match = /^(?:\$(?!\s)((?:\\.|[^\\$\n])+?)(?<!\s)\$(?!\d)|\\\(([\s\S]+?)\\\))/.exec(src);
+    if (match) {
+      return { type: 'inlineMath', raw: match[0], text: match[1] ?? match[2] };
+    }
+    return undefined;
+  },
+  renderer(token) {
+    return renderMath(token.text, false);
+  },
+};
+
+// Dedicated parser instance so the global marked defaults stay untouched
+const markdownParser = new Marked({
+  gfm: true,
+  breaks: false,
+  extensions: [blockMath, inlineMath],
+});
+
+// Open links in a new tab without giving the target access to this window
+DOMPurify.addHook('afterSanitizeAttributes', (node) => {
+  if (node.tagName === 'A' && node.getAttribute('href')) {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer');
+  }
+});
+
+/**
+ * Render Markdown to sanitized HTML
+ * @param markdown - Markdown source (e.g., generated notes)
+ * @returns HTML string safe to inject with dangerouslySetInnerHTML
+ */
+export const renderMarkdown = (markdown: string): string => {
+  const html = markdownParser.parse(markdown, { async: false });
+
+  return DOMPurify.sanitize(html, {
+    USE_PROFILES: { html: true, mathMl: true },
+    FORBID_TAGS: ['style', 'form', 'input', 'button', 'textarea', 'iframe'],
+  });
+};
+
+/**
+ * Tokenize Markdown with the same extensions used for rendering
+ * Used by exporters that build non-HTML documents (e.g., DOCX)
+ * @param markdown - Markdown source
+ * @returns Block-level tokens (math appears as blockMath/inlineMath tokens)
+ */
+export const lexMarkdown = (markdown: string): Token[] => {
+  return markdownParser.lexer(markdown);
+};
@@ -0,0 +1,161 @@
+/**
+ * Media Import Service
+ *
+ * Turns existing audio and video files (MP3, M4A, WAV, MP4 lecture
+ * captures, ...) into recordings. Audio in a format Whisper accepts is
+ * stored as it is; other audio, and a video's audio track, is converted
+ * to WAV (so the video itself isn't kept in the library).
+ */
+
+import { saveRecording } from './storage';
+import { decodeToMono, encodeWav, TARGET_SAMPLE_RATE } from './audioChunker';
+
+// File types offered by the file picker: ones that can be transcribed
+// as they are or converted first
+export const IMPORT_ACCEPT =
+  '.mp3,.m4a,.wav,.ogg,.oga,.opus,.webm,.flac,.aac,.mp4,.m4v,.mov,' +
+  'audio/mpeg,audio/mp4,audio/wav,audio/ogg,audio/webm,audio/flac,audio/aac,video/mp4,video/webm,video/quicktime';
+
+// Audio formats Whisper accepts as uploads
+const TRANSCRIBABLE_TYPES = ['audio/mpeg', 'audio/mp4', 'audio/wav', 'audio/webm', 'audio/ogg', 'audio/flac'];
+
+// Largest file converted in the browser; the whole file and its decoded
+// audio have to fit in the tab's memory at once
+export const MAX_CONVERT_MB = 750;
+const MAX_CONVERT_BYTES = MAX_CONVERT_MB * 1024 * 1024;
+
+// Stop waiting for a file's metadata after this long and decode it instead
+const METADATA_TIMEOUT_MS = 10000;
+
+// MIME types by file extension, for files the browser doesn't type
+const EXTENSION_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/ogg',
+  webm: 'audio/webm',
+  flac: 'audio/flac',
+  aac: 'audio/aac',
+  mp4: 'video/mp4',
+  m4v: 'video/mp4',
+  mov: 'video/quicktime',
+};
+
+// Other names browsers use for the same formats
+const TYPE_ALIASES: Record<string, string> = {
+  'audio/mp3': 'audio/mpeg',
+  'audio/mpeg3': 'audio/mpeg',
+  'audio/x-mpeg': 'audio/mpeg',
+  'audio/x-m4a': 'audio/mp4',
+  'audio/m4a': 'audio/mp4',
+  'audio/x-wav': 'audio/wav',
+  'audio/wave': 'audio/wav',
+  'audio/vnd.wave': 'audio/wav',
+  'audio/x-flac': 'audio/flac',
+  'audio/x-aac': 'audio/aac',
+  'video/x-m4v': 'video/mp4',
+};
+
+/**
+ * Get the file name without its extension
+ */
+const getBaseName = (fileName: string): string => {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(0, dot) : fileName;
+};
+
+/**
+ * Work out a file's MIME type from its reported type or its extension
+ * @param file - File to import
+ * @returns Normalized MIME type, or an empty string if not audio or video
+ */
+export const getMediaType = (file: File): string => {
+  const reported = file.type.split(';')[0].trim().toLowerCase();
+  const type = TYPE_ALIASES[reported] || reported;
+  if (type.startsWith('audio/') || type.startsWith('video/')) {
+    return type;
+  }
+
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  return EXTENSION_TYPES[extension] || '';
+};
+
+/**
+ * Read a media file's duration from its metadata
+ * @param blob - Audio or video
+ * @returns Promise resolving to the duration in seconds, or null if the
+ * file doesn't state it (e.g., WebM from MediaRecorder)
+ */
+const readDuration = (blob: Blob): Promise<number | null> => {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(blob);
+    const media = document.createElement(blob.type.startsWith('video/') ? 'video' : 'audio');
+
+    const finish = (duration: number | null) => {
+      clearTimeout(timer);
+      media.removeAttribute('src');
+      URL.revokeObjectURL(url);
+      resolve(duration);
+    };
+    const timer = setTimeout(() => finish(null), METADATA_TIMEOUT_MS);
+
+    media.preload = 'metadata';
+    media.onloadedmetadata = () => finish(Number.isFinite(media.duration) ? media.duration : null);
+    media.onerror = () => finish(null);
+    media.src = url;
+  });
+};
+
+/**
+ * Import an audio or video file as a new recording
+ * @param file - File chosen or dropped by the user
+ * @returns Promise resolving to the new recording's id
+ * @throws Error if the file isn't audio or video, is too large to convert,
+ * or its audio can't be read (e.g., a format this browser can't decode)
+ */
+export const importMediaFile = async (file: File): Promise<number> => {
+  const mediaType = getMediaType(file);
+  if (!mediaType) {
+    throw new Error(`${file.name} is not an audio or video file.`);
+  }
+
+  let audioBlob: Blob;
+  let duration: number | null;
+
+  if (!TRANSCRIBABLE_TYPES.includes(mediaType)) {
+    // Video, or audio Whisper can't take: keep only the audio, as WAV
+    // (16kHz mono, ample for speech; about 115MB per hour)
+    if (file.size > MAX_CONVERT_BYTES) {
+      throw new Error(
+        `${file.name} is too large to convert in the browser (limit ${MAX_CONVERT_MB} MB). ` +
+        'Save its audio as MP3 or M4A first (e.g., with VLC or ffmpeg) and import that.'
+      );
+    }
+    const samples = await decodeToMono(file);
+    if (samples.length === 0) {
+      throw new Error(`${file.name} has no audio.`);
+    }
+    audioBlob = encodeWav(samples, TARGET_SAMPLE_RATE);
+    duration = samples.length / TARGET_SAMPLE_RATE;
+  } else {
+    audioBlob = new Blob([file], { type: mediaType });
+    duration = await readDuration(audioBlob);
+
+    // No duration in the metadata; decoding gives the real length, if
+    // the file is small enough to decode
+    if (duration === null && file.size <= MAX_CONVERT_BYTES) {
+      duration = (await decodeToMono(audioBlob)).length / TARGET_SAMPLE_RATE;
+    }
+  }
+
+  return saveRecording({
+    filename: getBaseName(file.name),
+    date: new Date(),
+    duration: Math.round(duration ?? 0),
+    audioBlob,
+    mimeType: audioBlob.type,
+    status: 'recorded',
+  });
+};
@@ -0,0 +1,56 @@
+/**
+ * Mock Transcription Provider
+ *
+ * Returns a canned transcript without contacting any server.
+ * Useful for trying out the app and for testing the notes workflow
+ * without spending API credits.
+ */
+
+import { TranscriptionProvider, TranscriptSegment } from '../types';
+
+// Sentences cycled through to build the transcript
+const MOCK_SENTENCES = [
+  "Good morning everyone, let's get started with today's lecture.",
+  'Last time we covered the basic definitions, so today we will build on them.',
+  'The key idea is that every complex system can be broken into simpler parts.',
+  'Let me write the main equation on the board so you can copy it down.',
+  'This will definitely be on the exam, so make sure you understand it.',
+  "Are there any questions before we move on to the examples?",
+  'For homework, please read the next chapter and try the practice problems.',
+];
+
+// Length of each mock segment (seconds)
+const SEGMENT_SECONDS = 6;
+
+// Simulated processing time so progress UI is visible
+const MOCK_DELAY_MS = 800;
+
+// Rough bytes per second of recorded audio, used to size the transcript
+const BYTES_PER_SECOND = 16000;
+
+/**
+ * Create a provider that returns a canned transcript
+ * The transcript length scales with the size of the audio
+ * @returns Mock transcription provider
+ */
+export const createMockTranscriptionProvider = (): TranscriptionProvider => {
+  const transcribeFile = async (audioBlob: Blob): Promise<TranscriptSegment[]> => {
+    await new Promise((resolve) => setTimeout(resolve, MOCK_DELAY_MS));
+
+    const seconds = Math.max(SEGMENT_SECONDS, audioBlob.size / BYTES_PER_SECOND);
+    const count = Math.ceil(seconds / SEGMENT_SECONDS);
+
+    return Array.from({ length: count }, (_, index) => ({
+      text: MOCK_SENTENCES[index % MOCK_SENTENCES.length],
+      start: index * SEGMENT_SECONDS,
+      end: Math.min((index + 1) * SEGMENT_SECONDS, seconds),
+    }));
+  };
+
+  return {
+    id: 'mock',
+    name: 'Mock transcription',
+    maxUploadBytes: Infinity,
+    transcribeFile,
+  };
+};
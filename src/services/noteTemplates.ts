@@ -0,0 +1,190 @@
+/**
+ * Note Templates Service
+ *
+ * Built-in note templates, {{variable}} substitution, and choosing the
+ * template for a recording: its own template, else its category's
+ * default, else the standard template.
+ *
+ * User templates and category defaults are stored in IndexedDB (storage.ts).
+ */
+
+import { NoteTemplate, Recording } from '../types';
+import { db, getCustomTemplates } from './storage';
+
+// Markdown conventions shared by the built-in templates and generation prompts
+export const FORMAT_GUIDE = `Format your notes using Markdown with:
+- Clear section headings (## for main topics, ### for subtopics)
+- Bullet points for lists of concepts or facts
+- **Bold** for key terms and definitions
+- Code blocks for any technical content, formulas, or examples
+- Numbered lists for steps or sequences`;
+
+// Templates shipped with the app
+export const BUILT_IN_TEMPLATES: NoteTemplate[] = [
+  {
+    id: 'builtin-standard',
+    name: 'Study notes',
+    description: 'Structured notes organized by topic, for exam preparation.',
+    builtIn: true,
+    instructions: `You are an expert educational assistant that converts lecture transcripts into well-structured study notes.
+
+Your task is to:
+1. Identify the main topics and concepts discussed
+2. Organize information into clear sections with headings
+3. Extract key points, definitions, and important facts
+4. Highlight examples and explanations that aid understanding
+5. Create a logical flow that makes the material easy to review
+
+${FORMAT_GUIDE}
+
+Keep the notes concise but comprehensive. Focus on information that would be valuable for exam preparation and concept review.`,
+  },
+  {
+    id: 'builtin-cornell',
+    name: 'Cornell notes',
+    description: 'Cue questions beside detailed notes, with a summary at the end.',
+    builtIn: true,
+    instructions: `You are an expert educational assistant that converts lecture transcripts into Cornell-style study notes.
+
+Structure the notes as follows:
+1. A # heading with the lecture topic, followed by the date ({{date}})
+2. For each main topic, a ## heading followed by a Markdown table with two columns:
+   - "Cues": short questions or keywords a student can use to test themselves
+   - "Notes": the detailed points, definitions and examples that answer each cue
+3. A final "## Summary" section of 3-5 sentences capturing the key ideas of the whole lecture
+
+Use **bold** for key terms. Keep each cue short and each note specific.`,
+  },
+  {
+    id: 'builtin-outline',
+    name: 'Outline',
+    description: 'Hierarchical bullet-point outline of the material.',
+    builtIn: true,
+    instructions: `You are an expert educational assistant that converts lecture transcripts into a concise hierarchical outline.
+
+Structure the notes as a nested bullet-point outline:
+- Top-level bullets for main topics (in the order they were covered)
+- Second-level bullets for subtopics and key points
+- Third-level bullets for supporting details, definitions and examples
+
+Start with a one-line title naming the topic. Use **bold** for key terms. Use short phrases rather than full sentences. Do not add prose paragraphs.`,
+  },
+  {
+    id: 'builtin-meeting-minutes',
+    name: 'Meeting minutes',
+    description: 'Attendees, discussion, decisions and action items with owners.',
+    builtIn: true,
+    instructions: `You are an experienced minute-taker who converts meeting transcripts into clear, professional minutes.
+
+Structure the minutes as follows:
+1. "# {{title}}" followed by the date ({{date}})
+2. "## Attendees": names mentioned as taking part (omit if none are identifiable)
+3. "## Summary": 2-4 sentences on the purpose and outcome of the meeting
+4. "## Discussion": one ### heading per agenda item or topic, with the key points raised
+5. "## Decisions": bullet list of decisions made
+6. "## Action Items": a Markdown table with columns "Action", "Owner" and "Due" (write "—" when an owner or due date wasn't stated)
+
+Be factual and neutral. Do not invent attendees, owners or dates.`,
+  },
+  {
+    id: 'builtin-problem-solving',
+    name: 'Problem-solving walkthrough',
+    description: 'Worked examples broken into steps, with the methods behind them.',
+    builtIn: true,
+    instructions: `You are an expert tutor who converts lecture transcripts into problem-solving walkthroughs.
+
+Structure the notes as follows:
+1. "## Key Concepts": the definitions, theorems and formulas needed, each with a one-line explanation
+2. "## Worked Examples": for every problem solved in the lecture, a ### heading with:
+   - **Problem**: the problem statement
+   - **Approach**: which method or idea applies and why
+   - **Steps**: a numbered list of steps, showing each calculation
+   - **Answer**: the final result
+3. "## Common Mistakes": pitfalls the lecturer warned about
+4. "## Practice": 2-3 similar problems for self-study (without solutions)
+
+Write formulas using LaTeX math ($...$ inline, $$...$$ for display).`,
+  },
+];
+
+// Template used when neither the recording nor its category picks one
+export const DEFAULT_TEMPLATE = BUILT_IN_TEMPLATES[0];
+
+// Variables available in template instructions
+export const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: 'title', description: 'Recording name' },
+  { name: 'subject', description: 'Subject of the recording' },
+  { name: 'category', description: 'Category of the recording' },
+  { name: 'tags', description: 'Tags, comma-separated' },
+  { name: 'date', description: 'Date the recording was made' },
+  { name: 'duration', description: 'Length of the recording in minutes' },
+];
+
+/**
+ * Fill in {{variables}} in template instructions
+ * Variables with no value for this recording become empty;
+ * unknown variables are left as they are
+ * @param instructions - Template instructions
+ * @param recording - Recording the notes are generated for
+ * @returns Instructions ready to send to the model
+ */
+export const renderTemplate = (instructions: string, recording: Recording): string => {
+  const values: Record<string, string> = {
+    title: recording.customName || recording.filename,
+    subject: recording.subject || '',
+    category: recording.category || '',
+    tags: (recording.tags || []).join(', '),
+    date: new Date(recording.date).toLocaleDateString(undefined, { dateStyle: 'long' }),
+    duration: `${Math.max(1, Math.round(recording.duration / 60))} minutes`,
+  };
+
+  return instructions.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => {
+    const key = name.toLowerCase();
+    if (!(key in values)) {
+      return match;
+    }
+    return values[key];
+  });
+};
+
+/**
+ * Get built-in templates followed by the user's own
+ * @returns Promise resolving to every available template
+ */
+export const getAllTemplates = async (): Promise<NoteTemplate[]> => {
+  return [...BUILT_IN_TEMPLATES, ...(await getCustomTemplates())];
+};
+
+/**
+ * Find a template by id among built-in and user templates
+ * @param id - Template id
+ * @returns Promise resolving to the template, or undefined if it doesn't exist
+ */
+export const getTemplate = async (id: string): Promise<NoteTemplate | undefined> => {
+  return BUILT_IN_TEMPLATES.find((template) => template.id === id) || (await db.noteTemplates.get(id));
+};
+
+/**
+ * Pick the template for a recording
+ * Order: the recording's own template, its category's default, the standard template
+ * @param recording - Recording the notes are generated for
+ * @returns Promise resolving to the template to use
+ */
+export const resolveTemplate = async (recording: Recording): Promise<NoteTemplate> => {
+  if (recording.templateId) {
+    const template = await getTemplate(recording.templateId);
+    if (template) {
+      return template;
+    }
+  }
+
+  if (recording.category) {
+    const categoryDefault = await db.categoryTemplates.get(recording.category);
+    const template = categoryDefault && (await getTemplate(categoryDefault.templateId));
+    if (template) {
+      return template;
+    }
+  }
+
+  return DEFAULT_TEMPLATE;
+};
@@ -0,0 +1,320 @@
+/**
+ * Notes Generation Service
+ *
+ * Picks the configured notes provider and turns transcripts into
+ * study notes with it. Transcripts too long for the model's context
+ * are summarized section by section and the section notes merged
+ * (map-reduce). Responses cut off at the output token limit are
+ * continued until complete.
+ */
+
+import {
+  NotesGenerationOptions,
+  NotesProvider,
+  NotesProviderId,
+  NotesRequest,
+  NotesSettings,
+  NotesStreamOptions,
+} from '../types';
+import { createAnthropicNotesProvider } from './claudeApi';
+import { createOpenAIChatNotesProvider } from './openaiChatApi';
+import { createFakeNotesProvider } from './fakeNotes';
+import { splitTranscript, TranscriptSection } from './transcriptSections';
+import { formatTimestamp } from './formatters';
+import { DEFAULT_TEMPLATE, FORMAT_GUIDE } from './noteTemplates';
+
+// Rough characters per token for English text, used to size requests
+const CHARS_PER_TOKEN = 4;
+
+// Tokens reserved for instructions and message formatting
+const PROMPT_OVERHEAD_TOKENS = 600;
+
+// Smallest input size, so very small context settings still make progress
+const MIN_INPUT_CHARS = 2000;
+
+// Follow-up requests allowed when a response hits the output token limit
+const MAX_CONTINUATIONS = 4;
+
+// Most of the earlier output sent back with a follow-up request; the model
+// only needs the end to pick up where it stopped, and this keeps every
+// follow-up the same size however long the response grows
+const CONTINUATION_PREFIX_TOKENS = 1000;
+
+// System prompt for notes on one section of a long transcript
+const SECTION_SYSTEM_PROMPT = `You are an expert assistant that converts transcripts into notes.
+
+You will receive one part of a longer transcript. Write detailed notes for this part only; they will later be merged with the notes for the other parts. Keep every key point, definition, formula, example, decision and action item. Do not add an introduction or conclusion.
+
+${FORMAT_GUIDE}`;
+
+// System prompt for merging section notes; the template's instructions are appended
+const MERGE_SYSTEM_PROMPT = `You are an expert assistant. You will receive notes written separately for consecutive parts of one recording. Merge them into a single set of notes.
+
+Your task is to:
+1. Combine material on the same topic from different parts
+2. Remove repetition while keeping every key point, definition, formula and example
+3. Keep topics in the order they were covered where it matters for understanding
+
+Do not mention the parts or that the notes were merged.`;
+
+// Providers offered in Settings
+export const NOTES_PROVIDER_OPTIONS: {
+  id: NotesProviderId;
+  label: string;
+  description: string;
+}[] = [
+  {
+    id: 'anthropic',
+    label: 'Anthropic Claude',
+    description: 'Uses the Anthropic API key above.',
+  },
+  {
+    id: 'openai-compatible',
+    label: 'OpenAI-compatible server',
+    description:
+      'Any chat completions endpoint, such as Ollama, llama.cpp server or vLLM. Run a local model to generate notes offline.',
+  },
+  {
+    id: 'fake',
+    label: 'Fake (testing)',
+    description: 'Builds placeholder notes from the transcript without a language model.',
+  },
+];
+
+/**
+ * Create the provider described by the user's settings
+ * @param settings - Notes settings
+ * @param anthropicKey - Anthropic API key (used by the 'anthropic' provider)
+ * @returns Configured provider
+ * @throws Error if the provider is missing required configuration
+ */
+export const getNotesProvider = (
+  settings: NotesSettings,
+  anthropicKey: string | null
+): NotesProvider => {
+  const modelSettings = settings.models[settings.provider];
+
+  switch (settings.provider) {
+    case 'anthropic':
+      if (!anthropicKey) {
+        throw new Error('Anthropic API key not configured. Please add your API key in Settings.');
+      }
+      return createAnthropicNotesProvider(anthropicKey, modelSettings);
+
+    case 'openai-compatible':
+      if (!settings.baseUrl.trim()) {
+        throw new Error('Language model server URL not configured. Please add it in Settings.');
+      }
+      if (!modelSettings.model.trim()) {
+        throw new Error('Notes model not configured. Please add it in Settings.');
+      }
+      return createOpenAIChatNotesProvider(
+        settings.baseUrl.trim().replace(/\/+$/, ''),
+        settings.apiKey,
+        modelSettings
+      );
+
+    case 'fake':
+      return createFakeNotesProvider(modelSettings);
+
+    default:
+      throw new Error('Unknown notes provider. Please choose one in Settings.');
+  }
+};
+
+/**
+ * Largest input a single request to the provider may contain
+ * The context window minus room for the response, instructions and the
+ * earlier output sent back when a response is continued
+ * @param provider - Provider the request will be sent to
+ * @returns Budget in characters
+ */
+export const getMaxInputChars = (provider: NotesProvider): number => {
+  return Math.max(
+    MIN_INPUT_CHARS,
+    (provider.contextTokens - provider.maxTokens - PROMPT_OVERHEAD_TOKENS - CONTINUATION_PREFIX_TOKENS) *
+      CHARS_PER_TOKEN
+  );
+};
+
+/**
+ * End of the earlier output to continue from, starting at a line break
+ * where possible so the model sees whole lines
+ */
+const getContinuationPrefix = (text: string): string => {
+  const maxChars = CONTINUATION_PREFIX_TOKENS * CHARS_PER_TOKEN;
+  if (text.length <= maxChars) {
+    return text;
+  }
+
+  const tail = text.slice(-maxChars);
+  const lineStart = tail.indexOf('\n');
+  return lineStart >= 0 && lineStart < tail.length - 1 ? tail.slice(lineStart + 1) : tail;
+};
+
+/**
+ * Run a request to completion
+ * Responses cut off at the output token limit are continued from where
+ * they stopped (sending back only the end of the output so far), up to
+ * MAX_CONTINUATIONS times
+ * @param provider - Provider to send the request to
+ * @param request - Prompt to complete
+ * @param options - Optional streaming callback and abort signal
+ * @returns Promise resolving to the full response text
+ */
+export const completeInFull = async (
+  provider: NotesProvider,
+  request: NotesRequest,
+  options?: NotesStreamOptions
+): Promise<string> => {
+  let text = '';
+
+  for (let attempt = 0; attempt <= MAX_CONTINUATIONS; attempt++) {
+    const completion = await provider.complete(
+      text ? { ...request, prefix: getContinuationPrefix(text) } : request,
+      options
+    );
+    text += completion.text;
+
+    if (!completion.truncated) {
+      return text;
+    }
+
+    // Prefilled responses may not end with whitespace
+    text = text.trimEnd();
+  }
+
+  console.warn('Notes still truncated after maximum continuations');
+  return text;
+};
+
+/**
+ * Label a transcript section with its position and time range
+ */
+const describeSection = (section: TranscriptSection, index: number, total: number): string => {
+  const range = section.start !== undefined && section.end !== undefined
+    ? ` (${formatTimestamp(section.start)}–${formatTimestamp(section.end)})`
+    : '';
+  return `Part ${index + 1} of ${total}${range}`;
+};
+
+/**
+ * Merge section notes into one set of notes
+ * If the section notes together are too long for one request, they are
+ * merged in batches first and the batch results merged again
+ * @param provider - Provider to merge with
+ * @param sectionNotes - Notes for consecutive parts, with their labels
+ * @param maxInputChars - Largest input a single request may contain
+ * @param instructions - Template instructions the merged notes must follow
+ * @param options - Streaming callback (final merge only), abort signal and progress
+ * @returns Promise resolving to the merged notes
+ */
+const mergeNotes = async (
+  provider: NotesProvider,
+  sectionNotes: { label: string; notes: string }[],
+  maxInputChars: number,
+  instructions: string,
+  options: NotesGenerationOptions
+): Promise<string> => {
+  const system = `${MERGE_SYSTEM_PROMPT}\n\nThe merged notes must follow these instructions:\n\n${instructions}`;
+  const format = (parts: { label: string; notes: string }[]) =>
+    parts.map((part) => `--- ${part.label} ---\n\n${part.notes}`).join('\n\n');
+
+  let parts = sectionNotes;
+  while (parts.length > 1 && format(parts).length > maxInputChars) {
+    // Batch consecutive parts; at least two per batch so every round shrinks
+    const batches: { label: string; notes: string }[][] = [];
+    for (const part of parts) {
+      const batch = batches[batches.length - 1];
+      if (batch && (batch.length < 2 || format([...batch, part]).length <= maxInputChars)) {
+        batch.push(part);
+      } else {
+        batches.push([part]);
+      }
+    }
+
+    const merged: { label: string; notes: string }[] = [];
+    for (const [index, batch] of batches.entries()) {
+      options.onProgress?.({ stage: 'merging', current: index + 1, total: batches.length });
+      const notes = batch.length === 1
+        ? batch[0].notes
+        : await completeInFull(
+            provider,
+            { system, prompt: `Merge these notes:\n\n${format(batch)}` },
+            { signal: options.signal }
+          );
+      merged.push({ label: `Group ${index + 1} of ${batches.length}`, notes });
+    }
+    parts = merged;
+  }
+
+  // Final merge is streamed like single-pass notes
+  options.onProgress?.({ stage: 'merging', current: 1, total: 1 });
+  return completeInFull(
+    provider,
+    { system, prompt: `Merge these notes:\n\n${format(parts)}` },
+    { signal: options.signal, onText: options.onText }
+  );
+};
+
+/**
+ * Generate study notes from a transcript
+ * @param transcript - Lecture transcript text
+ * @param provider - Provider to generate the notes with
+ * @param options - Optional segments, template instructions, streaming callback, progress callback and abort signal
+ * @returns Promise resolving to formatted notes (Markdown)
+ * @throws Error if note generation fails or is aborted
+ */
+export const generateNotes = async (
+  transcript: string,
+  provider: NotesProvider,
+  options: NotesGenerationOptions = {}
+): Promise<string> => {
+  // Validate input
+  if (!transcript || transcript.trim().length === 0) {
+    throw new Error('Cannot generate notes from empty transcript.');
+  }
+
+  const maxInputChars = getMaxInputChars(provider);
+  const sections = splitTranscript(transcript, options.segments, maxInputChars);
+  const instructions = options.instructions || DEFAULT_TEMPLATE.instructions;
+
+  let notes: string;
+  if (sections.length === 1) {
+    // Fits in one request
+    notes = await completeInFull(
+      provider,
+      {
+        system: instructions,
+        prompt: `Please convert this transcript into notes:\n\n${transcript}`,
+      },
+      options
+    );
+  } else {
+    // Map: notes for each section
+    const sectionNotes: { label: string; notes: string }[] = [];
+    for (const [index, section] of sections.entries()) {
+      options.onProgress?.({ stage: 'sections', current: index + 1, total: sections.length });
+
+      const label = describeSection(section, index, sections.length);
+      const partNotes = await completeInFull(
+        provider,
+        {
+          system: SECTION_SYSTEM_PROMPT,
+          prompt: `${label} of a transcript. Write notes for this part:\n\n${section.text}`,
+        },
+        { signal: options.signal }
+      );
+      sectionNotes.push({ label, notes: partNotes.trim() });
+    }
+
+    // Reduce: merge them into one set of notes
+    notes = await mergeNotes(provider, sectionNotes, maxInputChars, instructions, options);
+  }
+
+  if (!notes || notes.trim().length === 0) {
+    throw new Error(`${provider.name} returned empty notes. Please try again.`);
+  }
+
+  return notes.trim();
+};
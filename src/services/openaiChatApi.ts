@@ -0,0 +1,125 @@
+/**
+ * OpenAI-Compatible Chat API Service
+ *
+ * Notes provider for any server exposing the OpenAI chat completions API,
+ * such as Ollama, llama.cpp server or vLLM
+ */
+
+import OpenAI from 'openai';
+import { NotesCompletion, NotesModelSettings, NotesProvider, NotesRequest, NotesStreamOptions } from '../types';
+import { TemporaryError } from './errors';
+
+/**
+ * Convert an API or network failure into a user-facing error
+ * @param error - Error thrown by the OpenAI SDK or fetch
+ * @param baseUrl - Server the request was sent to
+ * @param model - Model the request asked for
+ * @returns Error with a message suitable for display
+ */
+const toNotesError = (error: unknown, baseUrl: string, model: string): Error => {
+  if (error instanceof OpenAI.APIConnectionError) {
+    return new TemporaryError(
+      `Could not reach the language model server at ${baseUrl}. Check that it is running and allows requests from this site (CORS).`
+    );
+  }
+
+  if (error instanceof OpenAI.APIError) {
+    if (error.status === 401) {
+      return new Error('The language model server rejected the API key. Please check your notes settings.');
+    } else if (error.status === 404) {
+      return new Error(`Model "${model}" was not found on the language model server. Please check your notes settings.`);
+    } else if (error.status === 429) {
+      return new TemporaryError('Language model server rate limit exceeded. Please try again later.');
+    } else if (error.status === 400) {
+      return new Error('Invalid request to the language model server. The transcript may be too long for the model.');
+    } else if (error.status !== undefined && error.status >= 500) {
+      return new TemporaryError(`Language model server error: ${error.message}`);
+    } else {
+      return new Error(`Language model server error: ${error.message}`);
+    }
+  }
+
+  // Handle network errors
+  if (error instanceof TypeError && error.message.includes('fetch')) {
+    return new TemporaryError('Network error. Please check your connection and try again.');
+  }
+
+  if (error instanceof Error) {
+    return error;
+  }
+
+  return new Error('Failed to generate notes. Please try again.');
+};
+
+/**
+ * Create a notes provider backed by an OpenAI-compatible chat endpoint
+ * @param baseUrl - Base URL of the API, including the version path
+ * @param apiKey - API key (local servers usually don't need one)
+ * @param settings - Model, temperature and token limit
+ * @returns Provider that sends prompts to the server
+ */
+export const createOpenAIChatNotesProvider = (
+  baseUrl: string,
+  apiKey: string,
+  settings: NotesModelSettings
+): NotesProvider => {
+  const openai = new OpenAI({
+    // The SDK requires a key; local servers usually ignore it
+    apiKey: apiKey || 'not-needed',
+    baseURL: baseUrl,
+    dangerouslyAllowBrowser: true,
+  });
+
+  const complete = async (request: NotesRequest, options?: NotesStreamOptions): Promise<NotesCompletion> => {
+    try {
+      // Stream the response so text can be shown as it is generated
+      const stream = await openai.chat.completions.create(
+        {
+          model: settings.model,
+          max_tokens: settings.maxTokens,
+          temperature: settings.temperature,
+          stream: true,
+          messages: [
+            { role: 'system', content: request.system },
+            ...(request.history || []),
+            { role: 'user', content: request.prompt },
+            // Not all servers support assistant prefill, so ask explicitly
+            ...(request.prefix
+              ? [
+                  { role: 'assistant' as const, content: request.prefix },
+                  {
+                    role: 'user' as const,
+                    content: 'Continue exactly where you stopped. Do not repeat anything already written.',
+                  },
+                ]
+              : []),
+          ],
+        },
+        { signal: options?.signal }
+      );
+
+      let text = '';
+      let finishReason: string | null = null;
+      for await (const chunk of stream) {
+        const choice = chunk.choices[0];
+        const delta = choice?.delta?.content;
+        if (delta) {
+          text += delta;
+          options?.onText?.(delta);
+        }
+        finishReason = choice?.finish_reason || finishReason;
+      }
+      return { text, truncated: finishReason === 'length' };
+    } catch (error) {
+      throw toNotesError(error, baseUrl, settings.model);
+    }
+  };
+
+  return {
+    id: 'openai-compatible',
+    name: 'Language model server',
+    contextTokens: settings.contextTokens,
+    maxTokens: settings.maxTokens,
+    complete,
+  };
+};
@@ -0,0 +1,197 @@
+/**
+ * Quizzes Service
+ *
+ * Generates practice quizzes (multiple-choice and short-answer) from a
+ * recording's transcript with the configured notes provider, and grades
+ * attempts. Each question cites the transcript segment that supports
+ * it, so wrong answers can link back to that moment in the audio.
+ *
+ * Long transcripts are split into sections like note generation, with
+ * questions spread across the sections.
+ */
+
+import { NotesProvider, Quiz, QuizAnswer, QuizQuestion, Recording, TranscriptSegment } from '../types';
+import { completeInFull, getMaxInputChars } from './notesGeneration';
+import { splitTranscript } from './transcriptSections';
+
+// Questions in a quiz, and the share that are multiple-choice
+const QUIZ_QUESTION_COUNT = 8;
+const MULTIPLE_CHOICE_SHARE = 0.75;
+
+// System prompt for writing quiz questions
+const QUIZ_SYSTEM_PROMPT = `You are an expert tutor who writes practice exam questions.
+
+You will receive a transcript split into numbered segments, like "[12] text". Write questions that test understanding of the key ideas, not trivia such as who said what. For every question, cite the number of the segment that best supports the answer.
+
+- Multiple-choice questions have exactly 4 choices, one of them correct, with plausible wrong choices
+- Short-answer questions can be answered in one or two sentences
+
+Respond with a JSON array only, with no other text, in this form:
+[{"type": "multiple-choice", "question": "...", "choices": ["...", "...", "...", "..."], "answer": "<the correct choice, copied exactly>", "explanation": "...", "segment": 12},
+ {"type": "short-answer", "question": "...", "answer": "<a model answer>", "explanation": "...", "segment": 30}]`;
+
+// System prompt for grading short answers
+const GRADING_SYSTEM_PROMPT = `You are a fair, encouraging tutor grading a student's short answers.
+
+For each numbered question you receive the question, a model answer and the student's answer. Mark the student's answer correct if it captures the key idea of the model answer, even if it is worded differently or incomplete in minor details. Give one or two sentences of feedback.
+
+Respond with a JSON array only, with no other text, with one entry per question in the same order:
+[{"correct": true, "feedback": "..."}]`;
+
+/**
+ * Extract the JSON array from a model response
+ * Tolerates code fences and text around the array
+ * @throws Error if there is no parseable array
+ */
+const parseJsonArray = (response: string, what: string): unknown[] => {
+  const start = response.indexOf('[');
+  const end = response.lastIndexOf(']');
+  try {
+    const parsed = start !== -1 && end > start ? JSON.parse(response.slice(start, end + 1)) : null;
+    if (Array.isArray(parsed)) {
+      return parsed;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error(`The model did not return ${what} in the expected format. Please try again.`);
+};
+
+/**
+ * Turn a raw question from the model into a QuizQuestion
+ * @param item - Parsed JSON entry
+ * @param segments - Transcript segments, to resolve the cited segment
+ * @returns Question, or null if the entry is unusable
+ */
+const toQuizQuestion = (item: unknown, segments: TranscriptSegment[] | undefined): QuizQuestion | null => {
+  if (!item || typeof item !== 'object') return null;
+  const raw = item as Record<string, unknown>;
+
+  const question = typeof raw.question === 'string' ? raw.question.trim() : '';
+  const answer = typeof raw.answer === 'string' ? raw.answer.trim() : '';
+  const explanation = typeof raw.explanation === 'string' ? raw.explanation.trim() : '';
+  if (!question || !answer) return null;
+
+  const segmentIndex = typeof raw.segment === 'number' ? raw.segment : Number(raw.segment);
+  const time = segments && Number.isInteger(segmentIndex) ? segments[segmentIndex]?.start : undefined;
+
+  if (raw.type === 'multiple-choice') {
+    const choices = Array.isArray(raw.choices)
+      ? raw.choices.filter((choice): choice is string => typeof choice === 'string').map((choice) => choice.trim())
+      : [];
+    // The answer must be one of the choices for grading to work
+    const correct = choices.find((choice) => choice.toLowerCase() === answer.toLowerCase());
+    if (choices.length < 2 || !correct) return null;
+    return { type: 'multiple-choice', question, choices, answer: correct, explanation, time };
+  }
+
+  return { type: 'short-answer', question, answer, explanation, time };
+};
+
+/**
+ * Generate a quiz for a recording
+ * @param recording - Recording with a transcript
+ * @param provider - Provider to write the questions with
+ * @param signal - Optional abort signal
+ * @returns Promise resolving to the questions
+ * @throws Error if the recording has no transcript or generation fails
+ */
+export const generateQuiz = async (
+  recording: Recording,
+  provider: NotesProvider,
+  signal?: AbortSignal
+): Promise<QuizQuestion[]> => {
+  if (!recording.transcript?.trim()) {
+    throw new Error('Transcribe the recording before generating a quiz.');
+  }
+
+  // Number the segments so questions can cite them
+  const segments = recording.transcriptSegments;
+  const numbered = segments && segments.length > 0
+    ? segments.map((segment, index) => ({ ...segment, text: `[${index}] ${segment.text.trim()}` }))
+    : undefined;
+  const transcript = numbered ? numbered.map((segment) => segment.text).join('\n') : recording.transcript;
+
+  const sections = splitTranscript(transcript, numbered, getMaxInputChars(provider));
+
+  const questions: QuizQuestion[] = [];
+  for (const [index, section] of sections.entries()) {
+    // Spread the questions evenly; with more sections than questions,
+    // some sections get none
+    const perSection =
+      Math.floor(((index + 1) * QUIZ_QUESTION_COUNT) / sections.length) -
+      Math.floor((index * QUIZ_QUESTION_COUNT) / sections.length);
+    if (perSection === 0) continue;
+
+    const multipleChoice = Math.round(perSection * MULTIPLE_CHOICE_SHARE);
+    const request = numbered
+      ? `Write ${multipleChoice} multiple-choice and ${perSection - multipleChoice} short-answer questions about this transcript:\n\n${section.text}`
+      : `Write ${multipleChoice} multiple-choice and ${perSection - multipleChoice} short-answer questions about this transcript. It has no segment numbers, so omit "segment":\n\n${section.text}`;
+
+    const response = await completeInFull(provider, { system: QUIZ_SYSTEM_PROMPT, prompt: request }, { signal });
+    for (const item of parseJsonArray(response, 'quiz questions')) {
+      const question = toQuizQuestion(item, segments);
+      if (question) {
+        questions.push(question);
+      }
+    }
+  }
+
+  if (questions.length === 0) {
+    throw new Error(`${provider.name} returned no usable quiz questions. Please try again.`);
+  }
+
+  // The model may write more than it was asked for
+  return questions.slice(0, QUIZ_QUESTION_COUNT);
+};
+
+/**
+ * Grade a quiz attempt
+ * Multiple-choice answers are checked locally; short answers are
+ * graded by the model in a single request
+ * @param quiz - Quiz that was taken
+ * @param responses - User's answers, in question order
+ * @param provider - Provider to grade short answers with
+ * @param signal - Optional abort signal
+ * @returns Promise resolving to graded answers and the score (0-1)
+ */
+export const gradeQuiz = async (
+  quiz: Quiz,
+  responses: string[],
+  provider: NotesProvider,
+  signal?: AbortSignal
+): Promise<{ answers: QuizAnswer[]; score: number }> => {
+  const answers: QuizAnswer[] = quiz.questions.map((question, index) => ({
+    response: (responses[index] || '').trim(),
+    correct: question.type === 'multiple-choice' && responses[index] === question.answer,
+  }));
+
+  // Unanswered short answers are wrong without asking the model
+  const toGrade = quiz.questions
+    .map((question, index) => ({ question, index }))
+    .filter(({ question, index }) => question.type === 'short-answer' && answers[index].response);
+
+  if (toGrade.length > 0) {
+    const prompt = toGrade
+      .map(({ question, index }, number) =>
+        `${number + 1}. Question: ${question.question}\nModel answer: ${question.answer}\nStudent answer: ${answers[index].response}`
+      )
+      .join('\n\n');
+
+    const response = await completeInFull(
+      provider,
+      { system: GRADING_SYSTEM_PROMPT, prompt: `Grade these answers:\n\n${prompt}` },
+      { signal }
+    );
+    const grades = parseJsonArray(response, 'grades');
+
+    toGrade.forEach(({ index }, number) => {
+      const grade = grades[number] as { correct?: unknown; feedback?: unknown } | undefined;
+      answers[index].correct = grade?.correct === true;
+      answers[index].feedback = typeof grade?.feedback === 'string' ? grade.feedback : undefined;
+    });
+  }
+
+  const correctCount = answers.filter((answer) => answer.correct).length;
+  return { answers, score: quiz.questions.length > 0 ? correctCount / quiz.questions.length : 0 };
+};
@@ -0,0 +1,243 @@
+/**
+ * Recording Chat Service
+ *
+ * Answers questions about one recording using only its transcript.
+ * The transcript is sent as numbered passages and the model cites them
+ * as [n], so answers can link back to the moment in the audio.
+ *
+ * Transcripts too long for the model's context are narrowed down to the
+ * passages that best match the question (and their neighbours).
+ */
+
+import { ChatMessage, ChatTurn, NotesProvider, NotesStreamOptions, Recording } from '../types';
+import { completeInFull, getMaxInputChars } from './notesGeneration';
+import { tokenize } from './searchIndex';
+import { formatTimestamp } from './formatters';
+
+// A numbered piece of the transcript the model can cite
+export interface TranscriptPassage {
+  text: string;
+  start?: number;           // Start time in the recording (seconds), if known
+}
+
+// Piece of an answer: plain text or a citation of passage numbers
+export type AnswerPart =
+  | { type: 'text'; text: string }
+  | { type: 'citation'; passages: number[] };
+
+// Earlier messages sent along with each question
+const MAX_HISTORY_MESSAGES = 10;
+
+// Target passage length for transcripts without timestamps
+const PASSAGE_CHARS = 400;
+
+// Passages kept either side of a match, for context
+const NEIGHBOUR_PASSAGES = 1;
+
+// System prompt; the numbered transcript is appended
+const CHAT_SYSTEM_PROMPT = `You answer questions about a single recording (such as a lecture or meeting) using only its transcript, which is given below as numbered passages like "[12] (05:31) text".
+
+Rules:
+- Answer only from the transcript. If it does not cover the question, say so plainly instead of using outside knowledge.
+- Cite the passages that support each statement with their numbers in square brackets, e.g. [12] or [12, 14], right after the statement.
+- Be concise and clear. Use Markdown lists where they help.`;
+
+/**
+ * Split a recording's transcript into numbered passages
+ * Timestamped segments are used as they are; plain transcripts are
+ * split into groups of sentences
+ * @param recording - Recording with a transcript
+ * @returns Passages in order (index = passage number)
+ */
+export const getPassages = (recording: Recording): TranscriptPassage[] => {
+  const segments = recording.transcriptSegments;
+  if (segments && segments.length > 0) {
+    return segments.map((segment) => ({ text: segment.text.trim(), start: segment.start }));
+  }
+
+  const passages: TranscriptPassage[] = [];
+  let current = '';
+  for (const sentence of (recording.transcript || '').split(/(?<=[.!?])\s+/)) {
+    if (current && current.length + sentence.length > PASSAGE_CHARS) {
+      passages.push({ text: current });
+      current = '';
+    }
+    current = current ? `${current} ${sentence}` : sentence;
+  }
+  if (current.trim()) {
+    passages.push({ text: current.trim() });
+  }
+  return passages;
+};
+
+/**
+ * Format a passage the way the model sees it
+ */
+const formatPassage = (passage: TranscriptPassage, index: number): string => {
+  const time = passage.start !== undefined ? ` (${formatTimestamp(passage.start)})` : '';
+  return `[${index}]${time} ${passage.text}`;
+};
+
+/**
+ * Choose the passages to send with a question
+ * Everything is sent if it fits; otherwise the passages sharing the most
+ * terms with the question (plus neighbours) are kept, in transcript order
+ * @param passages - All passages of the transcript
+ * @param query - Question text (and recent context) to match against
+ * @param maxChars - Budget for the formatted passages
+ * @returns Formatted passages, one per line
+ */
+const selectPassages = (passages: TranscriptPassage[], query: string, maxChars: number): string => {
+  const formatted = passages.map(formatPassage);
+  const total = formatted.reduce((sum, line) => sum + line.length + 1, 0);
+  if (total <= maxChars) {
+    return formatted.join('\n');
+  }
+
+  // Score passages by the query terms they contain; rare terms count more
+  // than words that occur all over the transcript
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const passageTerms = passages.map((passage) => new Set(tokenize(passage.text)));
+  const matches = (terms: Set<string>, queryTerm: string): boolean =>
+    terms.has(queryTerm) ||
+    (queryTerm.length >= 4 && Array.from(terms).some((term) => term.startsWith(queryTerm)));
+  const weights = queryTerms.map((queryTerm) => {
+    const frequency = passageTerms.filter((terms) => matches(terms, queryTerm)).length;
+    return frequency > 0 ? Math.log(passages.length / frequency) : 0;
+  });
+  const scores = passageTerms.map((terms) =>
+    queryTerms.reduce((score, queryTerm, index) => score + (matches(terms, queryTerm) ? weights[index] : 0), 0)
+  );
+
+  const ranked = passages
+    .map((_, index) => index)
+    .filter((index) => scores[index] > 0)
+    .sort((a, b) => scores[b] - scores[a]);
+
+  // Add the best passages with their neighbours until the budget is used
+  const chosen = new Set<number>();
+  let used = 0;
+  for (const index of ranked) {
+    const from = Math.max(0, index - NEIGHBOUR_PASSAGES);
+    const to = Math.min(passages.length - 1, index + NEIGHBOUR_PASSAGES);
+    for (let i = from; i <= to; i++) {
+      if (chosen.has(i)) continue;
+      const size = formatted[i].length + 1;
+      if (used + size > maxChars) continue;
+      chosen.add(i);
+      used += size;
+    }
+    if (used >= maxChars) break;
+  }
+
+  // Nothing matched: fall back to the start of the transcript
+  if (chosen.size === 0) {
+    for (let i = 0; i < passages.length && used + formatted[i].length + 1 <= maxChars; i++) {
+      chosen.add(i);
+      used += formatted[i].length + 1;
+    }
+  }
+
+  return Array.from(chosen)
+    .sort((a, b) => a - b)
+    .map((index) => formatted[index])
+    .join('\n');
+};
+
+/**
+ * Answer a question about a recording
+ * @param recording - Recording with a transcript
+ * @param history - Earlier messages of the conversation, oldest first
+ * @param question - New question
+ * @param provider - Provider to answer with
+ * @param options - Optional streaming callback and abort signal
+ * @returns Promise resolving to the answer, citing passages as [n]
+ * @throws Error if the recording has no transcript or the request fails
+ */
+export const askRecording = async (
+  recording: Recording,
+  history: ChatMessage[],
+  question: string,
+  provider: NotesProvider,
+  options?: NotesStreamOptions
+): Promise<string> => {
+  if (!recording.transcript?.trim()) {
+    throw new Error('Transcribe the recording before asking questions about it.');
+  }
+
+  // Recent turns only, starting with a question and alternating roles
+  // (a question left unanswered by a cancelled request is merged into the next)
+  const turns: ChatTurn[] = [];
+  for (const { role, content } of history.slice(-MAX_HISTORY_MESSAGES)) {
+    const previous = turns[turns.length - 1];
+    if (!previous && role !== 'user') continue;
+    if (previous?.role === role) {
+      previous.content += `\n\n${content}`;
+    } else {
+      turns.push({ role, content });
+    }
+  }
+  const pending = turns[turns.length - 1]?.role === 'user' ? turns.pop() : undefined;
+  const prompt = pending ? `${pending.content}\n\n${question}` : question;
+
+  // Earlier questions help find passages for follow-ups like "why?"
+  const recentQuestions = turns.filter((turn) => turn.role === 'user').map((turn) => turn.content);
+  const historyChars = turns.reduce((sum, turn) => sum + turn.content.length, 0);
+  const budget = getMaxInputChars(provider) - historyChars - prompt.length - CHAT_SYSTEM_PROMPT.length;
+  const transcript = selectPassages(
+    getPassages(recording),
+    [...recentQuestions.slice(-2), prompt].join(' '),
+    Math.max(0, budget)
+  );
+
+  const answer = await completeInFull(
+    provider,
+    {
+      system: `${CHAT_SYSTEM_PROMPT}\n\nTranscript:\n\n${transcript}`,
+      history: turns,
+      prompt,
+    },
+    options
+  );
+
+  if (!answer.trim()) {
+    throw new Error(`${provider.name} returned an empty answer. Please try again.`);
+  }
+  return answer.trim();
+};
+
+/**
+ * Split an answer into text and citations
+ * Recognizes [3], [3, 7] and [3-5], or with a label prefix [S3], [S3, S7]
+ * @param answer - Answer text from the model
+ * @param prefix - Label before each number (e.g., 'S' for library sources)
+ * @returns Parts in order, with the cited numbers
+ */
+export const splitCitations = (answer: string, prefix = ''): AnswerPart[] => {
+  const parts: AnswerPart[] = [];
+  const pattern = new RegExp(`\\[(${prefix}\\d+(?:\\s*[-–,]\\s*${prefix}?\\d+)*)\\]`, 'g');
+  let lastIndex = 0;
+
+  for (const match of answer.matchAll(pattern)) {
+    const passages: number[] = [];
+    for (const piece of match[1].split(',')) {
+      const [from, to] = piece
+        .split(/[-–]/)
+        .map((value) => parseInt(value.trim().slice(value.trim().startsWith(prefix) ? prefix.length : 0), 10));
+      for (let n = from; n <= (to ?? from) && passages.length < 20; n++) {
+        passages.push(n);
+      }
+    }
+
+    if (match.index! > lastIndex) {
+      parts.push({ type: 'text', text: answer.slice(lastIndex, match.index) });
+    }
+    parts.push({ type: 'citation', passages });
+    lastIndex = match.index! + match[0].length;
+  }
+
+  if (lastIndex < answer.length) {
+    parts.push({ type: 'text', text: answer.slice(lastIndex) });
+  }
+  return parts;
+};
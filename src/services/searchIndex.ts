@@ -0,0 +1,253 @@
+/**
+ * Search Index Service
+ *
+ * Pure helpers for the full-text search index:
+ * - Tokenizing text into normalized terms
+ * - Building inverted index entries for a recording
+ * - Scoring matches (BM25 with per-field weights)
+ * - Building highlighted snippets for results
+ *
+ * Reading and writing the index tables happens in storage.ts.
+ */
+
+import { Recording, SearchField, SearchPosting, SnippetPart } from '../types';
+
+// How much a match in each field counts towards relevance
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  tags: 2.5,
+  notes: 1.5,
+  transcript: 1,
+};
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Prefix matches (e.g., "deriv" -> "derivative") count less than exact ones
+export const PREFIX_MATCH_WEIGHT = 0.6;
+
+// Characters of context shown around a match
+const SNIPPET_CONTEXT = 80;
+
+// Common words that carry no meaning for search
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'if', 'in',
+  'into', 'is', 'it', 'no', 'not', 'of', 'on', 'or', 'so', 'such', 'that',
+  'the', 'their', 'then', 'there', 'these', 'they', 'this', 'to', 'was',
+  'will', 'with', 'we', 'you', 'i', 'um', 'uh',
+]);
+
+// Word characters for tokenizing (letters and digits in any script)
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:'[\p{L}]+)?/gu;
+
+/**
+ * Normalize a single word to its index form
+ * Lowercases, strips possessives and diacritics
+ */
+const normalizeTerm = (word: string): string => {
+  return word
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/'s$/, '')
+    .replace(/'/g, '');
+};
+
+/**
+ * Split text into normalized search terms
+ * @param text - Any text (transcript, notes, query)
+ * @returns Terms in order of appearance, stopwords removed
+ */
+export const tokenize = (text: string): string[] => {
+  const terms: string[] = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const term = normalizeTerm(match[0]);
+    if (term && !STOPWORDS.has(term)) {
+      terms.push(term);
+    }
+  }
+  return terms;
+};
+
+/**
+ * Get the text of each indexed field of a recording
+ */
+const getFieldTexts = (recording: Partial<Recording>): Record<SearchField, string> => {
+  return {
+    name: [recording.customName, recording.filename, recording.subject, recording.category]
+      .filter(Boolean)
+      .join(' '),
+    tags: (recording.tags || []).join(' '),
+    notes: recording.notes || '',
+    transcript: recording.transcript || '',
+  };
+};
+
+/**
+ * Build the inverted index entries for a recording
+ * @param recording - Recording with an id
+ * @returns Postings (one per distinct term) and the document length
+ */
+export const buildIndexEntries = (
+  recording: Recording & { id: number }
+): { postings: SearchPosting[]; length: number } => {
+  const postingsByTerm = new Map<string, SearchPosting>();
+  let length = 0;
+
+  const fieldTexts = getFieldTexts(recording);
+  for (const field of Object.keys(fieldTexts) as SearchField[]) {
+    for (const term of tokenize(fieldTexts[field])) {
+      let posting = postingsByTerm.get(term);
+      if (!posting) {
+        posting = { term, recordingId: recording.id, fields: {} };
+        postingsByTerm.set(term, posting);
+      }
+      posting.fields[field] = (posting.fields[field] || 0) + 1;
+      length++;
+    }
+  }
+
+  return { postings: Array.from(postingsByTerm.values()), length };
+};
+
+/**
+ * Score one posting with BM25 over the weighted field frequencies
+ * @param posting - Index entry for a term in a recording
+ * @param documentFrequency - Number of recordings containing the term
+ * @param documentCount - Number of indexed recordings
+ * @param length - Indexed length of the recording
+ * @param averageLength - Average indexed length across recordings
+ */
+export const scorePosting = (
+  posting: SearchPosting,
+  documentFrequency: number,
+  documentCount: number,
+  length: number,
+  averageLength: number
+): number => {
+  const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+
+  let weightedFrequency = 0;
+  for (const field of Object.keys(posting.fields) as SearchField[]) {
+    weightedFrequency += FIELD_WEIGHTS[field] * (posting.fields[field] || 0);
+  }
+
+  const norm = K1 * (1 - B + B * (length / Math.max(averageLength, 1)));
+  return idf * (weightedFrequency * (K1 + 1)) / (weightedFrequency + norm);
+};
+
+/**
+ * Check whether a word matches any query term (exactly or as a prefix)
+ */
+const matchesQuery = (word: string, queryTerms: string[]): boolean => {
+  const term = normalizeTerm(word);
+  return queryTerms.some((queryTerm) => term.startsWith(queryTerm));
+};
+
+/**
+ * Split text into snippet parts with matching words highlighted
+ */
+const highlight = (text: string, queryTerms: string[]): SnippetPart[] => {
+  const parts: SnippetPart[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    if (!matchesQuery(match[0], queryTerms)) continue;
+
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      parts.push({ text: text.slice(lastIndex, index), highlight: false });
+    }
+    parts.push({ text: match[0], highlight: true });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    parts.push({ text: text.slice(lastIndex), highlight: false });
+  }
+  return parts;
+};
+
+/**
+ * Cut a window of text around the first match
+ * @returns Excerpt with ellipses, or null if nothing matches
+ */
+const excerptAround = (text: string, queryTerms: string[]): string | null => {
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    if (!matchesQuery(match[0], queryTerms)) continue;
+
+    const index = match.index ?? 0;
+    const start = Math.max(0, text.lastIndexOf(' ', Math.max(0, index - SNIPPET_CONTEXT)) + 1);
+    const endSpace = text.indexOf(' ', index + match[0].length + SNIPPET_CONTEXT);
+    const end = endSpace === -1 ? text.length : endSpace;
+
+    return `${start > 0 ? '… ' : ''}${text.slice(start, end).trim()}${end < text.length ? ' …' : ''}`;
+  }
+  return null;
+};
+
+/**
+ * Strip Markdown syntax so note snippets read as plain text
+ */
+const stripMarkdown = (markdown: string): string => {
+  return markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/[#>*_`|~]+/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * Build a highlighted snippet showing where a recording matched
+ * Transcript segment matches are preferred since they can jump to audio
+ * @param recording - Matching recording
+ * @param queryTerms - Tokenized query
+ * @returns Snippet source field, parts, and segment start time if any
+ */
+export const buildSnippet = (
+  recording: Recording,
+  queryTerms: string[]
+): { field: SearchField; snippet: SnippetPart[]; time?: number } => {
+  // Transcript segment containing the most query terms
+  const segments = recording.transcriptSegments || [];
+  let bestSegment = -1;
+  let bestCount = 0;
+  segments.forEach((segment, index) => {
+    const words = tokenize(segment.text);
+    const count = queryTerms.filter((queryTerm) =>
+      words.some((word) => word.startsWith(queryTerm))
+    ).length;
+    if (count > bestCount) {
+      bestCount = count;
+      bestSegment = index;
+    }
+  });
+
+  if (bestSegment >= 0) {
+    const segment = segments[bestSegment];
+    return {
+      field: 'transcript',
+      snippet: highlight(segment.text, queryTerms),
+      time: segment.start,
+    };
+  }
+
+  // Otherwise the first field with a match, most descriptive first
+  const fieldTexts = getFieldTexts(recording);
+  const candidates: [SearchField, string][] = [
+    ['notes', stripMarkdown(fieldTexts.notes)],
+    ['transcript', fieldTexts.transcript],
+    ['tags', fieldTexts.tags],
+    ['name', fieldTexts.name],
+  ];
+  for (const [field, text] of candidates) {
+    const excerpt = excerptAround(text, queryTerms);
+    if (excerpt) {
+      return { field, snippet: highlight(excerpt, queryTerms) };
+    }
+  }
+
+  return { field: 'name', snippet: [] };
+};
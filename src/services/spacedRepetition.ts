@@ -0,0 +1,165 @@
+/**
+ * Spaced Repetition Service
+ *
+ * Pure helpers for flashcard scheduling (SM-2):
+ * - Creating a new, unreviewed card
+ * - Scheduling the next review from a grade
+ * - Summarizing a recording's reviews into its studied flag and priority
+ *
+ * Reading and writing the flashcards table happens in storage.ts.
+ */
+
+import { Flashcard, Recording, ReviewGrade } from '../types';
+
+// Ease factor of a new card, and the lowest it can fall to
+const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+
+// SM-2 quality (0-5) for each grade
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+// Extra interval multiplier for 'easy' answers
+const EASY_BONUS = 1.3;
+
+// Share of cards last graded 'again' or 'hard' that raises a recording's priority
+const HIGH_PRIORITY_SHARE = 0.4;
+const MEDIUM_PRIORITY_SHARE = 0.15;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get midnight at the start of the given day (local time)
+ */
+const startOfDay = (date: Date): Date => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+/**
+ * Get the end of the given day (local time)
+ * Cards due any time today belong in today's review session
+ * @param date - Any moment of the day
+ * @returns Last millisecond of that day
+ */
+export const endOfDay = (date: Date = new Date()): Date => {
+  return new Date(startOfDay(date).getTime() + DAY_MS - 1);
+};
+
+/**
+ * Create an unreviewed card, due immediately
+ * @param recordingId - Recording the card belongs to
+ * @param question - Front of the card
+ * @param answer - Back of the card
+ * @returns New flashcard (without id)
+ */
+export const createFlashcard = (recordingId: number, question: string, answer: string): Flashcard => {
+  const now = new Date();
+  return {
+    recordingId,
+    question,
+    answer,
+    createdAt: now,
+    due: now,
+    interval: 0,
+    easeFactor: INITIAL_EASE_FACTOR,
+    repetitions: 0,
+    lapses: 0,
+  };
+};
+
+/**
+ * Schedule a card's next review (SM-2)
+ * - 'again' resets the card; it is due again right away
+ * - Otherwise the interval grows: 1 day, 6 days, then interval × ease factor
+ * - The ease factor moves with the quality of each answer
+ * @param card - Card that was just reviewed
+ * @param grade - How well it was remembered
+ * @param now - Time of the review
+ * @returns Updated card
+ */
+export const scheduleReview = (card: Flashcard, grade: ReviewGrade, now: Date = new Date()): Flashcard => {
+  const quality = GRADE_QUALITY[grade];
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    card.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  if (grade === 'again') {
+    return {
+      ...card,
+      easeFactor,
+      interval: 0,
+      repetitions: 0,
+      lapses: card.lapses + 1,
+      due: now,
+      lastGrade: grade,
+      lastReviewedAt: now,
+    };
+  }
+
+  const repetitions = card.repetitions + 1;
+  let interval: number;
+  if (repetitions === 1) {
+    interval = 1;
+  } else if (repetitions === 2) {
+    interval = 6;
+  } else {
+    interval = Math.round(card.interval * easeFactor);
+  }
+  if (grade === 'easy') {
+    interval = Math.round(interval * EASY_BONUS);
+  }
+
+  return {
+    ...card,
+    easeFactor,
+    interval,
+    repetitions,
+    due: new Date(startOfDay(now).getTime() + interval * DAY_MS),
+    lastGrade: grade,
+    lastReviewedAt: now,
+  };
+};
+
+/**
+ * Describe when a card will next be due, e.g. for grade buttons
+ * @param card - Card being reviewed
+ * @param grade - Grade that would be given
+ * @returns Short interval label ("now", "1d", "2w", "3mo")
+ */
+export const describeNextInterval = (card: Flashcard, grade: ReviewGrade): string => {
+  const { interval } = scheduleReview(card, grade);
+  if (interval === 0) return 'now';
+  if (interval < 14) return `${interval}d`;
+  if (interval < 60) return `${Math.round(interval / 7)}w`;
+  if (interval < 365) return `${Math.round(interval / 30)}mo`;
+  return `${(interval / 365).toFixed(1)}y`;
+};
+
+/**
+ * Derive a recording's study status from its cards
+ * - Studied once every card has been reviewed and none was last forgotten
+ * - Priority follows the share of cards last graded 'again' or 'hard'
+ * @param cards - All cards of the recording
+ * @returns Fields to update, or an empty object if no card was reviewed yet
+ */
+export const summarizeReviews = (cards: Flashcard[]): Partial<Pick<Recording, 'isStudied' | 'priority'>> => {
+  const reviewed = cards.filter((card) => card.lastGrade);
+  if (reviewed.length === 0) {
+    return {};
+  }
+
+  const struggling = reviewed.filter((card) => card.lastGrade === 'again' || card.lastGrade === 'hard');
+  const share = struggling.length / reviewed.length;
+
+  return {
+    isStudied: reviewed.length === cards.length && reviewed.every((card) => card.lastGrade !== 'again'),
+    priority: share >= HIGH_PRIORITY_SHARE ? 'high' : share >= MEDIUM_PRIORITY_SHARE ? 'medium' : 'low',
+  };
+};
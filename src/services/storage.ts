@@ -2,11 +2,41 @@
  * IndexedDB Storage Service
  *
  * Uses Dexie.js to manage recordings in IndexedDB.
- * Provides CRUD operations for Recording objects.
+ * Provides CRUD operations for Recording objects and keeps
+ * the full-text search index in sync with them.
  */
 
 import Dexie, { Table } from 'dexie';
-import { Recording, FilterOptions } from '../types';
+import {
+  Recording,
+  FilterOptions,
+  SortOptions,
+  NoteRevision,
+  NoteRevisionSource,
+  SearchPosting,
+  SearchDocument,
+  SearchHit,
+  NoteTemplate,
+  CategoryTemplate,
+  Flashcard,
+  ReviewGrade,
+  Quiz,
+  QuizAttempt,
+  QuizScoreSummary,
+  Conversation,
+  ChatMessage,
+  ProcessingJob,
+  RecordingSession,
+  RecordingChunk,
+} from '../types';
+import {
+  tokenize,
+  buildIndexEntries,
+  scorePosting,
+  buildSnippet,
+  PREFIX_MATCH_WEIGHT,
+} from './searchIndex';
+import { scheduleReview, summarizeReviews, endOfDay } from './spacedRepetition';
 
 /**
  * Generate searchable text from recording data
@@ -31,13 +61,97 @@ const generateSearchText = (recording: Partial<Recording>): string => {
     .trim();
 };
 
+/**
+ * Apply per-record schema migrations to a recording from an older schema
+ * Shared by the Dexie upgrade path and backup restore
+ * @param recording - Recording as stored under the older schema
+ * @param fromVersion - Schema version the recording was stored with
+ * @returns Recording with fields required by the current schema
+ */
+export const upgradeRecordingData = (recording: Recording, fromVersion: number): Recording => {
+  let upgraded = { ...recording };
+
+  // Version 2: populate organization fields with defaults
+  if (fromVersion < 2) {
+    upgraded = {
+      ...upgraded,
+      tags: upgraded.tags || [],
+      isStudied: upgraded.isStudied ?? false,
+      lastModified: upgraded.lastModified || upgraded.date,
+      // Generate searchText from existing data
+      searchText: generateSearchText(upgraded),
+    };
+  }
+
+  return upgraded;
+};
+
+/**
+ * Build the initial notes revision for a recording from before version 3
+ * Existing notes were all generated by Claude, so they become the AI version
+ * @param recording - Recording with an id
+ * @returns Revision to store, or null if the recording has no notes
+ */
+export const createInitialRevision = (recording: Recording): NoteRevision | null => {
+  if (!recording.notes || recording.id === undefined) {
+    return null;
+  }
+
+  return {
+    recordingId: recording.id,
+    notes: recording.notes,
+    source: 'ai',
+    createdAt: recording.lastModified || recording.date,
+  };
+};
+
+// Recording fields covered by the search index
+// Updating any of them re-indexes the recording
+const INDEXED_FIELDS: (keyof Recording)[] = [
+  'filename', 'customName', 'subject', 'category', 'tags', 'notes', 'transcript',
+];
+
+/**
+ * Replace a recording's entries in the search index
+ * Takes the tables as arguments so it can run inside schema upgrades
+ * @param recording - Recording with an id
+ * @param postings - Search postings table
+ * @param documents - Search documents table
+ */
+const writeSearchIndex = async (
+  recording: Recording,
+  postings: Table<SearchPosting>,
+  documents: Table<SearchDocument>
+): Promise<void> => {
+  if (recording.id === undefined) return;
+
+  const entries = buildIndexEntries({ ...recording, id: recording.id });
+  await postings.where('recordingId').equals(recording.id).delete();
+  await postings.bulkPut(entries.postings);
+  await documents.put({ recordingId: recording.id, length: entries.length });
+};
+
 /**
  * Database class extending Dexie
- * Defines the schema for the recordings table
+ * Defines the schema for recordings, note revisions, the search index,
+ * note templates, flashcards, quizzes, conversations, processing jobs
+ * and recordings in progress
  */
 class RecordingsDatabase extends Dexie {
-  // TypeScript table definition
+  // TypeScript table definitions
   recordings!: Table<Recording, number>;
+  noteRevisions!: Table<NoteRevision, number>;
+  searchPostings!: Table<SearchPosting, [string, number]>;
+  searchDocuments!: Table<SearchDocument, number>;
+  noteTemplates!: Table<NoteTemplate, string>;
+  categoryTemplates!: Table<CategoryTemplate, string>;
+  flashcards!: Table<Flashcard, number>;
+  quizzes!: Table<Quiz, number>;
+  quizAttempts!: Table<QuizAttempt, number>;
+  conversations!: Table<Conversation, number>;
+  jobs!: Table<ProcessingJob, number>;
+  recordingSessions!: Table<RecordingSession, number>;
+  recordingChunks!: Table<RecordingChunk, number>;
 
   constructor() {
     super('LectureRecordingsDB');
@@ -57,23 +171,105 @@ class RecordingsDatabase extends Dexie {
       const recordings = await trans.table('recordings').toArray();
 
       for (const recording of recordings) {
-        const updates: Partial<Recording> = {
-          tags: [],
-          isStudied: false,
-          lastModified: recording.date,
-          // Generate searchText from existing data
-          searchText: generateSearchText(recording),
-        };
-
-        await trans.table('recordings').update(recording.id!, updates);
+        await trans.table('recordings').put(upgradeRecordingData(recording, 1));
+      }
+    });
+
+    // Define schema version 3 - Notes revision history
+    // Only the new table needs to be listed; recordings keeps its v2 schema
+    this.version(3).stores({
+      noteRevisions: '++id, recordingId, createdAt',
+    }).upgrade(async (trans) => {
+      // Seed each recording's history with its current notes
+      const recordings = await trans.table('recordings').toArray();
+
+      for (const recording of recordings) {
+        const revision = createInitialRevision(recording);
+        if (revision) {
+          await trans.table('noteRevisions').add(revision);
+        }
+      }
+    });
+
+    // Define schema version 4 - Full-text search index
+    // searchPostings is an inverted index keyed by [term+recordingId]
+    this.version(4).stores({
+      searchPostings: '[term+recordingId], term, recordingId',
+      searchDocuments: 'recordingId',
+    }).upgrade(async (trans) => {
+      // Build the index for all existing recordings
+      const recordings = await trans.table('recordings').toArray();
+
+      for (const recording of recordings) {
+        await writeSearchIndex(
+          recording,
+          trans.table('searchPostings'),
+          trans.table('searchDocuments')
+        );
       }
     });
+
+    // Define schema version 5 - Note templates
+    // User templates and per-category default templates
+    this.version(5).stores({
+      noteTemplates: 'id, name',
+      categoryTemplates: 'category',
+    });
+
+    // Define schema version 6 - Flashcards
+    // Cards are looked up by recording and by due date for review sessions
+    this.version(6).stores({
+      flashcards: '++id, recordingId, due',
+    });
+
+    // Define schema version 7 - Quizzes
+    // Attempts are kept over time to track scores per recording and category
+    this.version(7).stores({
+      quizzes: '++id, recordingId',
+      quizAttempts: '++id, quizId, recordingId, completedAt',
+    });
+
+    // Define schema version 8 - Conversations
+    // Chats about a recording, listed most recent first
+    this.version(8).stores({
+      conversations: '++id, recordingId, updatedAt',
+    });
+
+    // Define schema version 9 - Processing jobs
+    // Background transcription and note generation that survives reloads
+    this.version(9).stores({
+      jobs: '++id, recordingId, status',
+    });
+
+    // Define schema version 10 - Recordings in progress
+    // Audio chunks are saved as they arrive so a crash can be recovered from
+    this.version(10).stores({
+      recordingSessions: '++id, startedAt',
+      recordingChunks: '++id, sessionId',
+    });
   }
 }
 
 // Create single database instance to be used throughout the app
 export const db = new RecordingsDatabase();
 
+/**
+ * Get the Web Locks API, where the browser has it (secure contexts only)
+ * Tabs sharing the database use locks to mark work they are doing
+ */
+export const getLockManager = (): LockManager | undefined =>
+  typeof navigator !== 'undefined' && 'locks' in navigator ? navigator.locks : undefined;
+
+/**
+ * Update a recording's entries in the search index
+ * Must be called within a transaction covering the search tables
+ * (or outside any transaction)
+ * @param recording - Recording with an id
+ */
+export const indexRecording = (recording: Recording): Promise<void> => {
+  return writeSearchIndex(recording, db.searchPostings, db.searchDocuments);
+};
+
 /**
  * Save a new recording to the database
  * @param recording - Recording object without id (will be auto-generated)
@@ -81,8 +277,11 @@ export const db = new RecordingsDatabase();
  */
 export const saveRecording = async (recording: Omit<Recording, 'id'>): Promise<number> => {
   try {
-    const id = await db.recordings.add(recording as Recording);
-    return id;
+    return await db.transaction('rw', db.recordings, db.searchPostings, db.searchDocuments, async () => {
+      const id = await db.recordings.add(recording as Recording);
+      await indexRecording({ ...recording, id });
+      return id;
+    });
   } catch (error) {
     console.error('Error saving recording:', error);
     throw new Error('Failed to save recording to database');
@@ -122,6 +321,7 @@ export const getRecording = async (id: number): Promise<Recording | undefined> =
 
 /**
  * Update an existing recording
+ * Search data is refreshed when a searchable field changes
  * @param id - Recording id
  * @param updates - Partial recording object with fields to update
  * @returns Promise resolving to the number of updated records (1 or 0)
@@ -131,8 +331,20 @@ export const updateRecording = async (
   updates: Partial<Omit<Recording, 'id'>>
 ): Promise<number> => {
   try {
-    const updated = await db.recordings.update(id, updates);
-    return updated;
+    const affectsIndex = INDEXED_FIELDS.some((field) => field in updates);
+    if (!affectsIndex) {
+      return await db.recordings.update(id, updates);
+    }
+
+    return await db.transaction('rw', db.recordings, db.searchPostings, db.searchDocuments, async () => {
+      const updated = await db.recordings.update(id, updates);
+      const recording = await db.recordings.get(id);
+      if (recording) {
+        await db.recordings.update(id, { searchText: generateSearchText(recording) });
+        await indexRecording(recording);
+      }
+      return updated;
+    });
   } catch (error) {
     console.error('Error updating recording:', error);
     throw new Error('Failed to update recording in database');
@@ -140,13 +352,35 @@ export const updateRecording = async (
 };
 
 /**
- * Delete a recording from the database
+ * Delete a recording with its notes history, flashcards, quizzes,
+ * conversations, processing jobs and search index entries
  * @param id - Recording id
  * @returns Promise resolving when deletion is complete
  */
 export const deleteRecording = async (id: number): Promise<void> => {
   try {
-    await db.recordings.delete(id);
+    const tables = [
+      db.recordings,
+      db.noteRevisions,
+      db.flashcards,
+      db.quizzes,
+      db.quizAttempts,
+      db.conversations,
+      db.jobs,
+      db.searchPostings,
+      db.searchDocuments,
+    ];
+    await db.transaction('rw', tables, async () => {
+      await db.noteRevisions.where('recordingId').equals(id).delete();
+      await db.flashcards.where('recordingId').equals(id).delete();
+      await db.quizzes.where('recordingId').equals(id).delete();
+      await db.quizAttempts.where('recordingId').equals(id).delete();
+      await db.conversations.where('recordingId').equals(id).delete();
+      await db.jobs.where('recordingId').equals(id).delete();
+      await db.searchPostings.where('recordingId').equals(id).delete();
+      await db.searchDocuments.delete(id);
+      await db.recordings.delete(id);
+    });
   } catch (error) {
     console.error('Error deleting recording:', error);
     throw new Error('Failed to delete recording from database');
@@ -183,11 +417,85 @@ export const checkStorageQuota = async (): Promise<{
 // Phase 1A: Enhanced Query Functions
 // ============================================================================
 
+/**
+ * Run a ranked query against the search index
+ * Every query term must match (exactly, or as a prefix for terms of 3+ characters).
+ * Only matching recordings are loaded from the database.
+ * @param query - Search query string
+ * @returns Matching recordings with their hits, best match first
+ */
+const runSearch = async (query: string): Promise<{ recording: Recording; hit: SearchHit }[]> => {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0) {
+    return [];
+  }
+
+  // Collection statistics for BM25
+  const documents = await db.searchDocuments.toArray();
+  const lengths = new Map(documents.map((doc) => [doc.recordingId, doc.length]));
+  const averageLength =
+    documents.reduce((sum, doc) => sum + doc.length, 0) / Math.max(documents.length, 1);
+
+  let scores = new Map<number, number>();
+  for (const [termIndex, queryTerm] of queryTerms.entries()) {
+    const postings = queryTerm.length >= 3
+      ? await db.searchPostings.where('term').startsWith(queryTerm).toArray()
+      : await db.searchPostings.where('term').equals(queryTerm).toArray();
+
+    // Document frequency of each index term matched by this query term
+    const documentFrequency = new Map<string, number>();
+    postings.forEach((posting) => {
+      documentFrequency.set(posting.term, (documentFrequency.get(posting.term) || 0) + 1);
+    });
+
+    // Best-scoring index term per recording for this query term
+    const termScores = new Map<number, number>();
+    for (const posting of postings) {
+      const weight = posting.term === queryTerm ? 1 : PREFIX_MATCH_WEIGHT;
+      const score = weight * scorePosting(
+        posting,
+        documentFrequency.get(posting.term) || 1,
+        documents.length,
+        lengths.get(posting.recordingId) || 0,
+        averageLength
+      );
+      termScores.set(posting.recordingId, Math.max(termScores.get(posting.recordingId) || 0, score));
+    }
+
+    // Intersect with the recordings matching earlier terms
+    if (termIndex === 0) {
+      scores = termScores;
+    } else {
+      const intersected = new Map<number, number>();
+      scores.forEach((score, recordingId) => {
+        const termScore = termScores.get(recordingId);
+        if (termScore !== undefined) {
+          intersected.set(recordingId, score + termScore);
+        }
+      });
+      scores = intersected;
+    }
+
+    if (scores.size === 0) {
+      return [];
+    }
+  }
+
+  const ranked = Array.from(scores.entries()).sort((a, b) => b[1] - a[1]);
+  const recordings = await db.recordings.bulkGet(ranked.map(([recordingId]) => recordingId));
+
+  return ranked.flatMap(([recordingId, score], index) => {
+    const recording = recordings[index];
+    if (!recording) return [];
+    return [{ recording, hit: { recordingId, score, ...buildSnippet(recording, queryTerms) } }];
+  });
+};
+
 /**
  * Search recordings by text query
- * Searches across filename, customName, transcript, notes, subject, category, tags
+ * Searches names, subject, category, tags, notes and transcript
  * @param query - Search query string
- * @returns Promise resolving to array of matching recordings
+ * @returns Promise resolving to matching recordings, most relevant first
  */
 export const searchRecordings = async (query: string): Promise<Recording[]> => {
   try {
@@ -195,20 +503,29 @@ export const searchRecordings = async (query: string): Promise<Recording[]> => {
       return getAllRecordings();
     }
 
-    const normalizedQuery = query.toLowerCase().trim();
-    const allRecordings = await db.recordings.toArray();
-
-    return allRecordings.filter((recording) => {
-      // Ensure searchText is up to date
-      const searchText = recording.searchText || generateSearchText(recording);
-      return searchText.includes(normalizedQuery);
-    });
+    const results = await runSearch(query);
+    return results.map((result) => result.recording);
   } catch (error) {
     console.error('Error searching recordings:', error);
     throw new Error('Failed to search recordings');
   }
 };
 
+/**
+ * Search the library and describe where each recording matched
+ * @param query - Search query string
+ * @returns Promise resolving to ranked hits with highlighted snippets
+ */
+export const searchLibrary = async (query: string): Promise<SearchHit[]> => {
+  try {
+    const results = await runSearch(query);
+    return results.map((result) => result.hit);
+  } catch (error) {
+    console.error('Error searching library:', error);
+    throw new Error('Failed to search recordings');
+  }
+};
+
 /**
  * Get recordings by tags (OR logic - matches any of the provided tags)
  * @param tags - Array of tag strings
@@ -275,22 +592,28 @@ export const getRecordingsByDateRange = async (
 };
 
 /**
- * Filter recordings by multiple criteria
+ * Filter recordings by multiple criteria, keeping search hit details
  * All filters are combined with AND logic
  * @param filters - FilterOptions object
- * @returns Promise resolving to array of filtered recordings
+ * @returns Promise resolving to filtered recordings (ranked by relevance when
+ * searching, newest first otherwise) and search hits by recording id
  */
-export const filterRecordings = async (filters: FilterOptions): Promise<Recording[]> => {
+export const filterRecordingsWithHits = async (filters: FilterOptions): Promise<{
+  recordings: Recording[];
+  hits: Map<number, SearchHit>;
+}> => {
   try {
-    let recordings = await db.recordings.toArray();
+    let recordings: Recording[];
+    const hits = new Map<number, SearchHit>();
+    const isSearching = !!filters.searchQuery?.trim();
 
-    // Apply search query filter
-    if (filters.searchQuery?.trim()) {
-      const normalizedQuery = filters.searchQuery.toLowerCase().trim();
-      recordings = recordings.filter((rec) => {
-        const searchText = rec.searchText || generateSearchText(rec);
-        return searchText.includes(normalizedQuery);
-      });
+    // Apply search query filter using the search index
+    if (isSearching) {
+      const results = await runSearch(filters.searchQuery!);
+      results.forEach((result) => hits.set(result.hit.recordingId, result.hit));
+      recordings = results.map((result) => result.recording);
+    } else {
+      recordings = await db.recordings.toArray();
     }
 
     // Apply tags filter (OR logic - matches any tag)
@@ -330,16 +653,68 @@ export const filterRecordings = async (filters: FilterOptions): Promise<Recordin
       });
     }
 
-    // Sort by date descending (newest first)
-    recordings.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    // Sort by date descending (newest first) unless ranked by relevance
+    if (!isSearching) {
+      recordings.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    }
 
-    return recordings;
+    return { recordings, hits };
   } catch (error) {
     console.error('Error filtering recordings:', error);
     throw new Error('Failed to filter recordings');
   }
 };
 
+/**
+ * Filter recordings by multiple criteria
+ * All filters are combined with AND logic
+ * @param filters - FilterOptions object
+ * @returns Promise resolving to array of filtered recordings
+ */
+export const filterRecordings = async (filters: FilterOptions): Promise<Recording[]> => {
+  const { recordings } = await filterRecordingsWithHits(filters);
+  return recordings;
+};
+
+// Rank used when sorting by priority (recordings without one sort last)
+const PRIORITY_RANK: Record<string, number> = { high: 3, medium: 2, low: 1 };
+
+/**
+ * Sort recordings in place by the given field and direction
+ * Ties are broken by date (newest first); 'relevance' keeps the given order
+ * @param recordings - Recordings to sort
+ * @param sort - Sort field and direction
+ * @returns The same array, sorted
+ */
+export const sortRecordings = (recordings: Recording[], sort: SortOptions): Recording[] => {
+  // Relevance order comes from the search itself
+  if (sort.field === 'relevance') {
+    return recordings;
+  }
+
+  const direction = sort.direction === 'asc' ? 1 : -1;
+  const byDate = (a: Recording, b: Recording) =>
+    new Date(a.date).getTime() - new Date(b.date).getTime();
+
+  return recordings.sort((a, b) => {
+    let result = 0;
+    switch (sort.field) {
+      case 'duration':
+        result = a.duration - b.duration;
+        break;
+      case 'name':
+        result = (a.customName || a.filename).localeCompare(b.customName || b.filename);
+        break;
+      case 'priority':
+        result = (PRIORITY_RANK[a.priority || ''] || 0) - (PRIORITY_RANK[b.priority || ''] || 0);
+        break;
+      default:
+        result = byDate(a, b);
+    }
+    return result * direction || -byDate(a, b);
+  });
+};
+
 /**
  * Get all unique tags from all recordings
  * @returns Promise resolving to sorted array of unique tag strings
@@ -399,3 +774,927 @@ export const updateSearchText = async (id: number): Promise<void> => {
     throw new Error('Failed to update search text');
   }
 };
+
+// ============================================================================
+// Notes Revision History
+// ============================================================================
+
+/**
+ * Save new notes for a recording and record them as a revision
+ * Every version is kept, so regenerating notes never loses hand edits
+ * @param id - Recording id
+ * @param notes - Full Markdown notes
+ * @param source - Where the notes came from (AI, user edit, restore)
+ * @returns Promise resolving when both writes are complete
+ */
+export const saveNotes = async (
+  id: number,
+  notes: string,
+  source: NoteRevisionSource
+): Promise<void> => {
+  try {
+    const now = new Date();
+
+    await db.transaction('rw', [db.recordings, db.noteRevisions, db.searchPostings, db.searchDocuments], async () => {
+      const recording = await db.recordings.get(id);
+      if (!recording) {
+        throw new Error('Recording not found');
+      }
+
+      await db.recordings.update(id, {
+        notes,
+        lastModified: now,
+        searchText: generateSearchText({ ...recording, notes }),
+      });
+      await indexRecording({ ...recording, notes });
+
+      await db.noteRevisions.add({
+        recordingId: id,
+        notes,
+        source,
+        createdAt: now,
+      });
+    });
+  } catch (error) {
+    console.error('Error saving notes:', error);
+    throw new Error('Failed to save notes to database');
+  }
+};
+
+/**
+ * Get the notes history of a recording
+ * @param recordingId - Recording id
+ * @returns Promise resolving to revisions sorted newest first
+ */
+export const getNoteRevisions = async (recordingId: number): Promise<NoteRevision[]> => {
+  try {
+    const revisions = await db.noteRevisions
+      .where('recordingId')
+      .equals(recordingId)
+      .toArray();
+
+    return revisions.sort(
+      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+  } catch (error) {
+    console.error('Error fetching note revisions:', error);
+    throw new Error('Failed to fetch note revisions');
+  }
+};
+
+// ============================================================================
+// Tag and Category Management
+// ============================================================================
+
+/**
+ * Count how many recordings use each tag and category
+ * @returns Promise resolving to usage counts keyed by name
+ */
+export const getOrganizationCounts = async (): Promise<{
+  tags: Map<string, number>;
+  categories: Map<string, number>;
+}> => {
+  try {
+    const recordings = await db.recordings.toArray();
+    const tags = new Map<string, number>();
+    const categories = new Map<string, number>();
+
+    recordings.forEach((rec) => {
+      new Set(rec.tags || []).forEach((tag) => tags.set(tag, (tags.get(tag) || 0) + 1));
+      if (rec.category) {
+        categories.set(rec.category, (categories.get(rec.category) || 0) + 1);
+      }
+    });
+
+    return { tags, categories };
+  } catch (error) {
+    console.error('Error counting tags and categories:', error);
+    throw new Error('Failed to count tags and categories');
+  }
+};
+
+/**
+ * Apply a change to many recordings at once, keeping search data in sync
+ * @param recordings - Recordings to change (must have ids)
+ * @param change - Fields to update for a given recording
+ * @returns Promise resolving to the number of recordings changed
+ */
+const bulkUpdateOrganization = async (
+  recordings: Recording[],
+  change: (recording: Recording) => Partial<Recording>
+): Promise<number> => {
+  await db.transaction('rw', db.recordings, db.searchPostings, db.searchDocuments, async () => {
+    for (const recording of recordings) {
+      if (recording.id === undefined) continue;
+
+      const updated = { ...recording, ...change(recording) };
+      await db.recordings.update(recording.id, {
+        tags: updated.tags,
+        category: updated.category,
+        searchText: generateSearchText(updated),
+      });
+      await indexRecording(updated);
+    }
+  });
+  return recordings.length;
+};
+
+/**
+ * Rename a tag on every recording
+ * Renaming to an existing tag merges the two
+ * @param from - Current tag name
+ * @param to - New tag name
+ * @returns Promise resolving to the number of recordings changed
+ */
+export const renameTag = async (from: string, to: string): Promise<number> => {
+  try {
+    const target = to.trim();
+    if (!target || target === from) return 0;
+
+    const recordings = await db.recordings.where('tags').equals(from).toArray();
+    return await bulkUpdateOrganization(recordings, (rec) => ({
+      // Set removes the duplicate when merging into a tag already present
+      tags: Array.from(new Set((rec.tags || []).map((tag) => (tag === from ? target : tag)))),
+    }));
+  } catch (error) {
+    console.error('Error renaming tag:', error);
+    throw new Error('Failed to rename tag');
+  }
+};
+
+/**
+ * Remove a tag from every recording
+ * @param tag - Tag to delete
+ * @returns Promise resolving to the number of recordings changed
+ */
+export const deleteTag = async (tag: string): Promise<number> => {
+  try {
+    const recordings = await db.recordings.where('tags').equals(tag).toArray();
+    return await bulkUpdateOrganization(recordings, (rec) => ({
+      tags: (rec.tags || []).filter((t) => t !== tag),
+    }));
+  } catch (error) {
+    console.error('Error deleting tag:', error);
+    throw new Error('Failed to delete tag');
+  }
+};
+
+/**
+ * Rename a category on every recording
+ * Renaming to an existing category merges the two
+ * The category's default template moves with it
+ * @param from - Current category name
+ * @param to - New category name
+ * @returns Promise resolving to the number of recordings changed
+ */
+export const renameCategory = async (from: string, to: string): Promise<number> => {
+  try {
+    const target = to.trim();
+    if (!target || target === from) return 0;
+
+    const recordings = await db.recordings.where('category').equals(from).toArray();
+    const changed = await bulkUpdateOrganization(recordings, () => ({ category: target }));
+
+    // Carry the default template over unless the target already has one
+    await db.transaction('rw', db.categoryTemplates, async () => {
+      const defaultTemplate = await db.categoryTemplates.get(from);
+      if (defaultTemplate) {
+        await db.categoryTemplates.delete(from);
+        if (!(await db.categoryTemplates.get(target))) {
+          await db.categoryTemplates.put({ category: target, templateId: defaultTemplate.templateId });
+        }
+      }
+    });
+
+    return changed;
+  } catch (error) {
+    console.error('Error renaming category:', error);
+    throw new Error('Failed to rename category');
+  }
+};
+
+/**
+ * Clear a category from every recording (and its default template)
+ * @param category - Category to delete
+ * @returns Promise resolving to the number of recordings changed
+ */
+export const deleteCategory = async (category: string): Promise<number> => {
+  try {
+    const recordings = await db.recordings.where('category').equals(category).toArray();
+    const changed = await bulkUpdateOrganization(recordings, () => ({ category: undefined }));
+    await db.categoryTemplates.delete(category);
+    return changed;
+  } catch (error) {
+    console.error('Error deleting category:', error);
+    throw new Error('Failed to delete category');
+  }
+};
+
+// ============================================================================
+// Note Templates
+// ============================================================================
+
+/**
+ * Get all user-defined note templates
+ * Built-in templates live in code (see noteTemplates.ts)
+ * @returns Promise resolving to templates sorted by name
+ */
+export const getCustomTemplates = async (): Promise<NoteTemplate[]> => {
+  try {
+    return await db.noteTemplates.orderBy('name').toArray();
+  } catch (error) {
+    console.error('Error fetching note templates:', error);
+    throw new Error('Failed to fetch note templates');
+  }
+};
+
+/**
+ * Create or update a user-defined note template
+ * @param template - Template to save (a new id is generated if empty)
+ * @returns Promise resolving to the template id
+ */
+export const saveTemplate = async (template: NoteTemplate): Promise<string> => {
+  try {
+    const id = template.id || crypto.randomUUID();
+    await db.noteTemplates.put({ ...template, id, builtIn: false, updatedAt: new Date() });
+    return id;
+  } catch (error) {
+    console.error('Error saving note template:', error);
+    throw new Error('Failed to save note template');
+  }
+};
+
+/**
+ * Delete a user-defined note template
+ * Recordings and categories using it fall back to their defaults
+ * @param id - Template id
+ */
+export const deleteTemplate = async (id: string): Promise<void> => {
+  try {
+    await db.transaction('rw', [db.noteTemplates, db.categoryTemplates, db.recordings], async () => {
+      await db.noteTemplates.delete(id);
+      await db.categoryTemplates.filter((entry) => entry.templateId === id).delete();
+      await db.recordings
+        .filter((recording) => recording.templateId === id)
+        .modify({ templateId: undefined });
+    });
+  } catch (error) {
+    console.error('Error deleting note template:', error);
+    throw new Error('Failed to delete note template');
+  }
+};
+
+/**
+ * Get the default template of every category that has one
+ * @returns Promise resolving to category -> template id
+ */
+export const getCategoryTemplates = async (): Promise<Map<string, string>> => {
+  try {
+    const entries = await db.categoryTemplates.toArray();
+    return new Map(entries.map((entry) => [entry.category, entry.templateId]));
+  } catch (error) {
+    console.error('Error fetching category templates:', error);
+    throw new Error('Failed to fetch category templates');
+  }
+};
+
+/**
+ * Set or clear the default template for a category
+ * @param category - Category name
+ * @param templateId - Template id, or null to use the app default
+ */
+export const setCategoryTemplate = async (category: string, templateId: string | null): Promise<void> => {
+  try {
+    if (templateId) {
+      await db.categoryTemplates.put({ category, templateId });
+    } else {
+      await db.categoryTemplates.delete(category);
+    }
+  } catch (error) {
+    console.error('Error saving category template:', error);
+    throw new Error('Failed to save category template');
+  }
+};
+
+// ============================================================================
+// Flashcards
+// ============================================================================
+
+/**
+ * Add flashcards to a recording
+ * @param cards - New cards (see createFlashcard)
+ * @returns Promise resolving when the cards are saved
+ */
+export const addFlashcards = async (cards: Flashcard[]): Promise<void> => {
+  try {
+    await db.flashcards.bulkAdd(cards);
+  } catch (error) {
+    console.error('Error saving flashcards:', error);
+    throw new Error('Failed to save flashcards');
+  }
+};
+
+/**
+ * Get the flashcards of a recording, oldest first
+ * @param recordingId - Recording id
+ * @returns Promise resolving to the recording's cards
+ */
+export const getFlashcards = async (recordingId: number): Promise<Flashcard[]> => {
+  try {
+    return await db.flashcards.where('recordingId').equals(recordingId).sortBy('createdAt');
+  } catch (error) {
+    console.error('Error fetching flashcards:', error);
+    throw new Error('Failed to fetch flashcards');
+  }
+};
+
+/**
+ * Get every flashcard in the library
+ * @returns Promise resolving to all cards
+ */
+export const getAllFlashcards = async (): Promise<Flashcard[]> => {
+  try {
+    return await db.flashcards.toArray();
+  } catch (error) {
+    console.error('Error fetching flashcards:', error);
+    throw new Error('Failed to fetch flashcards');
+  }
+};
+
+/**
+ * Get the cards due for review by the end of today, most overdue first
+ * @returns Promise resolving to due cards
+ */
+export const getDueFlashcards = async (): Promise<Flashcard[]> => {
+  try {
+    return await db.flashcards.where('due').belowOrEqual(endOfDay()).toArray();
+  } catch (error) {
+    console.error('Error fetching due flashcards:', error);
+    throw new Error('Failed to fetch due flashcards');
+  }
+};
+
+/**
+ * Delete a single flashcard
+ * @param id - Flashcard id
+ */
+export const deleteFlashcard = async (id: number): Promise<void> => {
+  try {
+    await db.flashcards.delete(id);
+  } catch (error) {
+    console.error('Error deleting flashcard:', error);
+    throw new Error('Failed to delete flashcard');
+  }
+};
+
+/**
+ * Record a review and schedule the card's next one
+ * The recording's studied flag and priority are updated from its cards
+ * @param id - Flashcard id
+ * @param grade - How well the card was remembered
+ * @returns Promise resolving to the rescheduled card
+ */
+export const reviewFlashcard = async (id: number, grade: ReviewGrade): Promise<Flashcard> => {
+  try {
+    return await db.transaction('rw', db.flashcards, db.recordings, async () => {
+      const card = await db.flashcards.get(id);
+      if (!card) {
+        throw new Error('Flashcard not found');
+      }
+
+      const updated = scheduleReview(card, grade);
+      await db.flashcards.put(updated);
+
+      const cards = await db.flashcards.where('recordingId').equals(card.recordingId).toArray();
+      const summary = summarizeReviews(cards);
+      if (Object.keys(summary).length > 0) {
+        await db.recordings.update(card.recordingId, summary);
+      }
+      return updated;
+    });
+  } catch (error) {
+    console.error('Error saving review:', error);
+    throw new Error('Failed to save review');
+  }
+};
+
+// ============================================================================
+// Quizzes
+// ============================================================================
+
+/**
+ * Save a newly generated quiz
+ * @param quiz - Quiz without id
+ * @returns Promise resolving to the new quiz id
+ */
+export const saveQuiz = async (quiz: Omit<Quiz, 'id'>): Promise<number> => {
+  try {
+    return await db.quizzes.add(quiz as Quiz);
+  } catch (error) {
+    console.error('Error saving quiz:', error);
+    throw new Error('Failed to save quiz');
+  }
+};
+
+/**
+ * Get the most recently generated quiz of a recording
+ * @param recordingId - Recording id
+ * @returns Promise resolving to the quiz, or undefined if there is none
+ */
+export const getLatestQuiz = async (recordingId: number): Promise<Quiz | undefined> => {
+  try {
+    return await db.quizzes.where('recordingId').equals(recordingId).last();
+  } catch (error) {
+    console.error('Error fetching quiz:', error);
+    throw new Error('Failed to fetch quiz');
+  }
+};
+
+/**
+ * Save a graded quiz attempt
+ * @param attempt - Attempt without id
+ * @returns Promise resolving to the new attempt id
+ */
+export const saveQuizAttempt = async (attempt: Omit<QuizAttempt, 'id'>): Promise<number> => {
+  try {
+    return await db.quizAttempts.add(attempt as QuizAttempt);
+  } catch (error) {
+    console.error('Error saving quiz attempt:', error);
+    throw new Error('Failed to save quiz attempt');
+  }
+};
+
+/**
+ * Get a recording's quiz attempts, oldest first
+ * @param recordingId - Recording id
+ * @returns Promise resolving to the attempts
+ */
+export const getQuizAttempts = async (recordingId: number): Promise<QuizAttempt[]> => {
+  try {
+    return await db.quizAttempts.where('recordingId').equals(recordingId).sortBy('completedAt');
+  } catch (error) {
+    console.error('Error fetching quiz attempts:', error);
+    throw new Error('Failed to fetch quiz attempts');
+  }
+};
+
+/**
+ * Sum up a list of attempts
+ * @returns Summary, or null if there are no attempts
+ */
+const summarizeAttempts = (attempts: QuizAttempt[]): QuizScoreSummary | null => {
+  if (attempts.length === 0) {
+    return null;
+  }
+
+  const sorted = [...attempts].sort((a, b) => a.completedAt.getTime() - b.completedAt.getTime());
+  const scores = sorted.map((attempt) => attempt.score);
+  return {
+    attempts: sorted.length,
+    averageScore: scores.reduce((sum, score) => sum + score, 0) / scores.length,
+    bestScore: Math.max(...scores),
+    lastScore: scores[scores.length - 1],
+    lastAttemptAt: sorted[sorted.length - 1].completedAt,
+  };
+};
+
+/**
+ * Get quiz scores for one category, using the category index
+ * @param category - Category name
+ * @returns Promise resolving to the summary, or null if there are no attempts
+ */
+export const getCategoryQuizScore = async (category: string): Promise<QuizScoreSummary | null> => {
+  try {
+    const recordingIds = await db.recordings.where('category').equals(category).primaryKeys();
+    const attempts = await db.quizAttempts.where('recordingId').anyOf(recordingIds).toArray();
+    return summarizeAttempts(attempts);
+  } catch (error) {
+    console.error('Error fetching category quiz score:', error);
+    throw new Error('Failed to fetch category quiz score');
+  }
+};
+
+/**
+ * Get quiz scores for every category with at least one attempt
+ * @returns Promise resolving to category -> score summary, in category order
+ */
+export const getQuizScoresByCategory = async (): Promise<Map<string, QuizScoreSummary>> => {
+  const summaries = new Map<string, QuizScoreSummary>();
+  for (const category of await getAllCategories()) {
+    const summary = await getCategoryQuizScore(category);
+    if (summary) {
+      summaries.set(category, summary);
+    }
+  }
+  return summaries;
+};
+
+// ============================================================================
+// Conversations
+// ============================================================================
+
+// Longest conversation title, taken from the first question
+const MAX_CONVERSATION_TITLE = 60;
+
+/**
+ * Get a recording's conversations, most recently updated first
+ * @param recordingId - Recording id
+ * @returns Promise resolving to the conversations
+ */
+export const getConversations = async (recordingId: number): Promise<Conversation[]> => {
+  try {
+    const conversations = await db.conversations.where('recordingId').equals(recordingId).sortBy('updatedAt');
+    return conversations.reverse();
+  } catch (error) {
+    console.error('Error fetching conversations:', error);
+    throw new Error('Failed to fetch conversations');
+  }
+};
+
+/**
+ * Start a conversation with its first message
+ * @param recordingId - Recording the conversation is about
+ * @param message - First (user) message
+ * @returns Promise resolving to the new conversation id
+ */
+export const createConversation = async (recordingId: number, message: ChatMessage): Promise<number> => {
+  try {
+    const title = message.content.length > MAX_CONVERSATION_TITLE
+      ? `${message.content.slice(0, MAX_CONVERSATION_TITLE).trimEnd()}…`
+      : message.content;
+    return await db.conversations.add({
+      recordingId,
+      title,
+      messages: [message],
+      createdAt: message.createdAt,
+      updatedAt: message.createdAt,
+    });
+  } catch (error) {
+    console.error('Error creating conversation:', error);
+    throw new Error('Failed to save conversation');
+  }
+};
+
+/**
+ * Append a message to a conversation
+ * @param id - Conversation id
+ * @param message - Message to add
+ */
+export const addConversationMessage = async (id: number, message: ChatMessage): Promise<void> => {
+  try {
+    await db.conversations
+      .where('id')
+      .equals(id)
+      .modify((conversation) => {
+        conversation.messages.push(message);
+        conversation.updatedAt = message.createdAt;
+      });
+  } catch (error) {
+    console.error('Error saving message:', error);
+    throw new Error('Failed to save conversation');
+  }
+};
+
+/**
+ * Delete a conversation
+ * @param id - Conversation id
+ */
+export const deleteConversation = async (id: number): Promise<void> => {
+  try {
+    await db.conversations.delete(id);
+  } catch (error) {
+    console.error('Error deleting conversation:', error);
+    throw new Error('Failed to delete conversation');
+  }
+};
+
+// ============================================================================
+// Processing jobs
+// ============================================================================
+
+/**
+ * Get all processing jobs, oldest first
+ * @returns Promise resolving to the jobs
+ */
+export const getJobs = async (): Promise<ProcessingJob[]> => {
+  try {
+    return await db.jobs.orderBy('id').toArray();
+  } catch (error) {
+    console.error('Error fetching jobs:', error);
+    throw new Error('Failed to fetch processing jobs');
+  }
+};
+
+/**
+ * Get a processing job by id
+ * @param id - Job id
+ * @returns Promise resolving to the job or undefined if not found
+ */
+export const getJob = async (id: number): Promise<ProcessingJob | undefined> => {
+  try {
+    return await db.jobs.get(id);
+  } catch (error) {
+    console.error('Error fetching job:', error);
+    throw new Error('Failed to fetch processing job');
+  }
+};
+
+/**
+ * Get the processing job for a recording, if there is one
+ * @param recordingId - Recording id
+ * @returns Promise resolving to the job or undefined
+ */
+export const getRecordingJob = async (recordingId: number): Promise<ProcessingJob | undefined> => {
+  try {
+    return await db.jobs.where('recordingId').equals(recordingId).first();
+  } catch (error) {
+    console.error('Error fetching job:', error);
+    throw new Error('Failed to fetch processing job');
+  }
+};
+
+/**
+ * Add a processing job
+ * @param job - Job to add
+ * @returns Promise resolving to the new job id
+ */
+export const addJob = async (job: Omit<ProcessingJob, 'id'>): Promise<number> => {
+  try {
+    return await db.jobs.add(job);
+  } catch (error) {
+    console.error('Error adding job:', error);
+    throw new Error('Failed to save processing job');
+  }
+};
+
+/**
+ * Update a processing job
+ * @param id - Job id
+ * @param updates - Fields to change
+ * @returns Promise resolving to the number of updated jobs (0 if it was removed)
+ */
+export const updateJob = async (id: number, updates: Partial<ProcessingJob>): Promise<number> => {
+  try {
+    return await db.jobs.update(id, updates);
+  } catch (error) {
+    console.error('Error updating job:', error);
+    throw new Error('Failed to update processing job');
+  }
+};
+
+/**
+ * Mark a queued job as running, unless it was claimed already, isn't due
+ * yet or the number of running jobs has reached the limit
+ * Runs in one transaction, so two tabs can't both claim a job
+ * @param id - Job id
+ * @param maxRunning - Most jobs allowed to run at once
+ * @returns Promise resolving to true if the job was claimed
+ */
+export const claimJob = async (id: number, maxRunning: number): Promise<boolean> => {
+  try {
+    return await db.transaction('rw', db.jobs, async () => {
+      const job = await db.jobs.get(id);
+      if (!job || job.status !== 'queued' || job.runAfter.getTime() > Date.now()) {
+        return false;
+      }
+      if ((await db.jobs.where('status').equals('running').count()) >= maxRunning) {
+        return false;
+      }
+
+      await db.jobs.update(id, { status: 'running', error: undefined });
+      return true;
+    });
+  } catch (error) {
+    console.error('Error claiming job:', error);
+    throw new Error('Failed to start processing job');
+  }
+};
+
+/**
+ * Delete a processing job
+ * @param id - Job id
+ */
+export const deleteJob = async (id: number): Promise<void> => {
+  try {
+    await db.jobs.delete(id);
+  } catch (error) {
+    console.error('Error deleting job:', error);
+    throw new Error('Failed to delete processing job');
+  }
+};
+
+// ============================================================================
+// Recordings in progress
+// ============================================================================
+
+// Without Web Locks, a session counts as abandoned once no chunk has
+// arrived for this long
+const SESSION_STALE_MS = 5000;
+
+/**
+ * Name of the lock held by the tab recording a session
+ */
+const getSessionLockName = (sessionId: number): string => `dozey-recording-${sessionId}`;
+
+/**
+ * Mark a recording in progress as being recorded in this tab, so other
+ * tabs don't offer to recover or discard it
+ * The mark also goes when the tab closes or crashes
+ * @param sessionId - Session id
+ * @returns Function that removes the mark
+ */
+export const holdRecordingSession = (sessionId: number): (() => void) => {
+  const locks = getLockManager();
+  if (!locks) return () => {};
+
+  let release = () => {};
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  locks.request(getSessionLockName(sessionId), () => released).catch((error) => {
+    console.error('Error holding recording session:', error);
+  });
+  return release;
+};
+
+/**
+ * Run an action on a session only if no tab is recording it
+ * @throws Error if the session is still being recorded
+ */
+const withAbandonedSession = async <T>(sessionId: number, action: () => Promise<T>): Promise<T> => {
+  const locks = getLockManager();
+  if (!locks) return action();
+
+  return locks.request(getSessionLockName(sessionId), { ifAvailable: true }, async (lock) => {
+    if (!lock) {
+      throw new Error('This recording is still in progress in another tab.');
+    }
+    return action();
+  });
+};
+
+/**
+ * Start saving a recording in progress
+ * @param mimeType - Format of the chunks that will be added
+ * @returns Promise resolving to the new session id
+ */
+export const createRecordingSession = async (mimeType: string): Promise<number> => {
+  try {
+    const now = new Date();
+    return await db.recordingSessions.add({
+      startedAt: now,
+      mimeType,
+      duration: 0,
+      chunkCount: 0,
+      updatedAt: now,
+    });
+  } catch (error) {
+    console.error('Error creating recording session:', error);
+    throw new Error('Failed to start saving the recording');
+  }
+};
+
+/**
+ * Save the next chunk of a recording in progress
+ * @param sessionId - Session id
+ * @param data - Audio chunk from the recorder
+ * @param duration - Seconds recorded so far
+ */
+export const addRecordingChunk = async (sessionId: number, data: Blob, duration: number): Promise<void> => {
+  try {
+    await db.transaction('rw', db.recordingSessions, db.recordingChunks, async () => {
+      const session = await db.recordingSessions.get(sessionId);
+      if (!session) return;  // Already saved or discarded
+
+      await db.recordingChunks.add({ sessionId, index: session.chunkCount, data });
+      await db.recordingSessions.update(sessionId, {
+        chunkCount: session.chunkCount + 1,
+        duration,
+        updatedAt: new Date(),
+      });
+    });
+  } catch (error) {
+    console.error('Error saving recording chunk:', error);
+    throw new Error('Failed to save recording chunk');
+  }
+};
+
+/**
+ * Get recordings in progress, oldest first
+ * Outside of an active recording these are sessions left behind by a
+ * crash or a closed tab
+ * @returns Promise resolving to the sessions
+ */
+export const getRecordingSessions = async (): Promise<RecordingSession[]> => {
+  try {
+    return await db.recordingSessions.orderBy('startedAt').toArray();
+  } catch (error) {
+    console.error('Error fetching recording sessions:', error);
+    throw new Error('Failed to fetch unfinished recordings');
+  }
+};
+
+/**
+ * Get recordings left unfinished by a tab that closed or crashed
+ * Sessions still being recorded (in any tab) are left out
+ * @returns Promise resolving to the sessions, oldest first
+ */
+export const getUnfinishedRecordingSessions = async (): Promise<RecordingSession[]> => {
+  const sessions = await getRecordingSessions();
+  const locks = getLockManager();
+
+  // A session is being recorded while its tab holds the lock; without
+  // locks, while chunks keep arriving
+  let held = new Set<string>();
+  if (locks) {
+    const snapshot = await locks.query();
+    held = new Set((snapshot.held || []).map((lock) => lock.name || ''));
+  }
+  const staleBefore = Date.now() - SESSION_STALE_MS;
+
+  return sessions.filter((session) =>
+    session.id !== undefined &&
+    (locks ? !held.has(getSessionLockName(session.id)) : session.updatedAt.getTime() < staleBefore)
+  );
+};
+
+/**
+ * Discard an unfinished recording
+ * @param sessionId - Session id
+ * @throws Error if a tab is still recording it
+ */
+export const discardRecordingSession = (sessionId: number): Promise<void> => {
+  return withAbandonedSession(sessionId, () => deleteRecordingSession(sessionId));
+};
+
+/**
+ * Delete a recording in progress and its chunks
+ * @param sessionId - Session id
+ */
+export const deleteRecordingSession = async (sessionId: number): Promise<void> => {
+  try {
+    await db.transaction('rw', db.recordingSessions, db.recordingChunks, async () => {
+      await db.recordingChunks.where('sessionId').equals(sessionId).delete();
+      await db.recordingSessions.delete(sessionId);
+    });
+  } catch (error) {
+    console.error('Error deleting recording session:', error);
+    throw new Error('Failed to discard unfinished recording');
+  }
+};
+
+/**
+ * Save a finished recording and delete its session together, so its audio
+ * is never both a recording and an unfinished recording
+ * @param sessionId - Session the audio was saved to while recording
+ * @param recording - Recording to save
+ * @returns Promise resolving to the new recording id
+ */
+export const finishRecordingSession = (sessionId: number, recording: Omit<Recording, 'id'>): Promise<number> => {
+  const tables = [db.recordings, db.searchPostings, db.searchDocuments, db.recordingSessions, db.recordingChunks];
+  return db.transaction('rw', tables, async () => {
+    const id = await saveRecording(recording);
+    await deleteRecordingSession(sessionId);
+    return id;
+  });
+};
+
+/**
+ * Turn an unfinished recording's saved chunks into a normal recording
+ * @param sessionId - Session id
+ * @returns Promise resolving to the new recording id
+ * @throws Error if the session has no audio or a tab is still recording it
+ */
+export const recoverRecordingSession = (sessionId: number): Promise<number> => {
+  return withAbandonedSession(sessionId, () => saveRecordingSession(sessionId));
+};
+
+/**
+ * Save a session's chunks as a recording and delete the session
+ */
+const saveRecordingSession = async (sessionId: number): Promise<number> => {
+  let session: RecordingSession | undefined;
+  let chunks: RecordingChunk[];
+  try {
+    session = await db.recordingSessions.get(sessionId);
+    chunks = await db.recordingChunks.where('sessionId').equals(sessionId).sortBy('index');
+  } catch (error) {
+    console.error('Error reading recording session:', error);
+    throw new Error('Failed to read unfinished recording');
+  }
+
+  if (!session || chunks.length === 0) {
+    throw new Error('No audio was saved for this recording.');
+  }
+  const { startedAt, duration, mimeType } = session;
+
+  // Drops the session too, so a recording is never recovered twice
+  return finishRecordingSession(sessionId, {
+    filename: `Recording ${startedAt.toLocaleDateString()} ${startedAt.toLocaleTimeString()} (recovered)`,
+    date: startedAt,
+    duration,
+    audioBlob: new Blob(chunks.map((chunk) => chunk.data), { type: mimeType }),
+    mimeType,
+    status: 'recorded',
+  });
+};
@@ -0,0 +1,62 @@
+/**
+ * Text Diff Utility
+ *
+ * Line-based diff used to compare notes revisions.
+ * Uses the longest common subsequence of lines, which is plenty fast
+ * for documents the size of lecture notes.
+ */
+
+// A single line in a diff
+export interface DiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+/**
+ * Compute a line diff between two texts
+ * @param oldText - Earlier version
+ * @param newText - Later version
+ * @returns Lines in display order, marked as added, removed or unchanged
+ */
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  // lcs[i][j] = length of the LCS of oldLines[i..] and newLines[j..]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = oldLines[i] === newLines[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  // Walk the table to build the diff
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: 'unchanged', text: oldLines[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'removed', text: oldLines[i] });
+      i++;
+    } else {
+      result.push({ type: 'added', text: newLines[j] });
+      j++;
+    }
+  }
+  while (i < n) {
+    result.push({ type: 'removed', text: oldLines[i++] });
+  }
+  while (j < m) {
+    result.push({ type: 'added', text: newLines[j++] });
+  }
+
+  return result;
+};
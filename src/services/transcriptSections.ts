@@ -0,0 +1,101 @@
+/**
+ * Transcript Sections
+ *
+ * Splits transcripts that are too long for a model's context window into
+ * sections, breaking on natural boundaries: Whisper segments when they are
+ * available, otherwise paragraphs, then sentences.
+ */
+
+import { TranscriptSegment } from '../types';
+
+// A piece of a transcript small enough to send in one request
+export interface TranscriptSection {
+  text: string;
+  start?: number;           // Start time in the recording (seconds), if known
+  end?: number;             // End time in the recording (seconds), if known
+}
+
+/**
+ * Split text that is too long into sentence-sized pieces
+ * Sentences longer than the limit are split between words
+ * @param text - Text to split
+ * @param maxChars - Longest piece allowed
+ * @returns Pieces in order, each at most maxChars long
+ */
+const splitLongText = (text: string, maxChars: number): string[] => {
+  if (text.length <= maxChars) {
+    return [text];
+  }
+
+  const pieces: string[] = [];
+  for (const sentence of text.split(/(?<=[.!?])\s+/)) {
+    if (sentence.length <= maxChars) {
+      pieces.push(sentence);
+      continue;
+    }
+
+    // No sentence boundary close enough: fall back to words
+    let current = '';
+    for (const word of sentence.split(/\s+/)) {
+      if (current && current.length + word.length + 1 > maxChars) {
+        pieces.push(current);
+        current = '';
+      }
+      current = current ? `${current} ${word}` : word;
+    }
+    if (current) {
+      pieces.push(current);
+    }
+  }
+  return pieces;
+};
+
+/**
+ * Split a transcript into sections of at most maxChars characters
+ * @param transcript - Full transcript text
+ * @param segments - Timestamped segments, if the transcript has them
+ * @param maxChars - Longest section allowed
+ * @returns Sections in order (a single section if the transcript fits)
+ */
+export const splitTranscript = (
+  transcript: string,
+  segments: TranscriptSegment[] | undefined,
+  maxChars: number
+): TranscriptSection[] => {
+  if (transcript.length <= maxChars) {
+    return [{ text: transcript, start: segments?.[0]?.start, end: segments?.[segments.length - 1]?.end }];
+  }
+
+  // Smallest units the sections are built from
+  const units: TranscriptSection[] = segments && segments.length > 0
+    ? segments.flatMap((segment) =>
+        splitLongText(segment.text, maxChars).map((text) => ({
+          text,
+          start: segment.start,
+          end: segment.end,
+        }))
+      )
+    : transcript
+        .split(/\n\s*\n/)
+        .flatMap((paragraph) => splitLongText(paragraph.trim(), maxChars))
+        .filter((text) => text.length > 0)
+        .map((text) => ({ text }));
+
+  // Paragraph breaks are kept when joining paragraphs back together
+  const joiner = segments && segments.length > 0 ? ' ' : '\n\n';
+
+  // Pack units greedily into sections
+  const sections: TranscriptSection[] = [];
+  let current: TranscriptSection | null = null;
+  for (const unit of units) {
+    if (current && current.text.length + joiner.length + unit.text.length <= maxChars) {
+      current.text += joiner + unit.text;
+      current.end = unit.end;
+    } else {
+      current = { ...unit };
+      sections.push(current);
+    }
+  }
+
+  return sections;
+};
@@ -0,0 +1,136 @@
+/**
+ * Transcription Service
+ *
+ * Picks the configured transcription provider and transcribes recordings
+ * with it. Recordings larger than the provider's upload limit are split
+ * into overlapping chunks, transcribed one after another and stitched
+ * back together.
+ */
+
+import {
+  TranscriptionProgress,
+  TranscriptionProvider,
+  TranscriptionProviderId,
+  TranscriptionResult,
+  TranscriptionSettings,
+  TranscriptSegment,
+} from '../types';
+import { needsChunking, splitAudioIntoChunks, appendChunkSegments } from './audioChunker';
+import { createWhisperProvider } from './whisperApi';
+import { createMockTranscriptionProvider } from './mockTranscription';
+
+// Providers offered in Settings
+export const TRANSCRIPTION_PROVIDER_OPTIONS: {
+  id: TranscriptionProviderId;
+  label: string;
+  description: string;
+}[] = [
+  {
+    id: 'openai',
+    label: 'OpenAI Whisper',
+    description: 'Uses the OpenAI API key above.',
+  },
+  {
+    id: 'openai-compatible',
+    label: 'OpenAI-compatible server',
+    description:
+      'Any server exposing /audio/transcriptions, such as a self-hosted faster-whisper or whisper.cpp server. Audio stays on your network.',
+  },
+  {
+    id: 'mock',
+    label: 'Mock (testing)',
+    description: 'Returns a placeholder transcript without contacting any server.',
+  },
+];
+
+/**
+ * Create the provider described by the user's settings
+ * @param settings - Transcription settings
+ * @param openaiKey - OpenAI API key (used by the 'openai' provider)
+ * @returns Configured provider
+ * @throws Error if the provider is missing required configuration
+ */
+export const getTranscriptionProvider = (
+  settings: TranscriptionSettings,
+  openaiKey: string | null
+): TranscriptionProvider => {
+  switch (settings.provider) {
+    case 'openai':
+      if (!openaiKey) {
+        throw new Error('OpenAI API key not configured. Please add your API key in Settings.');
+      }
+      return createWhisperProvider({
+        id: 'openai',
+        name: 'OpenAI API',
+        apiKey: openaiKey,
+        model: settings.model || 'whisper-1',
+        language: settings.language,
+      });
+
+    case 'openai-compatible':
+      if (!settings.baseUrl.trim()) {
+        throw new Error('Transcription server URL not configured. Please add it in Settings.');
+      }
+      if (!settings.model.trim()) {
+        throw new Error('Transcription model not configured. Please add it in Settings.');
+      }
+      return createWhisperProvider({
+        id: 'openai-compatible',
+        name: 'Transcription server',
+        apiKey: settings.apiKey,
+        baseUrl: settings.baseUrl.trim().replace(/\/+$/, ''),
+        model: settings.model.trim(),
+        language: settings.language,
+      });
+
+    case 'mock':
+      return createMockTranscriptionProvider();
+
+    default:
+      throw new Error('Unknown transcription provider. Please choose one in Settings.');
+  }
+};
+
+/**
+ * Transcribe audio with a transcription provider
+ * @param audioBlob - Audio file as Blob
+ * @param provider - Provider to send the audio to
+ * @param onProgress - Optional callback invoked before each chunk is sent
+ * @param signal - Optional signal that cancels the upload in progress
+ * @returns Promise resolving to transcript text and timestamped segments
+ * @throws Error if transcription fails or is aborted
+ */
+export const transcribeAudio = async (
+  audioBlob: Blob,
+  provider: TranscriptionProvider,
+  onProgress?: (progress: TranscriptionProgress) => void,
+  signal?: AbortSignal
+): Promise<TranscriptionResult> => {
+  let segments: TranscriptSegment[] = [];
+
+  if (!needsChunking(audioBlob, provider.maxUploadBytes)) {
+    onProgress?.({ chunk: 1, totalChunks: 1 });
+    segments = await provider.transcribeFile(audioBlob, signal);
+  } else {
+    // Too large for a single upload, so long recordings are sent in pieces
+    const chunks = await splitAudioIntoChunks(audioBlob);
+
+    for (const chunk of chunks) {
+      if (signal?.aborted) {
+        throw new Error('Transcription was cancelled.');
+      }
+      onProgress?.({ chunk: chunk.index + 1, totalChunks: chunks.length });
+      const chunkSegments = await provider.transcribeFile(chunk.blob, signal);
+      segments = appendChunkSegments(segments, chunkSegments, chunk);
+    }
+  }
+
+  // Plain transcript is the joined segment text
+  const transcript = segments.map((segment) => segment.text).join(' ').trim();
+
+  if (!transcript) {
+    throw new Error('Transcription returned empty text. The audio may be inaudible or too short.');
+  }
+
+  return { text: transcript, segments };
+};
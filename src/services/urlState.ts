@@ -0,0 +1,122 @@
+/**
+ * URL State Service
+ *
+ * Keeps the recordings list filter and sort order in the page URL
+ * so a filtered view can be bookmarked or shared.
+ */
+
+import { FilterOptions, SortOptions, SortField, RecordingStatus } from '../types';
+
+// Default sort: newest first
+export const DEFAULT_SORT: SortOptions = { field: 'date', direction: 'desc' };
+
+const SORT_FIELDS: SortField[] = ['relevance', 'date', 'duration', 'name', 'priority'];
+const STATUSES: RecordingStatus[] = [
+  'recorded', 'transcribing', 'transcribed', 'generating_notes', 'complete', 'error',
+];
+const PRIORITIES = ['low', 'medium', 'high'] as const;
+
+/**
+ * Format a Date as YYYY-MM-DD in local time
+ */
+export const toDateInputValue = (date: Date): string => {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Parse a YYYY-MM-DD value as local time
+ * @param value - Date string from a date input or the URL
+ * @param endOfDay - Use 23:59:59.999 instead of midnight (for range ends)
+ * @returns Date, or undefined if the value is not a valid date
+ */
+export const fromDateInputValue = (value: string, endOfDay = false): Date | undefined => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return undefined;
+
+  const date = endOfDay
+    ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]), 23, 59, 59, 999)
+    : new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Read filter and sort state from a query string
+ * Unknown or invalid values are ignored
+ * @param search - Query string (e.g., window.location.search)
+ */
+export const parseListState = (search: string): { filters: FilterOptions; sort: SortOptions } => {
+  const params = new URLSearchParams(search);
+  const filters: FilterOptions = {};
+
+  const query = params.get('q');
+  if (query) filters.searchQuery = query;
+
+  // One parameter per tag, since tags may contain commas
+  const tags = params.getAll('tag').filter(Boolean);
+  if (tags.length > 0) filters.tags = tags;
+
+  const category = params.get('category');
+  if (category) filters.category = category;
+
+  const status = params.get('status') as RecordingStatus | null;
+  if (status && STATUSES.includes(status)) filters.status = status;
+
+  const studied = params.get('studied');
+  if (studied === 'true' || studied === 'false') filters.isStudied = studied === 'true';
+
+  const priority = params.get('priority') as FilterOptions['priority'] | null;
+  if (priority && PRIORITIES.includes(priority)) filters.priority = priority;
+
+  const from = params.get('from');
+  if (from) filters.dateFrom = fromDateInputValue(from);
+
+  const to = params.get('to');
+  if (to) filters.dateTo = fromDateInputValue(to, true);
+
+  const sortField = params.get('sort') as SortField | null;
+  const direction = params.get('dir');
+  const sort: SortOptions = {
+    field: sortField && SORT_FIELDS.includes(sortField) ? sortField : DEFAULT_SORT.field,
+    direction: direction === 'asc' || direction === 'desc' ? direction : DEFAULT_SORT.direction,
+  };
+
+  return { filters, sort };
+};
+
+/**
+ * Write filter and sort state to the current URL
+ * Uses replaceState so typing in the search box doesn't flood the history
+ * @param filters - Active filters
+ * @param sort - Active sort order
+ */
+export const writeListState = (filters: FilterOptions, sort: SortOptions): void => {
+  const params = new URLSearchParams(window.location.search);
+  const keys = ['q', 'tag', 'category', 'status', 'studied', 'priority', 'from', 'to', 'sort', 'dir'];
+  keys.forEach((key) => params.delete(key));
+
+  if (filters.searchQuery) params.set('q', filters.searchQuery);
+  filters.tags?.forEach((tag) => params.append('tag', tag));
+  if (filters.category) params.set('category', filters.category);
+  if (filters.status) params.set('status', filters.status);
+  if (filters.isStudied !== undefined) params.set('studied', String(filters.isStudied));
+  if (filters.priority) params.set('priority', filters.priority);
+  if (filters.dateFrom) params.set('from', toDateInputValue(filters.dateFrom));
+  if (filters.dateTo) params.set('to', toDateInputValue(filters.dateTo));
+  if (sort.field !== DEFAULT_SORT.field) params.set('sort', sort.field);
+  if (sort.direction !== DEFAULT_SORT.direction) params.set('dir', sort.direction);
+
+  const query = params.toString();
+  const url = `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`;
+  window.history.replaceState(window.history.state, '', url);
+};
+
+/**
+ * Check whether any filter is active
+ */
+export const hasActiveFilters = (filters: FilterOptions): boolean => {
+  return Object.values(filters).some((value) =>
+    Array.isArray(value) ? value.length > 0 : value !== undefined && value !== ''
+  );
+};
@@ -1,90 +1,175 @@
 /**
- * OpenAI Whisper API Service
+ * Whisper API Service
  *
- * Handles audio transcription using OpenAI's Whisper model
+ * Transcription provider for the OpenAI Whisper API and for servers that
+ * expose the same API (faster-whisper-server, whisper.cpp with an
+ * OpenAI-compatible endpoint, LocalAI, ...)
  */
 
 import OpenAI from 'openai';
+import { TranscriptionProvider, TranscriptionProviderId, TranscriptSegment } from '../types';
+import { MAX_UPLOAD_BYTES } from './audioChunker';
+import { TemporaryError } from './errors';
+
+// Connection details for a Whisper-compatible endpoint
+interface WhisperProviderOptions {
+  id: TranscriptionProviderId;
+  name: string;             // Display name used in error messages
+  apiKey: string;
+  baseUrl?: string;         // Omit for api.openai.com
+  model: string;
+  language: string;         // Empty to let the server detect the language
+}
 
 /**
- * Transcribe audio using OpenAI Whisper API
- * @param audioBlob - Audio file as Blob
- * @param apiKey - OpenAI API key
- * @returns Promise resolving to transcript text
- * @throws Error if transcription fails
+ * Pick a file extension Whisper will recognise for a MIME type
+ * @param mimeType - Blob MIME type (may include codec parameters)
+ * @returns File extension without the dot
  */
-export const transcribeAudio = async (
-  audioBlob: Blob,
-  apiKey: string
-): Promise<string> => {
-  try {
-    // Check file size (Whisper has 25MB limit)
-    const sizeMB = audioBlob.size / (1024 * 1024);
-    if (sizeMB > 25) {
-      throw new Error(
-        `Audio file too large (${sizeMB.toFixed(1)}MB). Whisper API supports files up to 25MB. ` +
-        'Consider recording shorter segments.'
+const getFileExtension = (mimeType: string): string => {
+  const baseType = mimeType.split(';')[0].trim();
+  switch (baseType) {
+    case 'audio/wav':
+    case 'audio/x-wav':
+      return 'wav';
+    case 'audio/ogg':
+      return 'ogg';
+    case 'audio/webm':
+      return 'webm';
+    case 'audio/flac':
+    case 'audio/x-flac':
+      return 'flac';
+    case 'audio/mpeg':
+      return 'mp3';
+    case 'audio/mp4':
+    case 'audio/x-m4a':
+      return 'm4a';
+    default:
+      return 'webm';
+  }
+};
+
+/**
+ * Convert an API or network failure into a user-facing error
+ * @param error - Error thrown by the OpenAI SDK or fetch
+ * @param options - Provider the request was sent to
+ * @returns Error with a message suitable for display
+ */
+const toTranscriptionError = (error: unknown, options: WhisperProviderOptions): Error => {
+  const isOpenAI = options.id === 'openai';
+
+  // Handle OpenAI SDK errors
+  if (error instanceof OpenAI.APIUserAbortError) {
+    return new Error('Transcription was cancelled.');
+  }
+  if (error instanceof OpenAI.APIConnectionError) {
+    return new TemporaryError(
+      isOpenAI
+        ? 'Network error. Please check your internet connection and try again.'
+        : `Could not reach the transcription server at ${options.baseUrl}. Check that it is running and allows requests from this site (CORS).`
+    );
+  }
+
+  if (error instanceof OpenAI.APIError) {
+    // Handle specific error codes
+    if (error.status === 401) {
+      return new Error(
+        isOpenAI
+          ? 'Invalid OpenAI API key. Please check your API key in Settings.'
+          : `${options.name} rejected the API key. Please check your transcription settings.`
+      );
+    } else if (error.status === 404) {
+      return new Error(
+        `${options.name} could not find the transcription endpoint or model "${options.model}". Please check your transcription settings.`
       );
+    } else if (error.status === 429) {
+      return new TemporaryError(`${options.name} rate limit exceeded. Please try again later.`);
+    } else if (error.status === 413) {
+      return new Error(`Audio file too large for ${options.name}.`);
+    } else if (error.status !== undefined && error.status >= 500) {
+      return new TemporaryError(`${options.name} error: ${error.message}`);
+    } else {
+      return new Error(`${options.name} error: ${error.message}`);
     }
+  }
 
-    // Convert Blob to File object (required by OpenAI SDK)
-    // Use .webm extension as that's the expected format
-    const audioFile = new File([audioBlob], 'recording.webm', {
-      type: audioBlob.type || 'audio/webm',
-    });
+  // Handle network errors
+  if (error instanceof TypeError && error.message.includes('fetch')) {
+    return new TemporaryError('Network error. Please check your internet connection and try again.');
+  }
 
-    // Initialize OpenAI client
-    // dangerouslyAllowBrowser: true is needed for client-side usage
-    // In production, this should go through a backend proxy
-    const openai = new OpenAI({
-      apiKey: apiKey,
-      dangerouslyAllowBrowser: true,
-    });
+  // Re-throw error if it's already formatted
+  if (error instanceof Error) {
+    return error;
+  }
+
+  // Generic error fallback
+  return new Error('Failed to transcribe audio. Please try again.');
+};
+
+/**
+ * Create a transcription provider backed by a Whisper-compatible API
+ * @param options - Endpoint, credentials and model to use
+ * @returns Provider that sends files to the endpoint
+ */
+export const createWhisperProvider = (options: WhisperProviderOptions): TranscriptionProvider => {
+  // Initialize OpenAI client
+  // dangerouslyAllowBrowser: true is needed for client-side usage
+  // In production, this should go through a backend proxy
+  const openai = new OpenAI({
+    // The SDK requires a key; local servers usually ignore it
+    apiKey: options.apiKey || 'not-needed',
+    baseURL: options.baseUrl || undefined,
+    dangerouslyAllowBrowser: true,
+  });
 
-    // Call Whisper API
-    const response = await openai.audio.transcriptions.create({
-      file: audioFile,
-      model: 'whisper-1',
-      language: 'en',              // English language
-      response_format: 'json',     // Get JSON response with text
-      temperature: 0.2,            // Lower temperature for more consistent output
+  /**
+   * Send a single file to the transcription endpoint
+   * @param audioBlob - Audio under the upload limit
+   * @param signal - Optional signal that cancels the request
+   * @returns Promise resolving to timestamped segments relative to the file start
+   */
+  const transcribeFile = async (audioBlob: Blob, signal?: AbortSignal): Promise<TranscriptSegment[]> => {
+    // Convert Blob to File object (required by OpenAI SDK)
+    // The extension must match the content so Whisper can detect the format
+    const mimeType = audioBlob.type || 'audio/webm';
+    const audioFile = new File([audioBlob], `recording.${getFileExtension(mimeType)}`, {
+      type: mimeType,
     });
 
-    // Extract transcript text
-    const transcript = response.text;
+    try {
+      const response = await openai.audio.transcriptions.create({
+        file: audioFile,
+        model: options.model,
+        language: options.language || undefined,
+        response_format: 'verbose_json',  // Include timestamped segments
+        temperature: 0.2,                 // Lower temperature for more consistent output
+      }, { signal });
 
-    if (!transcript || transcript.trim().length === 0) {
-      throw new Error('Transcription returned empty text. The audio may be inaudible or too short.');
-    }
+      const segments = (response.segments || [])
+        .map((segment) => ({
+          text: segment.text.trim(),
+          start: segment.start,
+          end: segment.end,
+        }))
+        .filter((segment) => segment.text.length > 0);
 
-    return transcript.trim();
-
-  } catch (error) {
-    // Handle OpenAI SDK errors
-    if (error instanceof OpenAI.APIError) {
-      // Handle specific error codes
-      if (error.status === 401) {
-        throw new Error('Invalid OpenAI API key. Please check your API key in Settings.');
-      } else if (error.status === 429) {
-        throw new Error('OpenAI API rate limit exceeded. Please try again later.');
-      } else if (error.status === 413) {
-        throw new Error('Audio file too large for Whisper API (max 25MB).');
-      } else {
-        throw new Error(`OpenAI API error: ${error.message}`);
+      // Fall back to a single segment if no segment data was returned
+      // (some compatible servers only return the text)
+      if (segments.length === 0 && response.text?.trim()) {
+        return [{ text: response.text.trim(), start: 0, end: response.duration || 0 }];
       }
-    }
 
-    // Handle network errors
-    if (error instanceof TypeError && error.message.includes('fetch')) {
-      throw new Error('Network error. Please check your internet connection and try again.');
+      return segments;
+    } catch (error) {
+      throw toTranscriptionError(error, options);
     }
+  };
 
-    // Re-throw error if it's already formatted
-    if (error instanceof Error) {
-      throw error;
-    }
-
-    // Generic error fallback
-    throw new Error('Failed to transcribe audio. Please try again.');
-  }
+  return {
+    id: options.id,
+    name: options.name,
+    maxUploadBytes: MAX_UPLOAD_BYTES,
+    transcribeFile,
+  };
 };
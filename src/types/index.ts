@@ -7,7 +7,7 @@ export type RecordingStatus =
   | 'recorded'           // Audio has been recorded
   | 'transcribing'       // Currently sending to Whisper API
   | 'transcribed'        // Transcription completed
-  | 'generating_notes'   // Currently sending to Claude API
+  | 'generating_notes'   // Currently generating notes with the language model
   | 'complete'           // Notes have been generated
   | 'error';             // Something went wrong
 
@@ -20,9 +20,11 @@ export interface Recording {
   duration: number;         // Length in seconds
   audioBlob: Blob;          // The actual audio data (WebM format)
   transcript?: string;      // Text from Whisper API
-  notes?: string;           // Formatted notes from Claude API
+  notes?: string;           // Formatted notes from the language model
+  partialNotes?: string;    // Notes received so far while generation is streaming
   status: RecordingStatus;  // Current workflow state
   errorMessage?: string;    // Error details if status is 'error'
+  failedStep?: JobStep;     // Processing step that failed if status is 'error'
   mimeType: string;         // Audio format (e.g., 'audio/webm;codecs=opus')
 
   // Phase 1A: Enhanced organization fields
@@ -37,6 +39,31 @@ export interface Recording {
 
   // Phase 4A: Timestamp support
   transcriptSegments?: TranscriptSegment[];  // Whisper segments with timestamps
+
+  templateId?: string;      // Note template for this recording (overrides the category default)
+}
+
+// What a recording captures: the microphone, audio playing in a browser
+// tab (or the whole system, where the browser allows it), or both mixed
+export type AudioSource = 'microphone' | 'tab' | 'both';
+
+// Recording in progress, saved chunk by chunk so a crash loses at most
+// a second of audio (stored in IndexedDB until the recording is saved)
+export interface RecordingSession {
+  id?: number;              // Auto-increment primary key
+  startedAt: Date;
+  mimeType: string;         // Format of the recorded chunks
+  duration: number;         // Seconds recorded so far (excluding pauses)
+  chunkCount: number;       // Chunks saved so far
+  updatedAt: Date;          // When the last chunk was saved
+}
+
+// Piece of audio from a recording in progress
+export interface RecordingChunk {
+  id?: number;              // Auto-increment primary key
+  sessionId: number;
+  index: number;            // Position within the session
+  data: Blob;
 }
 
 // Transcript segment with timestamp data
@@ -46,6 +73,218 @@ export interface TranscriptSegment {
   end: number;              // End time in seconds
 }
 
+// Where a stored version of the notes came from
+export type NoteRevisionSource =
+  | 'ai'                 // Generated by the notes model
+  | 'user'               // Hand edit saved in the notes editor
+  | 'restore';           // Earlier revision restored from history
+
+// Saved version of a recording's notes (stored in IndexedDB)
+export interface NoteRevision {
+  id?: number;              // Auto-increment primary key
+  recordingId: number;      // Recording these notes belong to
+  notes: string;            // Full Markdown notes at this revision
+  source: NoteRevisionSource;
+  createdAt: Date;          // When the revision was saved
+}
+
+// Instructions that shape the generated notes (e.g., Cornell, meeting minutes)
+export interface NoteTemplate {
+  id: string;               // 'builtin-*' for built-ins, a UUID for user templates
+  name: string;
+  description: string;
+  instructions: string;     // System prompt; may contain {{variables}}
+  builtIn?: boolean;        // Shipped with the app (read-only)
+  updatedAt?: Date;         // Last edit (user templates)
+}
+
+// Default note template for recordings in a category
+export interface CategoryTemplate {
+  category: string;         // Primary key
+  templateId: string;
+}
+
+// Question/answer card generated from a recording, scheduled with SM-2
+export interface Flashcard {
+  id?: number;              // Auto-increment primary key
+  recordingId: number;      // Recording the card was generated from
+  question: string;
+  answer: string;
+  createdAt: Date;
+  due: Date;                // Next time the card should be reviewed
+  interval: number;         // Days between the last review and `due`
+  easeFactor: number;       // SM-2 ease factor (at least 1.3)
+  repetitions: number;      // Successful reviews in a row
+  lapses: number;           // Times the card was forgotten
+  lastGrade?: ReviewGrade;  // Grade given at the last review
+  lastReviewedAt?: Date;
+}
+
+// How well a flashcard was remembered
+export type ReviewGrade =
+  | 'again'              // Forgotten; review again this session
+  | 'hard'               // Remembered with serious difficulty
+  | 'good'               // Remembered after some thought
+  | 'easy';              // Remembered instantly
+
+// Kinds of quiz question
+export type QuizQuestionType =
+  | 'multiple-choice'    // Pick one of several choices
+  | 'short-answer';      // Free text, graded by the language model
+
+// Practice question generated from a transcript
+export interface QuizQuestion {
+  type: QuizQuestionType;
+  question: string;
+  choices?: string[];       // Options for multiple-choice questions
+  answer: string;           // Correct choice, or a model answer for short-answer questions
+  explanation: string;      // Why the answer is correct
+  time?: number;            // Start of the transcript segment that supports the answer (seconds)
+}
+
+// Set of practice questions for a recording (stored in IndexedDB)
+export interface Quiz {
+  id?: number;              // Auto-increment primary key
+  recordingId: number;      // Recording the questions were generated from
+  questions: QuizQuestion[];
+  createdAt: Date;
+}
+
+// Graded response to one quiz question
+export interface QuizAnswer {
+  response: string;         // What the user answered
+  correct: boolean;
+  feedback?: string;        // Grader's comment on short answers
+}
+
+// One completed run through a quiz (stored in IndexedDB)
+export interface QuizAttempt {
+  id?: number;              // Auto-increment primary key
+  quizId: number;
+  recordingId: number;
+  answers: QuizAnswer[];    // In question order
+  score: number;            // Share of correct answers (0-1)
+  completedAt: Date;
+}
+
+// Quiz results summed over a set of recordings
+export interface QuizScoreSummary {
+  attempts: number;
+  averageScore: number;     // Mean attempt score (0-1)
+  bestScore: number;
+  lastScore: number;        // Score of the most recent attempt
+  lastAttemptAt: Date;
+}
+
+// Message in a conversation about a recording
+export interface ChatMessage extends ChatTurn {
+  createdAt: Date;
+}
+
+// Conversation about one recording (stored in IndexedDB)
+export interface Conversation {
+  id?: number;              // Auto-increment primary key
+  recordingId: number;      // Recording the questions are about
+  title: string;            // First question, shortened
+  messages: ChatMessage[];  // Oldest first; assistant messages cite segments as [n]
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Transcript excerpt used to answer a library-wide question
+export interface LibrarySource {
+  recordingId: number;
+  title: string;            // Recording name
+  date: Date;               // Recording date
+  text: string;             // Excerpt sent to the language model
+  start?: number;           // Start of the excerpt in the recording (seconds), if known
+}
+
+// Answer to a question about the whole library
+export interface LibraryAnswer {
+  question: string;
+  answer: string;           // Cites sources as [S1], [S2], ...
+  sources: LibrarySource[]; // Excerpts the answer was based on, in citation order
+  recordingCount: number;   // Recordings searched
+}
+
+// Step of a background processing job
+export type JobStep = 'transcribe' | 'notes';
+
+// Lifecycle of a background processing job (finished jobs are deleted)
+export type JobStatus =
+  | 'queued'             // Waiting for a free slot or for its retry time
+  | 'running'            // Being processed
+  | 'failed';            // Gave up; can be retried from the step that failed
+
+// Background processing of a recording (stored in IndexedDB)
+export interface ProcessingJob {
+  id?: number;              // Auto-increment primary key
+  recordingId: number;
+  steps: JobStep[];         // Steps still to run, in order (finished steps are removed)
+  status: JobStatus;
+  attempts: number;         // Failed attempts at the current step
+  runAfter: Date;           // Not started before this time (retry backoff)
+  createdAt: Date;
+  error?: string;           // Last failure message
+}
+
+// Action applied to several selected recordings at once
+export type BatchAction =
+  | { type: 'transcribe' }
+  | { type: 'generate_notes' }
+  | { type: 'regenerate_notes'; templateId?: string }   // Template to switch to (omit to keep each recording's)
+  | { type: 'delete' }
+  | { type: 'set_studied'; isStudied: boolean }
+  | { type: 'add_tags'; tags: string[] }
+  | { type: 'remove_tags'; tags: string[] }
+  | { type: 'set_category'; category?: string };        // Omit to clear the category
+
+// What happened to one recording in a batch
+export interface BatchItemResult {
+  recordingId: number;
+  name: string;             // Recording name at the time of the batch
+  outcome: 'done' | 'queued' | 'skipped' | 'failed';
+  message?: string;         // Why the recording was skipped or failed
+}
+
+// Outcome of applying an action to several recordings
+export interface BatchResult {
+  label: string;            // Description of the action, e.g. "Generate notes"
+  items: BatchItemResult[];
+}
+
+// Live progress of a running job (kept in memory only)
+export interface JobProgress {
+  message: string;          // What the job is doing, e.g. "Transcribing chunk 2 of 5"
+  notes?: string;           // Notes received so far while they stream in
+}
+
+// File formats a recording can be exported to
+export type ExportFormat = 'markdown' | 'pdf' | 'docx' | 'srt' | 'vtt';
+
+// Sections to include in a document export (Markdown, PDF, DOCX)
+export interface ExportOptions {
+  includeMetadata: boolean;     // Date, duration, category and tags
+  includeNotes: boolean;        // Study notes
+  includeTranscript: boolean;   // Full transcript
+  includeTimestamps: boolean;   // Prefix transcript segments with their start time
+}
+
+// How a library backup is restored
+export type RestoreMode =
+  | 'merge'              // Add backed-up recordings, skipping duplicates
+  | 'replace';           // Delete the current library first
+
+// Outcome of restoring a library backup
+export interface RestoreResult {
+  imported: number;           // Recordings added to the library
+  skippedDuplicates: number;  // Recordings already present (merge mode)
+}
+
+// Top-level pages of the app
+export type AppPage = 'home' | 'ask' | 'review' | 'settings';
+
 // Context interface for global app state
 export interface AppContextType {
   // API Keys
@@ -54,9 +293,21 @@ export interface AppContextType {
   setOpenAIKey: (key: string) => void;
   setAnthropicKey: (key: string) => void;
 
+  // Transcription backend
+  transcriptionSettings: TranscriptionSettings;
+  setTranscriptionSettings: (settings: TranscriptionSettings) => void;
+
+  // Note generation backend
+  notesSettings: NotesSettings;
+  setNotesSettings: (settings: NotesSettings) => void;
+
+  // Background processing
+  jobConcurrency: number;
+  setJobConcurrency: (value: number) => void;
+
   // Navigation
-  currentPage: 'home' | 'settings';
-  navigateTo: (page: 'home' | 'settings') => void;
+  currentPage: AppPage;
+  navigateTo: (page: AppPage) => void;
 
   // Recording state
   isRecording: boolean;
@@ -83,3 +334,151 @@ export interface FilterOptions {
   dateFrom?: Date;          // Date range start
   dateTo?: Date;            // Date range end
 }
+
+// Result of transcribing a recording
+export interface TranscriptionResult {
+  text: string;                   // Full transcript (segments joined)
+  segments: TranscriptSegment[];  // Timestamped segments, relative to recording start
+}
+
+// Progress reported while transcribing long recordings in chunks
+export interface TranscriptionProgress {
+  chunk: number;            // 1-based index of the chunk being transcribed
+  totalChunks: number;      // Total number of chunks
+}
+
+// Speech-to-text backends the app can use
+export type TranscriptionProviderId =
+  | 'openai'             // OpenAI Whisper API
+  | 'openai-compatible'  // Any server exposing the OpenAI transcription API
+  | 'mock';              // Canned transcript for testing without a server
+
+// User configuration for transcription (stored in localStorage)
+export interface TranscriptionSettings {
+  provider: TranscriptionProviderId;
+  baseUrl: string;          // Server URL for 'openai-compatible' (e.g., http://localhost:8000/v1)
+  apiKey: string;           // Optional key for 'openai-compatible' (OpenAI uses its own key)
+  model: string;            // Model name (e.g., whisper-1)
+  language: string;         // ISO-639-1 code, or empty to auto-detect
+}
+
+// A speech-to-text backend
+// Chunking and stitching of long recordings are handled by the caller
+export interface TranscriptionProvider {
+  id: TranscriptionProviderId;
+  name: string;             // Display name used in error messages
+  maxUploadBytes: number;   // Larger files are split into chunks first
+  transcribeFile: (audioBlob: Blob, signal?: AbortSignal) => Promise<TranscriptSegment[]>;  // Segments relative to file start
+}
+
+// Language model backends that can write study notes
+export type NotesProviderId =
+  | 'anthropic'          // Anthropic Claude API
+  | 'openai-compatible'  // Any OpenAI-style chat endpoint (Ollama, llama.cpp, vLLM, ...)
+  | 'fake';              // Deterministic notes built locally, for testing
+
+// Generation parameters, configured separately for each provider
+export interface NotesModelSettings {
+  model: string;            // Model name
+  temperature: number;      // Sampling temperature
+  maxTokens: number;        // Output token limit per request
+  contextTokens: number;    // Context window of the model (input + output)
+}
+
+// User configuration for note generation (stored in localStorage)
+export interface NotesSettings {
+  provider: NotesProviderId;
+  baseUrl: string;          // Server URL for 'openai-compatible' (e.g., http://localhost:11434/v1)
+  apiKey: string;           // Optional key for 'openai-compatible' (Anthropic uses its own key)
+  models: Record<NotesProviderId, NotesModelSettings>;
+}
+
+// Earlier message in a multi-turn request
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// A single prompt sent to a notes provider
+export interface NotesRequest {
+  system: string;           // Instructions
+  history?: ChatTurn[];     // Earlier turns of a conversation, oldest first (starting with 'user')
+  prompt: string;           // User message (usually containing the transcript)
+  prefix?: string;          // Earlier output to continue from (after hitting the token limit)
+}
+
+// Response from a notes provider
+export interface NotesCompletion {
+  text: string;             // Generated text (continuing `prefix` if one was given)
+  truncated: boolean;       // Stopped at the output token limit
+}
+
+// Progress reported while generating notes for long transcripts
+export interface NotesProgress {
+  stage: 'sections' | 'merging';  // Summarizing sections, then merging them
+  current: number;                // 1-based index of the current step
+  total: number;                  // Number of steps in this stage
+}
+
+// Streaming and cancellation for a notes request
+export interface NotesStreamOptions {
+  onText?: (delta: string) => void;  // Called with each new piece of text as it arrives
+  signal?: AbortSignal;              // Aborts the request when triggered
+}
+
+// Options for generating notes from a transcript
+export interface NotesGenerationOptions extends NotesStreamOptions {
+  instructions?: string;                        // Rendered note template (defaults to the standard template)
+  segments?: TranscriptSegment[];               // Used to split long transcripts on segment boundaries
+  onProgress?: (progress: NotesProgress) => void;  // Called as long transcripts move through each stage
+}
+
+// A language model backend for note generation
+export interface NotesProvider {
+  id: NotesProviderId;
+  name: string;             // Display name used in error messages
+  contextTokens: number;    // Context window, used to size requests
+  maxTokens: number;        // Output token limit per request
+  complete: (request: NotesRequest, options?: NotesStreamOptions) => Promise<NotesCompletion>;
+}
+
+// Fields the recordings list can be sorted by
+// 'relevance' keeps search results in ranked order
+export type SortField = 'relevance' | 'date' | 'duration' | 'name' | 'priority';
+
+// Sort order for the recordings list
+export interface SortOptions {
+  field: SortField;
+  direction: 'asc' | 'desc';
+}
+
+// Recording fields covered by the full-text search index
+export type SearchField = 'name' | 'tags' | 'notes' | 'transcript';
+
+// Inverted index entry: how often a term occurs in each field of a recording
+export interface SearchPosting {
+  term: string;                             // Normalized term
+  recordingId: number;                      // Recording containing the term
+  fields: Partial<Record<SearchField, number>>;  // Term frequency per field
+}
+
+// Per-recording statistics used for ranking
+export interface SearchDocument {
+  recordingId: number;      // Primary key
+  length: number;           // Number of indexed terms (for length normalization)
+}
+
+// Piece of a search snippet; matched words are highlighted
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+// Ranked search match for a recording
+export interface SearchHit {
+  recordingId: number;
+  score: number;            // Relevance score (higher is better)
+  field: SearchField;       // Field the snippet was taken from
+  snippet: SnippetPart[];   // Context around the match
+  time?: number;            // Start of the matching transcript segment (seconds)
+}